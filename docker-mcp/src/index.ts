@@ -5,6 +5,8 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { readdir } from 'fs/promises';
 import { fileURLToPath } from 'url';
 import path from 'path';
+import { ToolContext } from './types.js';
+import { createToolContext } from './utils/progress.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,7 +16,7 @@ interface ToolModule {
     name: string;
     description: string;
     inputSchema: any;
-    handler: (input: any) => Promise<any>;
+    handler: (input: any, context?: ToolContext) => Promise<any>;
   };
 }
 
@@ -52,14 +54,17 @@ class DockerMcpServer {
               const tool = module.default;
               const toolName = `docker_${tool.name}`;
               
+              // Get the shape from the Zod schema for MCP
+              const shape = tool.inputSchema._def.shape ? tool.inputSchema._def.shape() : {};
+              
               this.server.tool(
                 toolName,
                 tool.description,
-                tool.inputSchema._def || {},
-                async (args: any) => {
+                shape,
+                async (args: any, extra: any) => {
                   try {
                     const validatedInput = tool.inputSchema.parse(args);
-                    return await tool.handler(validatedInput);
+                    return await tool.handler(validatedInput, createToolContext(extra));
                   } catch (error) {
                     throw new Error(`Validation error: ${error instanceof Error ? error.message : String(error)}`);
                   }
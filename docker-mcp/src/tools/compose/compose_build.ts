@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_BUILD_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+import { lastLines } from '../../utils/format.js';
+import { outputProgress } from '../../utils/progress.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  services: z.array(composeServiceSchema()).optional().describe('Only build these services'),
+  noCache: z.boolean().optional().default(false).describe('Do not use cache when building'),
+  pull: z.boolean().optional().default(false).describe('Always pull newer versions of base images'),
+  buildArgs: z.record(z.string()).optional().describe('Build-time variables'),
+  timeout: z.number().min(1).max(3600).optional().describe('Maximum time in seconds (default: 600)')
+});
+
+const dockerComposeBuildTool: ToolDefinition = {
+  name: 'compose_build',
+  description: 'Build or rebuild the images of Docker Compose services',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const timeout = params.timeout ? params.timeout * 1000 : COMPOSE_BUILD_TIMEOUT;
+    
+    const args: string[] = ['build'];
+    if (params.noCache) args.push('--no-cache');
+    if (params.pull) args.push('--pull');
+    if (params.buildArgs) {
+      Object.entries(params.buildArgs).forEach(([key, value]) => {
+        args.push('--build-arg', `${key}=${value}`);
+      });
+    }
+    if (params.services && params.services.length > 0) {
+      args.push(...params.services);
+    }
+    
+    try {
+      const result = await runCompose(params, args, timeout, { signal: context?.signal, onOutput: outputProgress(context) });
+      const output = (result.stdout + result.stderr).trim();
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.timedOut || result.cancelled
+                ? composeError('build', result, timeout)
+                : `Build failed:\n${lastLines(output, 30)}`
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Built ${params.services?.join(', ') || 'all services'}${output ? `\n\n${lastLines(output, 20)}` : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeBuildTool;
\ No newline at end of file
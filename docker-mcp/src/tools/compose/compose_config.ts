@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  services: z.array(composeServiceSchema()).optional().describe('Only render these services'),
+  servicesOnly: z.boolean().optional().default(false).describe('Only list the service names')
+});
+
+const dockerComposeConfigTool: ToolDefinition = {
+  name: 'compose_config',
+  description: 'Render the merged and interpolated Docker Compose configuration as JSON (YAML with Compose v1)',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const services = params.services || [];
+    
+    try {
+      let json = !params.servicesOnly;
+      let result = await runCompose(params, ['config', ...(params.servicesOnly ? ['--services'] : ['--format', 'json']), ...services]);
+      
+      // Standalone docker-compose v1 has no --format; it only renders YAML
+      if (json && result.exitCode !== 0 && !result.timedOut && !result.cancelled) {
+        const yaml = await runCompose(params, ['config', ...services]);
+        if (yaml.exitCode === 0) {
+          result = yaml;
+          json = false;
+        }
+      }
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('render config', result, COMPOSE_TIMEOUT)
+            }
+          ]
+        };
+      }
+      
+      const text = json
+        ? JSON.stringify(JSON.parse(result.stdout), null, 2)
+        : result.stdout.trim();
+      
+      // Interpolation warnings (unset variables) are worth surfacing
+      const warnings = result.stderr.split('\n').filter(line => /warn/i.test(line));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: warnings.length > 0 ? `${text}\n\nWarnings:\n${warnings.join('\n')}` : text
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeConfigTool;
\ No newline at end of file
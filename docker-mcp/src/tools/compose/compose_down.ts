@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, runCompose } from '../../utils/compose.js';
+import { lastLines } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  volumes: z.boolean().optional().default(false).describe('Remove named volumes declared in the compose file and anonymous volumes'),
+  removeOrphans: z.boolean().optional().default(false).describe('Remove containers for services not defined in the compose file'),
+  rmi: z.enum(['all', 'local']).optional().describe('Remove images used by services (local: only images without a custom tag)'),
+  timeout: z.number().optional().describe('Shutdown timeout in seconds')
+});
+
+const dockerComposeDownTool: ToolDefinition = {
+  name: 'compose_down',
+  description: 'Stop and remove Docker Compose containers and networks, optionally volumes and images',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const args: string[] = ['down'];
+    if (params.volumes) args.push('--volumes');
+    if (params.removeOrphans) args.push('--remove-orphans');
+    if (params.rmi) args.push('--rmi', params.rmi);
+    if (params.timeout !== undefined) args.push('-t', String(params.timeout));
+    
+    try {
+      const result = await runCompose(params, args);
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('stop services', result, COMPOSE_TIMEOUT)
+            }
+          ]
+        };
+      }
+      
+      let message = 'Stopped and removed services';
+      if (params.volumes) message += ', volumes';
+      if (params.rmi) message += ', images';
+      
+      const output = (result.stdout + result.stderr).trim();
+      if (output) {
+        message += '\n\n' + lastLines(output, 50);
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: message
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeDownTool;
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+import { toArgv } from '../../utils/parsers.js';
+import { authorize, checkExecPolicy } from '../../utils/policy.js';
+import { outputProgress } from '../../utils/progress.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  service: composeServiceSchema().describe('Service to run the command in'),
+  command: z.union([z.string(), z.array(z.string())]).describe('Command to execute, as argv or a command line with shell-style quoting'),
+  index: z.number().optional().describe('Container index when the service has several replicas (default: 1)'),
+  user: z.string().optional().describe('Username or UID to run command as'),
+  workdir: z.string().optional().describe('Working directory inside the container'),
+  env: z.record(z.string()).optional().describe('Environment variables to set'),
+  detach: z.boolean().optional().default(false).describe('Run command in background'),
+  timeout: z.number().min(1).max(3600).optional().describe('Maximum time in seconds (default: 120)')
+});
+
+const dockerComposeExecTool: ToolDefinition = {
+  name: 'compose_exec',
+  description: 'Execute a command in a running Docker Compose service container',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const timeout = params.timeout ? params.timeout * 1000 : COMPOSE_TIMEOUT;
+    
+    // -T: no TTY is available to the server
+    const args: string[] = ['exec', '-T'];
+    if (params.detach) args.push('-d');
+    if (params.index !== undefined) args.push('--index', String(params.index));
+    if (params.user) args.push('-u', params.user);
+    if (params.workdir) args.push('-w', params.workdir);
+    if (params.env) {
+      Object.entries(params.env).forEach(([key, value]) => {
+        args.push('-e', `${key}=${value}`);
+      });
+    }
+    const command = toArgv(params.command);
+    args.push(params.service, ...command);
+    
+    try {
+      // The exec policy's container patterns are matched against the service name
+      const rejection = await authorize('compose_exec', {
+        projectPath: params.projectPath,
+        service: params.service,
+        command,
+        user: params.user,
+        workdir: params.workdir,
+        env: params.env ? Object.keys(params.env) : undefined
+      }, policy => checkExecPolicy(policy, { container: params.service, command, user: params.user }));
+      if (rejection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: rejection
+            }
+          ]
+        };
+      }
+      
+      const result = await runCompose(params, args, timeout, { signal: context?.signal, onOutput: outputProgress(context) });
+      
+      if (result.timedOut || result.cancelled) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('exec', result, timeout)
+            }
+          ]
+        };
+      }
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Command failed with exit code ${result.exitCode}: ${result.stderr || result.stdout || 'No output'}`
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: params.detach
+              ? 'Command started in background'
+              : result.stdout || result.stderr || 'Command executed successfully (no output)'
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeExecTool;
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+import { lastLines } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  services: z.array(composeServiceSchema()).optional().describe('Only show logs of these services'),
+  tail: z.number().optional().default(200).describe('Number of lines to show from the end of the logs of each container'),
+  since: z.string().optional().describe('Show logs since timestamp (e.g., "2023-01-01T00:00:00") or relative duration (e.g., "10m")'),
+  until: z.string().optional().describe('Show logs before timestamp or relative duration'),
+  timestamps: z.boolean().optional().default(false).describe('Show timestamps')
+});
+
+const MAX_LINES = 500; // Limit output to prevent overwhelming response
+
+const dockerComposeLogsTool: ToolDefinition = {
+  name: 'compose_logs',
+  description: 'Fetch the logs of Docker Compose services',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const args: string[] = ['logs', '--no-color', '--tail', String(params.tail)];
+    if (params.since) args.push('--since', params.since);
+    if (params.until) args.push('--until', params.until);
+    if (params.timestamps) args.push('--timestamps');
+    if (params.services && params.services.length > 0) {
+      args.push(...params.services);
+    }
+    
+    try {
+      const result = await runCompose(params, args);
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('fetch logs', result, COMPOSE_TIMEOUT)
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result.stdout.trim() ? lastLines(result.stdout, MAX_LINES) : 'No logs found'
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeLogsTool;
\ No newline at end of file
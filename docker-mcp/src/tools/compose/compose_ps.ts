@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  all: z.boolean().optional().default(false).describe('Include stopped containers'),
+  services: z.array(composeServiceSchema()).optional().describe('Only list these services')
+});
+
+const dockerComposePsTool: ToolDefinition = {
+  name: 'compose_ps',
+  description: 'List the containers of a Docker Compose project with state, health and published ports',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const args: string[] = ['ps', '--format', 'json'];
+    if (params.all) args.push('--all');
+    if (params.services && params.services.length > 0) {
+      args.push(...params.services);
+    }
+    
+    try {
+      const result = await runCompose(params, args);
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('list services', result, COMPOSE_TIMEOUT)
+            }
+          ]
+        };
+      }
+      
+      // Compose prints a JSON array (v2.0-2.20) or one JSON object per line (later versions)
+      const output = result.stdout.trim();
+      const containers = output.startsWith('[')
+        ? JSON.parse(output)
+        : output.split('\n').filter(Boolean).map(line => JSON.parse(line));
+      
+      if (containers.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No containers found for this project'
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(containers, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposePsTool;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_BUILD_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+import { lastLines } from '../../utils/format.js';
+import { outputProgress } from '../../utils/progress.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  services: z.array(composeServiceSchema()).optional().describe('Only pull images of these services'),
+  ignorePullFailures: z.boolean().optional().default(false).describe('Pull what it can and ignore images with pull failures'),
+  includeDeps: z.boolean().optional().default(false).describe('Also pull services declared as dependencies'),
+  timeout: z.number().min(1).max(3600).optional().describe('Maximum time in seconds (default: 600)')
+});
+
+const dockerComposePullTool: ToolDefinition = {
+  name: 'compose_pull',
+  description: 'Pull the images of Docker Compose services',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const timeout = params.timeout ? params.timeout * 1000 : COMPOSE_BUILD_TIMEOUT;
+    
+    const args: string[] = ['pull'];
+    if (params.ignorePullFailures) args.push('--ignore-pull-failures');
+    if (params.includeDeps) args.push('--include-deps');
+    if (params.services && params.services.length > 0) {
+      args.push(...params.services);
+    }
+    
+    try {
+      const result = await runCompose(params, args, timeout, { signal: context?.signal, onOutput: outputProgress(context) });
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('pull images', result, timeout)
+            }
+          ]
+        };
+      }
+      
+      // Skip per-layer progress lines, keep the per-service results
+      const output = (result.stdout + result.stderr)
+        .split('\n')
+        .filter(line => !/^\s*[0-9a-f]{12} /.test(line))
+        .join('\n')
+        .trim();
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Pulled images for ${params.services?.join(', ') || 'all services'}${output ? `\n\n${lastLines(output, 30)}` : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposePullTool;
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+
+const inputSchema = z.object({
+  ...composeProjectSchema,
+  services: z.array(composeServiceSchema()).optional().describe('Only restart these services'),
+  timeout: z.number().optional().describe('Shutdown timeout in seconds')
+});
+
+const dockerComposeRestartTool: ToolDefinition = {
+  name: 'compose_restart',
+  description: 'Restart Docker Compose services',
+  category: 'docker',
+  subcategory: 'compose',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const args: string[] = ['restart'];
+    if (params.timeout !== undefined) args.push('-t', String(params.timeout));
+    if (params.services && params.services.length > 0) {
+      args.push(...params.services);
+    }
+    
+    try {
+      const result = await runCompose(params, args);
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('restart services', result, COMPOSE_TIMEOUT)
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Restarted ${params.services?.join(', ') || 'all services'}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker-compose: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerComposeRestartTool;
\ No newline at end of file
@@ -1,11 +1,11 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { spawn } from 'child_process';
-import path from 'path';
+import { COMPOSE_BUILD_TIMEOUT, COMPOSE_TIMEOUT, composeError, composeProjectSchema, composeServiceSchema, runCompose } from '../../utils/compose.js';
+import { lastLines } from '../../utils/format.js';
+import { outputProgress } from '../../utils/progress.js';
 
 const inputSchema = z.object({
-  projectPath: z.string().describe('Path to directory containing docker-compose.yml'),
-  file: z.string().optional().describe('Specify alternate compose file (default: docker-compose.yml)'),
+  ...composeProjectSchema,
   detach: z.boolean().optional().default(true).describe('Run containers in background'),
   build: z.boolean().optional().default(false).describe('Build images before starting'),
   forceRecreate: z.boolean().optional().default(false).describe('Recreate containers even if config unchanged'),
@@ -13,7 +13,8 @@ const inputSchema = z.object({
   noDeps: z.boolean().optional().default(false).describe('Do not start linked services'),
   removeOrphans: z.boolean().optional().default(false).describe('Remove containers for undefined services'),
   scale: z.record(z.number()).optional().describe('Scale services (e.g., {"web": 3})'),
-  services: z.array(z.string()).optional().describe('Only start specified services')
+  services: z.array(composeServiceSchema()).optional().describe('Only start specified services'),
+  timeout: z.number().min(1).max(3600).optional().describe('Maximum time in seconds (default: 600 when detached, 120 otherwise)')
 });
 
 const dockerComposeUpTool: ToolDefinition = {
@@ -24,18 +25,11 @@ const dockerComposeUpTool: ToolDefinition = {
   version: '1.0.0',
   inputSchema,
   
-  handler: async (input) => {
+  handler: async (input, context) => {
     const params = inputSchema.parse(input);
     
     // Build docker-compose up command
-    const args: string[] = [];
-    
-    // Add file option if specified
-    if (params.file) {
-      args.push('-f', path.join(params.projectPath, params.file));
-    }
-    
-    args.push('up');
+    const args: string[] = ['up'];
     
     if (params.detach) args.push('-d');
     if (params.build) args.push('--build');
@@ -57,129 +51,60 @@ const dockerComposeUpTool: ToolDefinition = {
     }
     
     try {
-      return new Promise((resolve) => {
-        const docker = spawn('docker-compose', args, { 
-          stdio: 'pipe',
-          cwd: params.projectPath
-        });
-        
-        let output = '';
-        let errorOutput = '';
-        
-        docker.stdout.on('data', (data) => {
-          output += data.toString();
-        });
-        
-        docker.stderr.on('data', (data) => {
-          // Docker Compose sends normal output to stderr
-          const text = data.toString();
-          output += text;
-          errorOutput += text;
-        });
-        
-        docker.on('error', (error) => {
-          // Try docker compose (new syntax) if docker-compose fails
-          if (error.message.includes('ENOENT')) {
-            const dockerNew = spawn('docker', ['compose', ...args], {
-              stdio: 'pipe',
-              cwd: params.projectPath
-            });
-            
-            let newOutput = '';
-            let newErrorOutput = '';
-            
-            dockerNew.stdout.on('data', (data) => {
-              newOutput += data.toString();
-            });
-            
-            dockerNew.stderr.on('data', (data) => {
-              const text = data.toString();
-              newOutput += text;
-              newErrorOutput += text;
-            });
-            
-            dockerNew.on('close', (code) => {
-              if (code === 0) {
-                const services = params.services?.join(', ') || 'all services';
-                const successMessage = params.detach
-                  ? `Started ${services} in background`
-                  : `Started ${services}`;
-                  
-                resolve({
-                  content: [
-                    {
-                      type: 'text',
-                      text: successMessage + '\n\n' + newOutput.slice(-500) // Last 500 chars
-                    }
-                  ]
-                });
-              } else {
-                resolve({
-                  content: [
-                    {
-                      type: 'text',
-                      text: `Failed to start services: ${newErrorOutput || 'Unknown error'}`
-                    }
-                  ]
-                });
-              }
-            });
-            
-            return;
-          }
-          
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: `Error starting docker-compose: ${error.message}`
-              }
-            ]
-          });
-        });
-        
-        docker.on('close', (code) => {
-          if (code === 0) {
-            const services = params.services?.join(', ') || 'all services';
-            const successMessage = params.detach
-              ? `Started ${services} in background`
-              : `Started ${services}`;
-              
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: successMessage + '\n\n' + output.slice(-500) // Last 500 chars
-                }
-              ]
-            });
-          } else {
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: `Failed to start services: ${errorOutput || 'Unknown error'}`
-                }
-              ]
-            });
+      // For non-detached mode, limit execution time; detached runs may still pull or build
+      const timeout = params.timeout ? params.timeout * 1000 : params.detach ? COMPOSE_BUILD_TIMEOUT : COMPOSE_TIMEOUT;
+      const result = await runCompose(params, args, timeout, { signal: context?.signal, onOutput: outputProgress(context) });
+      
+      if (result.timedOut) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: params.detach
+                ? `Compose operation timeout (${timeout / 1000} seconds). Pulling or building the images took too long.`
+                : `Compose operation timeout (${timeout / 1000} seconds). Use detach mode for long-running services.`
+            }
+          ]
+        };
+      }
+      
+      if (result.cancelled) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: composeError('up', result, timeout)
+            }
+          ]
+        };
+      }
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Failed to start services: ${result.stderr || 'Unknown error'}`
+            }
+          ]
+        };
+      }
+      
+      // Docker Compose sends normal output to stderr
+      const output = result.stdout + result.stderr;
+      const services = params.services?.join(', ') || 'all services';
+      const successMessage = params.detach
+        ? `Started ${services} in background`
+        : `Started ${services}`;
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: successMessage + '\n\n' + lastLines(output.trim(), 20)
           }
-        });
-        
-        // For non-detached mode, limit execution time
-        if (!params.detach) {
-          setTimeout(() => {
-            docker.kill();
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: 'Compose operation timeout (2 minutes). Use detach mode for long-running services.'
-                }
-              ]
-            });
-          }, 120000); // 2 minutes
-        }
-      });
+        ]
+      };
     } catch (error) {
       return {
         content: [
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { mkdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { formatBytes, formatTable } from '../../utils/format.js';
+import { resolveHostPath } from '../../utils/parsers.js';
+import { authorize, checkCopyPolicy } from '../../utils/policy.js';
+import { parseTar, writeHostEntries } from '../../utils/tar.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  source: z.string().describe('File or directory path in the container'),
+  destination: z.string().optional().describe('Host path to copy to. An existing directory receives the source inside it. Omit to return a text file\'s content or a directory listing'),
+  archive: z.boolean().optional().default(false).describe('Save the tar archive itself to the destination file (gzip-compressed when it ends in .gz or .tgz)'),
+  maxSizeMb: z.number().min(1).max(2048).optional().default(100).describe('Refuse to copy more than this many megabytes')
+});
+
+const INLINE_LIMIT = 256 * 1024; // Largest file returned as text
+const LISTING_LIMIT = 500; // Directory entries shown without a destination
+
+const dockerCopyFromTool: ToolDefinition = {
+  name: 'copy_from',
+  description: 'Copy a file or directory out of a container to the host (or as a tar archive), or read a text file or list a directory in place',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    
+    if (params.archive && !params.destination) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'archive requires a destination file'
+          }
+        ]
+      };
+    }
+    
+    try {
+      const rejection = await authorize('copy_from', {
+        container: params.container,
+        source: params.source,
+        destination: params.destination ? resolveHostPath(params.destination) : undefined,
+        archive: params.archive || undefined
+      }, policy => checkCopyPolicy(policy, { hostPath: params.destination }));
+      if (rejection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: rejection
+            }
+          ]
+        };
+      }
+      
+      const { stat: sourceStat, archive } = await getDockerClient().getArchive(params.container, params.source, {
+        maxSize: params.maxSizeMb * 1024 * 1024,
+        signal: context?.signal
+      });
+      
+      if (params.archive) {
+        const destination = resolveHostPath(params.destination!);
+        const data = /\.(t?gz)$/.test(destination) ? gzipSync(archive) : archive;
+        await mkdir(path.dirname(destination), { recursive: true });
+        await writeFile(destination, data);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Saved ${params.container}:${params.source} as ${destination} (${formatBytes(data.length)})`
+            }
+          ]
+        };
+      }
+      
+      const entries = parseTar(archive);
+      
+      if (!params.destination) {
+        const [root] = entries;
+        
+        if (root?.type === 'file' && entries.length === 1) {
+          const data = root.data || Buffer.alloc(0);
+          if (data.length > INLINE_LIMIT || data.includes(0)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${params.source} is ${data.includes(0) ? 'a binary file' : 'too large to show'} (${formatBytes(data.length)}); give a destination to copy it`
+                }
+              ]
+            };
+          }
+          
+          return {
+            content: [
+              {
+                type: 'text',
+                text: data.toString('utf-8')
+              }
+            ]
+          };
+        }
+        
+        if (root?.type === 'symlink') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${params.source} is a symlink to ${root.linkName || sourceStat.linkTarget}`
+              }
+            ]
+          };
+        }
+        
+        const rows = entries.slice(0, LISTING_LIMIT).map(entry => [
+          entry.type,
+          entry.type === 'file' ? formatBytes(entry.size) : '-',
+          entry.type === 'symlink' ? `${entry.name} -> ${entry.linkName}` : entry.name
+        ]);
+        let listing = formatTable(['TYPE', 'SIZE', 'PATH'], rows);
+        if (entries.length > LISTING_LIMIT) {
+          listing += `\n... (${entries.length - LISTING_LIMIT} more entries)`;
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: listing
+            }
+          ]
+        };
+      }
+      
+      // Like docker cp: copy into an existing directory, otherwise to the destination name
+      const destination = resolveHostPath(params.destination);
+      const destinationIsDirectory = await stat(destination).then(stats => stats.isDirectory(), () => false);
+      const top = sourceStat.name;
+      const renamed = destinationIsDirectory
+        ? entries
+        : entries.map(entry => ({
+          ...entry,
+          name: entry.name === top ? path.basename(destination) : entry.name.startsWith(`${top}/`) ? path.basename(destination) + entry.name.substring(top.length) : entry.name
+        }));
+      
+      const result = await writeHostEntries(renamed, destinationIsDirectory ? destination : path.dirname(destination));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Copied ${params.container}:${params.source} to ${destinationIsDirectory ? path.join(destination, top) : destination} (${result.files} file(s), ${formatBytes(result.bytes)})`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker cp: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerCopyFromTool;
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { ToolDefinition } from '../../types.js';
+import { DockerApiError, getDockerClient, pathStatType } from '../../utils/docker.js';
+import { formatBytes } from '../../utils/format.js';
+import { resolveHostPath } from '../../utils/parsers.js';
+import { authorize, checkCopyPolicy } from '../../utils/policy.js';
+import { packTar, readHostEntries, TarEntry } from '../../utils/tar.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  destination: z.string().describe('Path in the container. An existing directory receives the source inside it; otherwise the source is copied to this path'),
+  source: z.string().optional().describe('Host file or directory to copy'),
+  content: z.string().optional().describe('Text to write to the destination file instead of copying a host path'),
+  archive: z.boolean().optional().default(false).describe('The source is a tar archive (optionally gzip, bzip2 or xz compressed) to extract into the destination directory'),
+  maxSizeMb: z.number().min(1).max(2048).optional().default(100).describe('Refuse to copy more than this many megabytes')
+});
+
+const dockerCopyToTool: ToolDefinition = {
+  name: 'copy_to',
+  description: 'Copy a host file or directory, a tar archive, or text content into a container',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const client = getDockerClient();
+    const limit = params.maxSizeMb * 1024 * 1024;
+    
+    if ((params.source === undefined) === (params.content === undefined)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Specify either source or content'
+          }
+        ]
+      };
+    }
+    
+    try {
+      const rejection = await authorize('copy_to', {
+        container: params.container,
+        destination: params.destination,
+        source: params.source ? resolveHostPath(params.source) : undefined,
+        archive: params.archive || undefined
+      }, policy => checkCopyPolicy(policy, { hostPath: params.source }));
+      if (rejection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: rejection
+            }
+          ]
+        };
+      }
+      
+      if (params.content !== undefined && Buffer.byteLength(params.content) > limit) {
+        throw new Error(`Content is over the ${params.maxSizeMb} MB limit`);
+      }
+      
+      if (params.archive) {
+        if (!params.source) throw new Error('archive requires a source tar file');
+        const source = resolveHostPath(params.source);
+        const { size } = await stat(source);
+        if (size > limit) throw new Error(`${source} is ${formatBytes(size)}, over the ${params.maxSizeMb} MB limit`);
+        
+        await client.putArchive(params.container, params.destination, await readFile(source), { signal: context?.signal });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Extracted ${source} (${formatBytes(size)}) into ${params.container}:${params.destination}`
+            }
+          ]
+        };
+      }
+      
+      // Like docker cp: copy into an existing directory, otherwise to the destination name
+      let destinationIsDirectory = false;
+      try {
+        destinationIsDirectory = pathStatType(await client.statPath(params.container, params.destination)) === 'directory';
+      } catch (error) {
+        if (!(error instanceof DockerApiError) || error.statusCode !== 404) throw error;
+      }
+      
+      let directory = path.posix.dirname(params.destination);
+      let name = path.posix.basename(params.destination);
+      if (destinationIsDirectory || params.destination.endsWith('/')) {
+        if (!params.source) throw new Error(`${params.destination} is a directory; give a file path for content`);
+        directory = params.destination;
+        name = path.basename(resolveHostPath(params.source));
+      }
+      
+      const entries: TarEntry[] = params.source
+        ? await readHostEntries(resolveHostPath(params.source), name, limit)
+        : [{ name, type: 'file', mode: 0o644, size: Buffer.byteLength(params.content!), mtime: Math.floor(Date.now() / 1000), data: Buffer.from(params.content!) }];
+      
+      await client.putArchive(params.container, directory, packTar(entries), { signal: context?.signal });
+      
+      const files = entries.filter(entry => entry.type === 'file');
+      const bytes = files.reduce((sum, entry) => sum + entry.size, 0);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Copied ${params.source ? resolveHostPath(params.source) : 'content'} to ${params.container}:${path.posix.join(directory, name)} (${files.length} file(s), ${formatBytes(bytes)})`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker cp: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerCopyToTool;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  path: z.string().optional().describe('Only show changes below this path (e.g., "/app")'),
+  kinds: z.array(z.enum(['added', 'changed', 'deleted'])).optional().describe('Only show these kinds of change'),
+  format: z.enum(['text', 'json']).optional().default('text').describe('Output format: "A /path" lines like docker diff, or JSON grouped by kind')
+});
+
+const KINDS = ['changed', 'added', 'deleted'] as const;
+const MAX_CHANGES = 1000;
+
+const dockerDiffTool: ToolDefinition = {
+  name: 'diff',
+  description: 'List files and directories added, changed or deleted in a container\'s filesystem compared to its image',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    try {
+      const prefix = params.path?.replace(/\/+$/, '');
+      const changes = (await getDockerClient().containerChanges(params.container))
+        .map(change => ({ path: change.Path, kind: KINDS[change.Kind] }))
+        .filter(change => !prefix || change.path === prefix || change.path.startsWith(`${prefix}/`))
+        .filter(change => !params.kinds || params.kinds.includes(change.kind))
+        .sort((a, b) => a.path.localeCompare(b.path));
+      
+      if (changes.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No filesystem changes'
+            }
+          ]
+        };
+      }
+      
+      const shown = changes.slice(0, MAX_CHANGES);
+      const truncated = changes.length > MAX_CHANGES;
+      
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                added: shown.filter(change => change.kind === 'added').map(change => change.path),
+                changed: shown.filter(change => change.kind === 'changed').map(change => change.path),
+                deleted: shown.filter(change => change.kind === 'deleted').map(change => change.path),
+                total: changes.length,
+                truncated
+              }, null, 2)
+            }
+          ]
+        };
+      }
+      
+      const counts = KINDS.map(kind => `${changes.filter(change => change.kind === kind).length} ${kind}`).join(', ');
+      let resultText = `${counts}\n\n` + shown.map(change => `${change.kind === 'added' ? 'A' : change.kind === 'deleted' ? 'D' : 'C'} ${change.path}`).join('\n');
+      if (truncated) {
+        resultText += `\n... (${changes.length - MAX_CHANGES} more changes; narrow with path or kinds)`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker diff: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerDiffTool;
\ No newline at end of file
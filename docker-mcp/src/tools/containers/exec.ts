@@ -1,18 +1,24 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { spawn } from 'child_process';
+import { DockerApiError, getDockerClient } from '../../utils/docker.js';
+import { lastLines } from '../../utils/format.js';
+import { toArgv } from '../../utils/parsers.js';
+import { authorize, checkExecPolicy } from '../../utils/policy.js';
+import { callSignal, isTimeout, outputProgress } from '../../utils/progress.js';
 
 const inputSchema = z.object({
   container: z.string().describe('Container name or ID'),
-  command: z.string().describe('Command to execute in the container'),
-  interactive: z.boolean().optional().default(false).describe('Keep STDIN open'),
+  command: z.union([z.string(), z.array(z.string())]).describe('Command to execute in the container, as argv (["sh", "-c", "ls | wc -l"]) or a command line with shell-style quoting'),
   tty: z.boolean().optional().default(false).describe('Allocate a pseudo-TTY'),
   user: z.string().optional().describe('Username or UID to run command as'),
   workdir: z.string().optional().describe('Working directory inside the container'),
   env: z.record(z.string()).optional().describe('Environment variables to set'),
-  detach: z.boolean().optional().default(false).describe('Run command in background')
+  detach: z.boolean().optional().default(false).describe('Run command in background'),
+  timeout: z.number().min(1).max(3600).optional().default(30).describe('Maximum time in seconds to wait for the command')
 });
 
+const OUTPUT_LINES = 500; // Output kept for the result; progress notifications carry all of it
+
 const dockerExecTool: ToolDefinition = {
   name: 'exec',
   description: 'Execute a command inside a running Docker container',
@@ -21,100 +27,87 @@ const dockerExecTool: ToolDefinition = {
   version: '1.0.0',
   inputSchema,
   
-  handler: async (input) => {
+  handler: async (input, context) => {
     const params = inputSchema.parse(input);
-    
-    // Build docker exec command
-    const args: string[] = ['exec'];
-    
-    if (params.detach) args.push('-d');
-    if (params.interactive) args.push('-i');
-    if (params.tty) args.push('-t');
-    if (params.user) args.push('-u', params.user);
-    if (params.workdir) args.push('-w', params.workdir);
-    
-    // Add environment variables
-    if (params.env) {
-      Object.entries(params.env).forEach(([key, value]) => {
-        args.push('-e', `${key}=${value}`);
-      });
-    }
-    
-    // Add container and command
-    args.push(params.container);
-    
-    // Split command into arguments
-    const commandParts = params.command.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
-    args.push(...commandParts.map(part => part.replace(/^"|"$/g, '')));
+    const signal = callSignal(context, params.timeout);
+    const reportProgress = outputProgress(context);
     
     try {
-      return new Promise((resolve) => {
-        const docker = spawn('docker', args, { stdio: 'pipe' });
-        
-        let output = '';
-        let errorOutput = '';
-        
-        docker.stdout.on('data', (data) => {
-          output += data.toString();
-        });
-        
-        docker.stderr.on('data', (data) => {
-          errorOutput += data.toString();
-        });
-        
-        docker.on('error', (error) => {
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: `Error starting docker exec: ${error.message}`
-              }
-            ]
-          });
-        });
-        
-        docker.on('close', (code) => {
-          if (code === 0) {
-            const result = params.detach 
-              ? 'Command started in background'
-              : output || 'Command executed successfully (no output)';
-              
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: result
-                }
-              ]
-            });
-          } else {
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: `Command failed with exit code ${code}: ${errorOutput || output || 'No output'}`
-                }
-              ]
-            });
-          }
-        });
-        
-        // Limit execution time for non-detached commands
-        if (!params.detach) {
-          setTimeout(() => {
-            docker.kill();
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: 'Command execution timeout (30 seconds)'
-                }
-              ]
-            });
-          }, 30000);
-        }
+      const command = toArgv(params.command);
+      const rejection = await authorize('exec', {
+        container: params.container,
+        command,
+        user: params.user,
+        workdir: params.workdir,
+        env: params.env ? Object.keys(params.env) : undefined
+      }, policy => checkExecPolicy(policy, { container: params.container, command, user: params.user }));
+      if (rejection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: rejection
+            }
+          ]
+        };
+      }
+      
+      const result = await getDockerClient().exec(params.container, command, {
+        user: params.user,
+        workdir: params.workdir,
+        env: params.env,
+        tty: params.tty,
+        detach: params.detach,
+        timeout: 0,
+        onOutput: (_stream, text) => reportProgress(text),
+        signal
       });
+      
+      if (params.detach) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Command started in background'
+            }
+          ]
+        };
+      }
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Command failed with exit code ${result.exitCode}: ${lastLines(result.stderr || result.stdout, OUTPUT_LINES) || 'No output'}`
+            }
+          ]
+        };
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lastLines(result.stdout || result.stderr, OUTPUT_LINES) || 'Command executed successfully (no output)'
+          }
+        ]
+      };
     } catch (error) {
+      if (error instanceof DockerApiError && signal.aborted) {
+        // The Engine API cannot kill an exec'd process, so it may carry on in the container
+        return {
+          content: [
+            {
+              type: 'text',
+              text: isTimeout(signal)
+                ? `Command execution timeout (${params.timeout} seconds). The command may still be running in the container.`
+                : 'Command cancelled. It may still be running in the container.'
+            }
+          ]
+        };
+      }
+      
       return {
         content: [
           {
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { DockerContainerInspect, ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { redactEnv } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  size: z.boolean().optional().default(false).describe('Include the container filesystem size'),
+  raw: z.boolean().optional().default(false).describe('Return the full Engine API inspect document (environment still redacted)')
+});
+
+const HEALTH_LOG_ENTRIES = 5;
+
+/**
+ * The parts of an inspect document that matter when diagnosing a container
+ */
+function summarize(details: DockerContainerInspect & { SizeRw?: number; SizeRootFs?: number }) {
+  const { State: state, Config: config, HostConfig: hostConfig } = details;
+  
+  return {
+    id: details.Id,
+    name: details.Name.replace(/^\//, ''),
+    image: config.Image,
+    imageId: details.Image,
+    created: details.Created,
+    command: [details.Path, ...details.Args],
+    state: {
+      status: state.Status,
+      running: state.Running,
+      paused: state.Paused,
+      restarting: state.Restarting,
+      dead: state.Dead,
+      oomKilled: state.OOMKilled,
+      exitCode: state.ExitCode,
+      error: state.Error || undefined,
+      pid: state.Pid || undefined,
+      startedAt: state.StartedAt,
+      finishedAt: state.Running ? undefined : state.FinishedAt
+    },
+    health: state.Health
+      ? {
+        status: state.Health.Status,
+        failingStreak: state.Health.FailingStreak,
+        recentChecks: (state.Health.Log || []).slice(-HEALTH_LOG_ENTRIES).map(check => ({
+          start: check.Start,
+          exitCode: check.ExitCode,
+          output: check.Output.trim()
+        }))
+      }
+      : undefined,
+    restartCount: details.RestartCount,
+    restartPolicy: hostConfig.RestartPolicy,
+    user: config.User || undefined,
+    workingDir: config.WorkingDir || undefined,
+    env: redactEnv(config.Env || []),
+    labels: config.Labels,
+    mounts: details.Mounts.map(mount => ({
+      type: mount.Type,
+      name: mount.Name,
+      source: mount.Source,
+      destination: mount.Destination,
+      readOnly: !mount.RW
+    })),
+    networks: Object.fromEntries(Object.entries(details.NetworkSettings.Networks || {}).map(([name, network]) => [name, {
+      ipAddress: network.IPAddress || undefined,
+      gateway: network.Gateway || undefined,
+      macAddress: network.MacAddress || undefined,
+      aliases: network.Aliases || undefined
+    }])),
+    ports: details.NetworkSettings.Ports,
+    resources: {
+      memoryLimit: hostConfig.Memory || undefined,
+      cpus: hostConfig.NanoCpus ? hostConfig.NanoCpus / 1e9 : undefined,
+      privileged: hostConfig.Privileged || undefined
+    },
+    size: details.SizeRw !== undefined ? { rw: details.SizeRw, rootFs: details.SizeRootFs } : undefined
+  };
+}
+
+const dockerInspectTool: ToolDefinition = {
+  name: 'inspect',
+  description: 'Inspect a container as JSON: state, exit code, OOM kill, health checks, restart count, mounts, networks and (redacted) environment',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { container, size, raw } = inputSchema.parse(input);
+    
+    try {
+      const details = await getDockerClient().inspectContainer(container, { size });
+      
+      const output = raw
+        ? { ...details, Config: { ...details.Config, Env: redactEnv(details.Config.Env || []) } }
+        : summarize(details);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(output, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker inspect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerInspectTool;
\ No newline at end of file
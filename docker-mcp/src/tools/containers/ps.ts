@@ -1,10 +1,12 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { getDockerClient } from '../../utils/docker.js';
+import { parseFilters } from '../../utils/parsers.js';
+import { formatAge, formatBytes, formatPorts, formatTable, shortId } from '../../utils/format.js';
 
 const inputSchema = z.object({
   all: z.boolean().optional().default(false).describe('Show all containers (default shows just running)'),
-  filter: z.string().optional().describe('Filter output based on conditions (e.g., "status=running")'),
+  filter: z.string().optional().describe('Filter output based on conditions (e.g., "status=running", comma-separated for several)'),
   format: z.enum(['table', 'json', 'id', 'name']).optional().default('table').describe('Output format'),
   last: z.number().optional().describe('Show n last created containers'),
   size: z.boolean().optional().default(false).describe('Display total file sizes')
@@ -21,51 +23,65 @@ const dockerPsTool: ToolDefinition = {
   handler: async (input) => {
     const { all, filter, format, last, size } = inputSchema.parse(input);
     
-    let command = 'docker ps';
-    
-    // Build command arguments
-    const args: string[] = [];
-    
-    if (all) args.push('-a');
-    if (filter) args.push(`--filter "${filter}"`);
-    if (last) args.push(`--last ${last}`);
-    if (size) args.push('-s');
-    
-    // Handle different formats
-    switch (format) {
-      case 'json':
-        args.push('--format "{{json .}}"');
-        break;
-      case 'id':
-        args.push('-q');
-        break;
-      case 'name':
-        args.push('--format "{{.Names}}"');
-        break;
-      // 'table' is default, no additional args needed
-    }
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { encoding: 'utf-8' });
+      const containers = await getDockerClient().listContainers({
+        all: all || last !== undefined,
+        limit: last,
+        size,
+        filters: parseFilters(filter)
+      });
+      
+      if (containers.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No containers found'
+            }
+          ]
+        };
+      }
       
-      let formattedOutput = output;
+      let formattedOutput: string;
       
-      // If JSON format, parse and pretty-print
-      if (format === 'json' && output.trim()) {
-        const lines = output.trim().split('\n');
-        const jsonObjects = lines.map(line => JSON.parse(line));
-        formattedOutput = JSON.stringify(jsonObjects, null, 2);
+      switch (format) {
+        case 'json':
+          formattedOutput = JSON.stringify(containers, null, 2);
+          break;
+        case 'id':
+          formattedOutput = containers.map(container => shortId(container.Id)).join('\n');
+          break;
+        case 'name':
+          formattedOutput = containers.map(container => container.Names.map(name => name.replace(/^\//, '')).join(',')).join('\n');
+          break;
+        default: {
+          const headers = ['CONTAINER ID', 'IMAGE', 'COMMAND', 'CREATED', 'STATUS', 'PORTS', 'NAMES'];
+          if (size) headers.push('SIZE');
+          
+          formattedOutput = formatTable(headers, containers.map(container => {
+            const command = container.Command.length > 20 ? `${container.Command.substring(0, 19)}…` : container.Command;
+            const row = [
+              shortId(container.Id),
+              container.Image,
+              `"${command}"`,
+              formatAge(container.Created),
+              container.Status,
+              formatPorts(container.Ports),
+              container.Names.map(name => name.replace(/^\//, '')).join(',')
+            ];
+            if (size) {
+              row.push(`${formatBytes(container.SizeRw || 0)} (virtual ${formatBytes(container.SizeRootFs || 0)})`);
+            }
+            return row;
+          }));
+        }
       }
       
       return {
         content: [
           {
             type: 'text',
-            text: formattedOutput || 'No containers found'
+            text: formattedOutput
           }
         ]
       };
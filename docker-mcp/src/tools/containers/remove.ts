@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { getDockerClient } from '../../utils/docker.js';
 
 const inputSchema = z.object({
   containers: z.array(z.string()).min(1).describe('Container names or IDs to remove'),
@@ -23,12 +23,7 @@ const dockerRemoveTool: ToolDefinition = {
     
     for (const container of containers) {
       try {
-        let command = 'docker rm';
-        if (force) command += ' -f';
-        if (volumes) command += ' -v';
-        command += ` ${container}`;
-        
-        execSync(command, { encoding: 'utf-8' }).trim();
+        await getDockerClient().removeContainer(container, { force, v: volumes });
         
         results.push({
           container,
@@ -1,6 +1,10 @@
 import { z } from 'zod';
-import { ToolDefinition } from '../../types.js';
-import { spawn } from 'child_process';
+import { DockerContainerCreateConfig, DockerVolume, ToolDefinition } from '../../types.js';
+import { DockerApiError, getDockerClient } from '../../utils/docker.js';
+import { formatProgressEvent } from '../../utils/format.js';
+import { parsePortMappings, parseVolumeSpecs, toArgv } from '../../utils/parsers.js';
+import { authorize, checkRunPolicy, namedVolumes } from '../../utils/policy.js';
+import { anySignal, callSignal, isTimeout } from '../../utils/progress.js';
 
 const inputSchema = z.object({
   image: z.string().describe('Docker image to run'),
@@ -12,12 +16,18 @@ const inputSchema = z.object({
   ports: z.array(z.string()).optional().describe('Port mappings (e.g., ["8080:80", "3000:3000"])'),
   volumes: z.array(z.string()).optional().describe('Volume mappings (e.g., ["/host/path:/container/path"])'),
   env: z.record(z.string()).optional().describe('Environment variables'),
-  command: z.string().optional().describe('Command to run in container'),
+  command: z.union([z.string(), z.array(z.string())]).optional().describe('Command to run in container, as argv (["sh", "-c", "echo hi"]) or a command line with shell-style quoting'),
   workdir: z.string().optional().describe('Working directory inside the container'),
   network: z.string().optional().describe('Network mode'),
-  restart: z.enum(['no', 'always', 'unless-stopped', 'on-failure']).optional().describe('Restart policy')
+  restart: z.enum(['no', 'always', 'unless-stopped', 'on-failure']).optional().describe('Restart policy'),
+  privileged: z.boolean().optional().default(false).describe('Give the container extended privileges'),
+  capAdd: z.array(z.string()).optional().describe('Linux capabilities to add (e.g., ["NET_ADMIN"])'),
+  capDrop: z.array(z.string()).optional().describe('Linux capabilities to drop (e.g., ["ALL"])'),
+  timeout: z.number().min(1).max(3600).optional().default(30).describe('Seconds to wait for a foreground container to exit; after that it keeps running in the background')
 });
 
+const OUTPUT_LINES = 200; // Output kept for the result; progress notifications carry all of it
+
 const dockerRunTool: ToolDefinition = {
   name: 'run',
   description: 'Run a Docker container with various configuration options',
@@ -26,108 +36,162 @@ const dockerRunTool: ToolDefinition = {
   version: '1.0.0',
   inputSchema,
   
-  handler: async (input) => {
+  handler: async (input, context) => {
     const params = inputSchema.parse(input);
-    
-    // Build docker run command
-    const args: string[] = ['run'];
-    
-    if (params.detach) args.push('-d');
-    if (params.rm) args.push('--rm');
-    if (params.interactive) args.push('-i');
-    if (params.tty) args.push('-t');
-    if (params.name) args.push('--name', params.name);
-    if (params.workdir) args.push('-w', params.workdir);
-    if (params.network) args.push('--network', params.network);
-    if (params.restart) args.push('--restart', params.restart);
-    
-    // Add port mappings
-    if (params.ports) {
-      params.ports.forEach(port => {
-        args.push('-p', port);
-      });
-    }
-    
-    // Add volume mappings
-    if (params.volumes) {
-      params.volumes.forEach(volume => {
-        args.push('-v', volume);
-      });
-    }
-    
-    // Add environment variables
-    if (params.env) {
-      Object.entries(params.env).forEach(([key, value]) => {
-        args.push('-e', `${key}=${value}`);
-      });
-    }
-    
-    // Add image
-    args.push(params.image);
-    
-    // Add command if provided
-    if (params.command) {
-      args.push(...params.command.split(' '));
-    }
+    const client = getDockerClient();
     
     try {
-      return new Promise((resolve) => {
-        const docker = spawn('docker', args, { 
-          stdio: params.detach ? 'pipe' : ['pipe', 'pipe', 'pipe']
-        });
-        
-        let output = '';
-        let errorOutput = '';
-        
-        docker.stdout?.on('data', (data) => {
-          output += data.toString();
-        });
+      const { exposedPorts, portBindings } = parsePortMappings(params.ports || []);
+      const { binds, volumes } = parseVolumeSpecs(params.volumes || []);
+      // Named volumes can be backed by host directories, which the policy has to see
+      const existingVolumes = (await Promise.all(namedVolumes(binds).map(name => client.inspectVolume(name).catch(error => {
+        if (error instanceof DockerApiError && error.statusCode === 404) return undefined;
+        throw error;
+      })))).filter((volume): volume is DockerVolume => Boolean(volume));
+      
+      const rejection = await authorize('run', {
+        image: params.image,
+        name: params.name,
+        command: params.command ? toArgv(params.command) : undefined,
+        binds,
+        ports: params.ports,
+        network: params.network,
+        privileged: params.privileged || undefined,
+        capAdd: params.capAdd,
+        // Only the names: values may be secrets
+        env: params.env ? Object.keys(params.env) : undefined
+      }, policy => checkRunPolicy(policy, {
+        image: params.image,
+        binds,
+        portBindings,
+        network: params.network,
+        privileged: params.privileged,
+        capAdd: params.capAdd,
+        volumes: existingVolumes
+      }));
+      if (rejection) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: rejection
+            }
+          ]
+        };
+      }
+      
+      const config: DockerContainerCreateConfig = {
+        Image: params.image,
+        Cmd: params.command ? toArgv(params.command) : undefined,
+        Env: params.env ? Object.entries(params.env).map(([key, value]) => `${key}=${value}`) : undefined,
+        WorkingDir: params.workdir,
+        Tty: params.tty,
+        OpenStdin: params.interactive,
+        AttachStdout: !params.detach,
+        AttachStderr: !params.detach,
+        ExposedPorts: exposedPorts,
+        Volumes: volumes,
+        HostConfig: {
+          Binds: binds,
+          PortBindings: portBindings,
+          NetworkMode: params.network,
+          RestartPolicy: params.restart ? { Name: params.restart } : undefined,
+          Privileged: params.privileged || undefined,
+          CapAdd: params.capAdd,
+          CapDrop: params.capDrop,
+          // Foreground runs are removed after their logs have been read
+          AutoRemove: params.rm && params.detach
+        }
+      };
+      
+      let created: { Id: string };
+      try {
+        created = await client.createContainer(config, params.name);
+      } catch (error) {
+        // Pull missing images first, like docker run does
+        if (!(error instanceof DockerApiError) || error.statusCode !== 404) throw error;
+        context?.progress(`Pulling ${params.image}`);
+        await client.pullImage(params.image, { signal: context?.signal }, event => context?.progress(formatProgressEvent(event)));
+        created = await client.createContainer(config, params.name);
+      }
+      
+      await client.startContainer(created.Id);
+      
+      if (params.detach) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Container started successfully. Container ID: ${created.Id}`
+            }
+          ]
+        };
+      }
+      
+      // For non-detached containers, stream the output while waiting, up to the call's timeout
+      const signal = callSignal(context, params.timeout);
+      const following = new AbortController();
+      const logs = client.containerLogs(created.Id, {
+        follow: true,
+        keepLast: OUTPUT_LINES,
+        onEntry: entry => context?.progress(entry.text),
+        signal: anySignal([signal, following.signal])
+      }).catch(() => ({ entries: [], truncated: false }));
+      
+      let statusCode: number;
+      try {
+        statusCode = (await client.waitContainer(created.Id, { timeout: 0, signal })).StatusCode;
+      } catch (error) {
+        following.abort();
+        if (!signal.aborted) throw error;
         
-        docker.stderr?.on('data', (data) => {
-          errorOutput += data.toString();
-        });
+        const { entries } = await logs;
+        const output = entries.map(entry => entry.text).join('\n');
         
-        docker.on('close', (code) => {
-          if (code === 0) {
-            const successMessage = params.detach 
-              ? `Container started successfully. Container ID: ${output.trim()}`
-              : output || 'Container ran successfully';
-              
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: successMessage
-                }
-              ]
-            });
-          } else {
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: `Error running container: ${errorOutput || 'Unknown error'}`
-                }
-              ]
-            });
-          }
-        });
+        if (isTimeout(signal)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Container execution timeout (${params.timeout} seconds). The container is still running (ID: ${created.Id}). Use detach mode or a longer timeout for long-running containers.${output ? `\n\nOutput so far:\n${output}` : ''}`
+              }
+            ]
+          };
+        }
         
-        // For non-detached containers, limit execution time
-        if (!params.detach) {
-          setTimeout(() => {
-            docker.kill();
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: 'Container execution timeout (30 seconds). Use detach mode for long-running containers.'
-                }
-              ]
-            });
-          }, 30000);
+        // Cancelled by the client: stop the container, as interrupting docker run would
+        await client.stopContainer(created.Id, 5);
+        if (params.rm) {
+          await client.removeContainer(created.Id, { force: true });
         }
-      });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Cancelled; container ${created.Id} was stopped`
+            }
+          ]
+        };
+      }
+      
+      // Following ends once the container has exited
+      const { entries, truncated } = await logs;
+      const output = (truncated ? `... (earlier output omitted, showing last ${OUTPUT_LINES} lines)\n` : '') + entries.map(entry => entry.text).join('\n');
+      
+      if (params.rm) {
+        await client.removeContainer(created.Id, { force: true });
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: statusCode === 0
+              ? output || 'Container ran successfully'
+              : `Error running container: exited with code ${statusCode}${output ? `\n${output}` : ''}`
+          }
+        ]
+      };
     } catch (error) {
       return {
         content: [
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { summarizeStats } from '../../utils/stats.js';
+
+const inputSchema = z.object({
+  containers: z.array(z.string()).optional().describe('Container names or IDs (default: all running containers)')
+});
+
+const dockerStatsTool: ToolDefinition = {
+  name: 'stats',
+  description: 'Take a one-shot resource usage sample (CPU %, memory, network and block IO, PIDs) for one or more containers, as JSON',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    try {
+      const containers = params.containers && params.containers.length > 0
+        ? params.containers
+        : (await client.listContainers()).map(container => container.Id);
+      
+      if (containers.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No running containers'
+            }
+          ]
+        };
+      }
+      
+      // Each sample takes about a second, so read them concurrently
+      const samples = await Promise.all(containers.map(async container => {
+        try {
+          return summarizeStats(await client.containerStats(container));
+        } catch (error) {
+          return { container, error: error instanceof Error ? error.message : String(error) };
+        }
+      }));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(samples, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker stats: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerStatsTool;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { getDockerClient } from '../../utils/docker.js';
 
 const inputSchema = z.object({
   containers: z.array(z.string()).min(1).describe('Container names or IDs to stop'),
@@ -22,8 +22,7 @@ const dockerStopTool: ToolDefinition = {
     
     for (const container of containers) {
       try {
-        const command = `docker stop -t ${time} ${container}`;
-        execSync(command, { encoding: 'utf-8' }).trim();
+        await getDockerClient().stopContainer(container, time);
         
         results.push({
           container,
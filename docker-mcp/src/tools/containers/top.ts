@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  psArgs: z.string().optional().describe('Arguments for ps inside the container (default: -ef)')
+});
+
+const dockerTopTool: ToolDefinition = {
+  name: 'top',
+  description: 'List the processes running in a container as JSON, one object per process keyed by ps column',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { container, psArgs } = inputSchema.parse(input);
+    
+    try {
+      const result = await getDockerClient().containerTop(container, psArgs);
+      const processes = (result.Processes || []).map(row => Object.fromEntries(result.Titles.map((title, index) => [title, row[index]])));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(processes, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker top: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerTopTool;
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import { DockerContainerInspect, ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { callSignal, isTimeout } from '../../utils/progress.js';
+import { probeHttp, probeTcp, resolveContainerPort } from '../../utils/readiness.js';
+
+const inputSchema = z.object({
+  container: z.string().describe('Container name or ID'),
+  healthy: z.boolean().optional().describe('Wait for the container healthcheck to report healthy (default when no other condition is given and the container has a healthcheck)'),
+  logPattern: z.string().optional().describe('Wait for a log line matching this regular expression (e.g., "ready to accept connections")'),
+  port: z.number().int().min(1).max(65535).optional().describe('Wait for this container port to accept TCP connections (reached through its published host port, or the container IP)'),
+  http: z.string().optional().describe('Wait for a GET to return 2xx: a full URL, or a path (e.g., "/health") requested on `port`'),
+  timeout: z.number().min(1).max(600).optional().default(60).describe('Maximum time to wait in seconds'),
+  interval: z.number().min(0.1).max(30).optional().default(1).describe('Seconds between checks')
+});
+
+const LOG_LINES_ON_FAILURE = 50;
+
+/**
+ * Wait between checks, returning early when the call is cancelled or times out
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function describeState(details: DockerContainerInspect): string {
+  const state = details.State;
+  const lines = [`Status: ${state.Status}${state.Running ? '' : ` (exit code ${state.ExitCode})`}`];
+  if (state.OOMKilled) lines.push('OOMKilled: true');
+  if (state.Error) lines.push(`Error: ${state.Error}`);
+  if (details.RestartCount > 0) lines.push(`Restart count: ${details.RestartCount}`);
+  if (state.Health) {
+    lines.push(`Health: ${state.Health.Status} (failing streak ${state.Health.FailingStreak})`);
+    const last = state.Health.Log?.[state.Health.Log.length - 1];
+    if (last) lines.push(`Last healthcheck (exit code ${last.ExitCode}): ${last.Output.trim()}`);
+  }
+  return lines.join('\n');
+}
+
+const dockerWaitTool: ToolDefinition = {
+  name: 'wait',
+  description: 'Wait until a container is ready: healthcheck healthy, a log line matching a regex, a TCP port accepting connections, or an HTTP endpoint returning 2xx. Reports the final state and recent logs on failure',
+  category: 'docker',
+  subcategory: 'containers',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    if (params.http && !/^https?:\/\//.test(params.http) && params.port === undefined) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'A port is required when http is a path'
+          }
+        ]
+      };
+    }
+    
+    let pattern: RegExp | undefined;
+    try {
+      pattern = params.logPattern ? new RegExp(params.logPattern) : undefined;
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Invalid logPattern: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+    
+    const startedWaiting = Date.now();
+    const signal = callSignal(context, params.timeout);
+    let details: DockerContainerInspect;
+    // Conditions still to be met, checked in this order on every round
+    const pending = new Map<string, () => Promise<boolean>>();
+    const reached: string[] = [];
+    let failure: string;
+    
+    try {
+      details = await client.inspectContainer(params.container);
+      
+      const healthy = params.healthy ?? (!pattern && params.port === undefined && !params.http);
+      if (healthy && !details.State.Health) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: params.healthy
+                ? `Container ${params.container} has no healthcheck; wait for a logPattern, port or http endpoint instead`
+                : `Container ${params.container} has no healthcheck; specify logPattern, port or http to wait for`
+            }
+          ]
+        };
+      }
+      
+      let logsSince = Math.floor(Date.parse(details.State.StartedAt) / 1000) || undefined;
+      
+      if (healthy) {
+        pending.set('healthcheck healthy', async () => details.State.Health?.Status === 'healthy');
+      }
+      
+      if (pattern) {
+        pending.set(`log matched /${params.logPattern}/`, async () => {
+          const checkedAt = Math.floor(Date.now() / 1000);
+          const { entries } = await client.containerLogs(params.container, { since: logsSince, signal });
+          // Overlap by a second: since has second resolution
+          logsSince = checkedAt - 1;
+          return entries.some(entry => pattern!.test(entry.text));
+        });
+      }
+      
+      if (params.port !== undefined && !params.http) {
+        pending.set(`port ${params.port} open`, async () => {
+          const endpoint = resolveContainerPort(details, params.port!);
+          return endpoint ? probeTcp(endpoint.host, endpoint.port) : false;
+        });
+      }
+      
+      if (params.http) {
+        pending.set(`GET ${params.http} returned 2xx`, async () => {
+          let url = params.http!;
+          if (!/^https?:\/\//.test(url)) {
+            const endpoint = resolveContainerPort(details, params.port!);
+            if (!endpoint) return false;
+            url = `http://${endpoint.host.includes(':') ? `[${endpoint.host}]` : endpoint.host}:${endpoint.port}${url.startsWith('/') ? '' : '/'}${url}`;
+          }
+          const status = await probeHttp(url);
+          return status !== undefined && status >= 200 && status < 300;
+        });
+      }
+      
+      while (true) {
+        // Cancelled by the client
+        if (signal.aborted && !isTimeout(signal)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Cancelled waiting for container ${params.container}\nStill waiting for: ${[...pending.keys()].join(', ')}`
+              }
+            ]
+          };
+        }
+        
+        for (const [name, check] of [...pending]) {
+          // A check interrupted by the signal counts as not met; the signal is handled below
+          const met = await check().catch(error => {
+            if (signal.aborted) return false;
+            throw error;
+          });
+          if (met) {
+            pending.delete(name);
+            reached.push(name);
+          }
+        }
+        
+        if (pending.size === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Container ${params.container} is ready after ${((Date.now() - startedWaiting) / 1000).toFixed(1)}s (${reached.join(', ')})`
+              }
+            ]
+          };
+        }
+        
+        const stopped = !details.State.Running && !details.State.Restarting;
+        if (stopped || isTimeout(signal)) {
+          failure = stopped
+            ? `Container ${params.container} stopped before it was ready`
+            : `Timed out after ${params.timeout} seconds waiting for container ${params.container}`;
+          break;
+        }
+        
+        await sleep(params.interval * 1000, signal);
+        if (!signal.aborted || isTimeout(signal)) {
+          details = await client.inspectContainer(params.container);
+        }
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error waiting for container: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+    
+    let resultText = `${failure}\nStill waiting for: ${[...pending.keys()].join(', ')}\n\n${describeState(details)}`;
+    
+    try {
+      const { entries } = await client.containerLogs(params.container, { tail: LOG_LINES_ON_FAILURE });
+      resultText += `\n\nLast ${LOG_LINES_ON_FAILURE} log lines:\n${entries.map(entry => entry.text).join('\n') || '(no logs)'}`;
+    } catch {
+      // The container may have been removed (--rm); the state above is all there is
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: resultText
+        }
+      ]
+    };
+  }
+};
+
+export default dockerWaitTool;
\ No newline at end of file
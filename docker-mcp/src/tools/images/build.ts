@@ -1,6 +1,9 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
 import { spawn } from 'child_process';
+import { resolveBuildFiles } from '../../utils/dockerfile.js';
+import { lastLines } from '../../utils/format.js';
+import { callSignal, isTimeout, outputProgress } from '../../utils/progress.js';
 
 const inputSchema = z.object({
   context: z.string().describe('Build context path (directory containing Dockerfile)'),
@@ -11,9 +14,12 @@ const inputSchema = z.object({
   noCache: z.boolean().optional().default(false).describe('Do not use cache when building'),
   pull: z.boolean().optional().default(false).describe('Always pull newer version of base image'),
   platform: z.string().optional().describe('Set platform for build (e.g., linux/amd64)'),
-  quiet: z.boolean().optional().default(false).describe('Suppress build output')
+  quiet: z.boolean().optional().default(false).describe('Suppress build output'),
+  timeout: z.number().min(1).max(3600).optional().default(600).describe('Maximum time in seconds for the build')
 });
 
+const MAX_OUTPUT = 1024 * 1024; // Build output kept in memory, in characters
+
 const dockerBuildTool: ToolDefinition = {
   name: 'build',
   description: 'Build a Docker image from a Dockerfile',
@@ -22,14 +28,15 @@ const dockerBuildTool: ToolDefinition = {
   version: '1.0.0',
   inputSchema,
   
-  handler: async (input) => {
+  handler: async (input, context) => {
     const params = inputSchema.parse(input);
     
     // Build docker build command
     const args: string[] = ['build'];
+    const { contextPath, dockerfilePath } = resolveBuildFiles(params.context, params.dockerfile);
     
     if (params.tag) args.push('-t', params.tag);
-    if (params.dockerfile) args.push('-f', params.dockerfile);
+    if (params.dockerfile) args.push('-f', dockerfilePath);
     if (params.target) args.push('--target', params.target);
     if (params.noCache) args.push('--no-cache');
     if (params.pull) args.push('--pull');
@@ -44,35 +51,54 @@ const dockerBuildTool: ToolDefinition = {
     }
     
     // Add context path (must be last)
-    args.push(params.context);
+    args.push(contextPath);
     
     try {
-      return new Promise((resolve) => {
-        const docker = spawn('docker', args, { stdio: 'pipe' });
+      const signal = callSignal(context, params.timeout);
+      
+      return await new Promise((resolve) => {
+        const docker = spawn('docker', args, { stdio: 'pipe', signal });
+        const reportProgress = outputProgress(context);
         
         let output = '';
-        let errorOutput = '';
         let lastStep = '';
         
-        docker.stdout.on('data', (data) => {
+        const collect = (data: Buffer) => {
           const text = data.toString();
           output += text;
+          reportProgress(text);
           
-          // Extract build steps for progress tracking
-          const stepMatch = text.match(/Step \d+\/\d+ : .*/);
-          if (stepMatch) {
-            lastStep = stepMatch[0];
+          // Extract build steps for progress tracking (classic builder and BuildKit)
+          const steps = text.match(/^(Step \d+\/\d+ : .*|#\d+ \[[^\]]+\] .*)$/gm);
+          if (steps) {
+            lastStep = steps[steps.length - 1];
           }
-        });
+          
+          // Only the tail is reported, so don't hold on to megabytes of build log
+          if (output.length > MAX_OUTPUT) {
+            output = output.slice(-MAX_OUTPUT / 2);
+          }
+        };
         
-        docker.stderr.on('data', (data) => {
-          const text = data.toString();
-          // Docker sends build output to stderr as well
-          output += text;
-          errorOutput += text;
-        });
+        // Docker sends build output to stderr as well
+        docker.stdout.on('data', collect);
+        docker.stderr.on('data', collect);
         
         docker.on('error', (error) => {
+          if (signal.aborted) {
+            resolve({
+              content: [
+                {
+                  type: 'text',
+                  text: isTimeout(signal)
+                    ? `Build operation timeout (${params.timeout} seconds). The build might be too complex or stuck.\n\n${lastLines(output, 20)}`
+                    : 'Build cancelled'
+                }
+              ]
+            });
+            return;
+          }
+          
           resolve({
             content: [
               {
@@ -84,6 +110,8 @@ const dockerBuildTool: ToolDefinition = {
         });
         
         docker.on('close', (code) => {
+          if (signal.aborted) return;
+          
           if (code === 0) {
             let successMessage = 'Image built successfully';
             if (params.tag) {
@@ -117,25 +145,12 @@ const dockerBuildTool: ToolDefinition = {
               content: [
                 {
                   type: 'text',
-                  text: errorMessage
+                  text: `${errorMessage}\n\nLast output:\n${lastLines(output, 20)}`
                 }
               ]
             });
           }
         });
-        
-        // Set a reasonable timeout for building images
-        setTimeout(() => {
-          docker.kill();
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: 'Build operation timeout (10 minutes). The build might be too complex or stuck.'
-              }
-            ]
-          });
-        }, 600000); // 10 minutes
       });
     } catch (error) {
       return {
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { readFile } from 'fs/promises';
+import { ToolDefinition } from '../../types.js';
+import { buildStages, lintDockerfile, parseDockerfile, requiredStages, resolveBuildFiles } from '../../utils/dockerfile.js';
+import { findDockerignore, listBuildContext } from '../../utils/dockerignore.js';
+import { formatBytes, formatTable } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  context: z.string().describe('Build context path (directory containing Dockerfile)'),
+  dockerfile: z.string().optional().describe('Path of the Dockerfile, as given to docker_build (default: Dockerfile in the context)'),
+  target: z.string().optional().describe('Target build stage (default: the last stage)'),
+  buildArgs: z.record(z.string()).optional().describe('Build-time variables used to resolve FROM lines'),
+  files: z.number().min(0).max(1000).optional().default(20).describe('How many of the largest context files to list'),
+  format: z.enum(['text', 'json']).optional().default('text').describe('Output format')
+});
+
+const dockerfileAnalyzeTool: ToolDefinition = {
+  name: 'dockerfile_analyze',
+  description: 'Analyze a Dockerfile without building it: lint findings (unpinned base images, missing USER, apt cleanup, ADD vs COPY, cache-busting layer order), the multi-stage graph and the build context files the .dockerignore lets through, with sizes',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    try {
+      const { contextPath, dockerfilePath } = resolveBuildFiles(params.context, params.dockerfile);
+      const { instructions } = parseDockerfile(await readFile(dockerfilePath, 'utf-8'));
+      const stages = buildStages(instructions, params.buildArgs);
+      const findings = lintDockerfile(instructions, stages, params.target);
+      const required = requiredStages(stages, params.target);
+      
+      const ignoreFile = findDockerignore(contextPath, dockerfilePath);
+      const listing = await listBuildContext(contextPath, ignoreFile);
+      const largest = [...listing.files].sort((a, b) => b.size - a.size).slice(0, params.files);
+      
+      const stageLabel = (index: number) => stages[index].name || `#${index}`;
+      const stageSummaries = stages.map(stage => ({
+        index: stage.index,
+        name: stage.name,
+        base: stage.baseStage !== undefined ? `stage ${stageLabel(stage.baseStage)}` : stage.base,
+        platform: stage.platform,
+        line: stage.line,
+        copiesFrom: [...new Set(stage.copiesFrom.map(source => (source.stage !== undefined ? `stage ${stageLabel(source.stage)}` : source.image!)))],
+        used: required.has(stage.index)
+      }));
+      
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                dockerfile: dockerfilePath,
+                context: contextPath,
+                dockerignore: ignoreFile || null,
+                findings,
+                stages: stageSummaries,
+                buildContext: {
+                  fileCount: listing.files.length,
+                  totalSize: listing.totalSize,
+                  ignoredFiles: listing.ignoredFiles,
+                  ignoredSize: listing.ignoredSize,
+                  ignoredDirectories: listing.ignoredDirectories,
+                  truncated: listing.truncated,
+                  largestFiles: largest
+                }
+              }, null, 2)
+            }
+          ]
+        };
+      }
+      
+      const sections: string[] = [
+        `Dockerfile: ${dockerfilePath}\nContext: ${contextPath}\nIgnore file: ${ignoreFile || 'none (everything in the context is sent)'}`
+      ];
+      
+      const counts = (['error', 'warning', 'info'] as const)
+        .map(severity => [severity, findings.filter(finding => finding.severity === severity).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([severity, count]) => `${count} ${severity}${count === 1 || severity === 'info' ? '' : 's'}`);
+      sections.push(findings.length === 0
+        ? 'Findings: none'
+        : `Findings: ${counts.join(', ')}\n` + formatTable(['LINE', 'SEVERITY', 'RULE', 'MESSAGE'], findings.map(finding => [String(finding.line), finding.severity, finding.rule, finding.message])));
+      
+      if (stages.length > 0) {
+        const unused = stageSummaries.filter(stage => !stage.used);
+        sections.push(`Stages (${stages.length}, target: ${params.target || stageLabel(stages.length - 1)}):\n`
+          + formatTable(['STAGE', 'LINE', 'FROM', 'COPIES FROM'], stageSummaries.map(stage => [
+            `${stage.name || `#${stage.index}`}${stage.used ? '' : ' (unused)'}`,
+            String(stage.line),
+            `${stage.base}${stage.platform ? ` (${stage.platform})` : ''}`,
+            stage.copiesFrom.join(', ') || '-'
+          ]))
+          + (unused.length > 0 ? `\n\nUnused stages are skipped by BuildKit when building the target: ${unused.map(stage => stage.name || `#${stage.index}`).join(', ')}` : ''));
+      }
+      
+      let contextText = `Build context: ${listing.files.length} file(s), ${formatBytes(listing.totalSize)}`;
+      if (listing.ignoredFiles > 0 || listing.ignoredDirectories.length > 0) {
+        contextText += `\nIgnored: ${listing.ignoredFiles} file(s), ${formatBytes(listing.ignoredSize)}`;
+        if (listing.ignoredDirectories.length > 0) {
+          contextText += ` plus ${listing.ignoredDirectories.length} director${listing.ignoredDirectories.length === 1 ? 'y' : 'ies'} (${listing.ignoredDirectories.slice(0, 10).join(', ')}${listing.ignoredDirectories.length > 10 ? ', ...' : ''})`;
+        }
+      }
+      if (listing.truncated) {
+        contextText += '\nThe scan stopped early; the context is larger than shown';
+      }
+      if (largest.length > 0) {
+        contextText += `\n\nLargest files:\n` + formatTable(['SIZE', 'PATH'], largest.map(file => [formatBytes(file.size), file.path]));
+      }
+      sections.push(contextText);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: sections.join('\n\n')
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error analyzing Dockerfile: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerfileAnalyzeTool;
\ No newline at end of file
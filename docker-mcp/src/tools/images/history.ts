@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { formatAge, formatBytes, formatTable, shortId } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image name, tag or ID'),
+  noTrunc: z.boolean().optional().default(false).describe('Show full commands and IDs'),
+  format: z.enum(['table', 'json']).optional().default('table').describe('Output format')
+});
+
+const COMMAND_WIDTH = 60;
+
+/**
+ * The instruction that created a layer, without the shell wrapper the builder records
+ */
+function cleanCommand(createdBy: string): string {
+  return createdBy
+    .replace(/^\/bin\/sh -c #\(nop\)\s*/, '')
+    .replace(/^\/bin\/sh -c /, 'RUN ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const dockerHistoryTool: ToolDefinition = {
+  name: 'history',
+  description: 'Show the layers of an image with their sizes and the commands that created them',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { image, noTrunc, format } = inputSchema.parse(input);
+    
+    try {
+      const history = await getDockerClient().imageHistory(image);
+      
+      if (format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(history.map(layer => ({
+                id: layer.Id,
+                created: new Date(layer.Created * 1000).toISOString(),
+                createdBy: cleanCommand(layer.CreatedBy),
+                size: layer.Size,
+                tags: layer.Tags || undefined,
+                comment: layer.Comment || undefined
+              })), null, 2)
+            }
+          ]
+        };
+      }
+      
+      const rows = history.map(layer => {
+        const command = cleanCommand(layer.CreatedBy);
+        return [
+          layer.Id === '<missing>' || noTrunc ? layer.Id : shortId(layer.Id),
+          formatAge(layer.Created),
+          formatBytes(layer.Size),
+          noTrunc || command.length <= COMMAND_WIDTH ? command : `${command.substring(0, COMMAND_WIDTH - 3)}...`
+        ];
+      });
+      const total = history.reduce((sum, layer) => sum + layer.Size, 0);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatTable(['IMAGE', 'CREATED', 'SIZE', 'CREATED BY'], rows)}\n\n${history.length} layer(s), ${formatBytes(total)} total`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker history: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerHistoryTool;
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { DockerImageInspect, ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { redactEnv } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image name, tag or ID'),
+  raw: z.boolean().optional().default(false).describe('Return the full Engine API inspect document (environment still redacted)')
+});
+
+/**
+ * What a container started from the image will run, and with which defaults
+ */
+function summarize(details: DockerImageInspect) {
+  const { Config: config } = details;
+  
+  return {
+    id: details.Id,
+    tags: details.RepoTags || [],
+    digests: details.RepoDigests || [],
+    created: details.Created,
+    author: details.Author || undefined,
+    platform: `${details.Os}/${details.Architecture}${details.Variant ? `/${details.Variant}` : ''}`,
+    size: details.Size,
+    layers: details.RootFS.Layers?.length || 0,
+    entrypoint: config.Entrypoint || undefined,
+    cmd: config.Cmd || undefined,
+    user: config.User || undefined,
+    workingDir: config.WorkingDir || undefined,
+    env: redactEnv(config.Env || []),
+    exposedPorts: Object.keys(config.ExposedPorts || {}),
+    volumes: Object.keys(config.Volumes || {}),
+    labels: config.Labels || {},
+    stopSignal: config.StopSignal || undefined,
+    healthcheck: config.Healthcheck?.Test ? config.Healthcheck : undefined
+  };
+}
+
+const dockerImageInspectTool: ToolDefinition = {
+  name: 'image_inspect',
+  description: 'Inspect an image as JSON: entrypoint, command, (redacted) environment, exposed ports, volumes, labels, platform and size',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { image, raw } = inputSchema.parse(input);
+    
+    try {
+      const details = await getDockerClient().inspectImage(image);
+      
+      const output = raw
+        ? { ...details, Config: { ...details.Config, Env: redactEnv(details.Config.Env || []) } }
+        : summarize(details);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(output, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker image inspect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerImageInspectTool;
\ No newline at end of file
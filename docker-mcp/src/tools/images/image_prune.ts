@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { executePrune, planPrune, PROTECTED_LABELS_ENV } from '../../utils/prune.js';
+import { formatBytes } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  all: z.boolean().optional().default(false).describe('Remove all images not used by a container, not just dangling (untagged) ones'),
+  until: z.string().optional().describe('Only prune images created before this timestamp or duration ago (e.g., "24h", "2024-01-01")'),
+  protectLabels: z.array(z.string()).optional().describe(`Labels ("key" or "key=value") protecting images from pruning, in addition to ${PROTECTED_LABELS_ENV}`),
+  dryRun: z.boolean().optional().default(true).describe('Only preview what would be removed and reclaimed')
+});
+
+const dockerImagePruneTool: ToolDefinition = {
+  name: 'image_prune',
+  description: 'Remove dangling images (or all unused images), skipping images with protected labels. Previews the removal by default (dryRun)',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    try {
+      const plan = await planPrune(client, {
+        types: ['images'],
+        allImages: params.all,
+        until: params.until,
+        protectLabels: params.protectLabels
+      });
+      
+      if (params.dryRun) {
+        const estimate = plan.candidates.reduce((sum, item) => sum + (item.size || 0), 0);
+        let resultText = plan.candidates.length === 0
+          ? 'No images to prune'
+          : `Would remove ${plan.candidates.length} image(s), reclaiming up to ${formatBytes(estimate)}\n\n`
+            + plan.candidates.map(item => `  ${item.name} (${formatBytes(item.size || 0)})`).join('\n');
+        
+        if (plan.protected.length > 0) {
+          resultText += '\n\nProtected (kept):\n' + plan.protected.map(item => `  ${item.name} [${item.label}]`).join('\n');
+        }
+        
+        resultText += '\n\nDry run: nothing was removed. Run again with dryRun=false to prune.';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: resultText
+            }
+          ]
+        };
+      }
+      
+      const result = await executePrune(client, plan, params.all);
+      
+      let resultText = `Removed ${result.removed.length} image(s), reclaimed ${formatBytes(result.reclaimed)}`;
+      if (result.removed.length > 0) {
+        resultText += '\n\n' + result.removed.map(item => `  ✓ ${item.name}`).join('\n');
+      }
+      if (result.skipped.length > 0) {
+        resultText += '\n\nSkipped (in use):\n' + result.skipped.map(item => `  - ${item.name}: ${item.reason}`).join('\n');
+      }
+      if (result.failed.length > 0) {
+        resultText += '\n\nFailed:\n' + result.failed.map(item => `  ✗ ${item.name}: ${item.error}`).join('\n');
+      }
+      if (plan.protected.length > 0) {
+        resultText += `\n\nKept ${plan.protected.length} protected image(s)`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker image prune: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerImagePruneTool;
\ No newline at end of file
@@ -1,11 +1,13 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { getDockerClient } from '../../utils/docker.js';
+import { parseFilters } from '../../utils/parsers.js';
+import { formatAge, formatBytes, formatTable, shortId } from '../../utils/format.js';
 
 const inputSchema = z.object({
   all: z.boolean().optional().default(false).describe('Show all images (default hides intermediate images)'),
   digests: z.boolean().optional().default(false).describe('Show digests'),
-  filter: z.string().optional().describe('Filter output based on conditions'),
+  filter: z.string().optional().describe('Filter output based on conditions (e.g., "dangling=true", comma-separated for several)'),
   format: z.enum(['table', 'json', 'id']).optional().default('table').describe('Output format'),
   noTrunc: z.boolean().optional().default(false).describe('Do not truncate output')
 });
@@ -21,48 +23,58 @@ const dockerImagesTool: ToolDefinition = {
   handler: async (input) => {
     const { all, digests, filter, format, noTrunc } = inputSchema.parse(input);
     
-    let command = 'docker images';
-    
-    // Build command arguments
-    const args: string[] = [];
-    
-    if (all) args.push('-a');
-    if (digests) args.push('--digests');
-    if (filter) args.push(`--filter "${filter}"`);
-    if (noTrunc) args.push('--no-trunc');
-    
-    // Handle different formats
-    switch (format) {
-      case 'json':
-        args.push('--format "{{json .}}"');
-        break;
-      case 'id':
-        args.push('-q');
-        break;
-      // 'table' is default
-    }
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { encoding: 'utf-8' });
+      const images = await getDockerClient().listImages({ all, digests, filters: parseFilters(filter) });
+      
+      if (images.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No images found'
+            }
+          ]
+        };
+      }
       
-      let formattedOutput = output;
+      const imageId = (id: string) => (noTrunc ? id : shortId(id));
+      let formattedOutput: string;
       
-      // If JSON format, parse and pretty-print
-      if (format === 'json' && output.trim()) {
-        const lines = output.trim().split('\n');
-        const jsonObjects = lines.map(line => JSON.parse(line));
-        formattedOutput = JSON.stringify(jsonObjects, null, 2);
+      switch (format) {
+        case 'json':
+          formattedOutput = JSON.stringify(images, null, 2);
+          break;
+        case 'id':
+          formattedOutput = images.map(image => imageId(image.Id)).join('\n');
+          break;
+        default: {
+          const headers = digests
+            ? ['REPOSITORY', 'TAG', 'DIGEST', 'IMAGE ID', 'CREATED', 'SIZE']
+            : ['REPOSITORY', 'TAG', 'IMAGE ID', 'CREATED', 'SIZE'];
+          
+          // One row per tag, untagged images show as <none>
+          const rows = images.flatMap(image => {
+            const tags = image.RepoTags && image.RepoTags.length > 0 && image.RepoTags[0] !== '<none>:<none>' ? image.RepoTags : ['<none>:<none>'];
+            return tags.map(repoTag => {
+              const separator = repoTag.lastIndexOf(':');
+              const repository = repoTag.substring(0, separator);
+              const digest = (image.RepoDigests || []).find(value => value.startsWith(`${repository}@`))?.split('@')[1] || '<none>';
+              const row = [repository, repoTag.substring(separator + 1)];
+              if (digests) row.push(digest);
+              row.push(imageId(image.Id), formatAge(image.Created), formatBytes(image.Size));
+              return row;
+            });
+          });
+          
+          formattedOutput = formatTable(headers, rows);
+        }
       }
       
       return {
         content: [
           {
             type: 'text',
-            text: formattedOutput || 'No images found'
+            text: formattedOutput
           }
         ]
       };
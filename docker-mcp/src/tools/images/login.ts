@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { DOCKER_HUB, registryServerAddress, saveRegistryAuth } from '../../utils/auth.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+/** passwordEnv may only name variables set aside for registry passwords */
+const PASSWORD_ENV_PREFIX = 'DOCKER_MCP_REGISTRY_';
+
+const inputSchema = z.object({
+  registry: z.string().optional().default(DOCKER_HUB).describe('Registry host (e.g., "ghcr.io", "registry.example.com:5000"); defaults to Docker Hub'),
+  username: z.string().describe('Registry username'),
+  password: z.string().optional().describe('Password or access token'),
+  passwordEnv: z.string().optional().describe(`Name of a server environment variable starting with ${PASSWORD_ENV_PREFIX} holding the password, to keep it out of the conversation`),
+  save: z.boolean().optional().default(true).describe('Store the credentials in the docker config (or its credential helper) for later pushes and pulls')
+});
+
+const dockerLoginTool: ToolDefinition = {
+  name: 'login',
+  description: 'Log in to a registry: check the credentials with the daemon and store them like docker login',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    if (params.passwordEnv && !params.passwordEnv.startsWith(PASSWORD_ENV_PREFIX)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `passwordEnv must name a variable starting with ${PASSWORD_ENV_PREFIX}`
+          }
+        ]
+      };
+    }
+    
+    const password = params.passwordEnv ? process.env[params.passwordEnv] : params.password;
+    if (!password) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: params.passwordEnv
+              ? `Environment variable ${params.passwordEnv} is not set`
+              : 'Specify password or passwordEnv'
+          }
+        ]
+      };
+    }
+    
+    try {
+      const registry = params.registry.replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+      const serveraddress = registryServerAddress(registry);
+      const result = await getDockerClient().checkAuth({ username: params.username, password, serveraddress });
+      
+      let resultText = `${result.Status || 'Login Succeeded'} (${params.username}@${registry})`;
+      if (params.save) {
+        // Registries that hand out identity tokens get the token stored instead of the password
+        const location = await saveRegistryAuth(registry, result.IdentityToken
+          ? { identitytoken: result.IdentityToken, serveraddress }
+          : { username: params.username, password, serveraddress });
+        resultText += `\nCredentials stored in ${location}`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker login: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerLoginTool;
\ No newline at end of file
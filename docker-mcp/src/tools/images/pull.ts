@@ -1,12 +1,16 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { spawn } from 'child_process';
+import { encodeRegistryAuth, resolveRegistryAuth } from '../../utils/auth.js';
+import { DockerApiError, getDockerClient } from '../../utils/docker.js';
+import { formatProgressEvent } from '../../utils/format.js';
+import { callSignal } from '../../utils/progress.js';
 
 const inputSchema = z.object({
   image: z.string().describe('Image name with optional tag (e.g., "ubuntu:latest")'),
   platform: z.string().optional().describe('Platform to pull for (e.g., "linux/amd64")'),
   allTags: z.boolean().optional().default(false).describe('Download all tagged images'),
-  quiet: z.boolean().optional().default(false).describe('Suppress verbose output')
+  quiet: z.boolean().optional().default(false).describe('Suppress verbose output'),
+  timeout: z.number().min(1).max(3600).optional().default(300).describe('Maximum time in seconds for the pull')
 });
 
 const dockerPullTool: ToolDefinition = {
@@ -17,97 +21,54 @@ const dockerPullTool: ToolDefinition = {
   version: '1.0.0',
   inputSchema,
   
-  handler: async (input) => {
+  handler: async (input, context) => {
     const params = inputSchema.parse(input);
-    
-    // Build docker pull command
-    const args: string[] = ['pull'];
-    
-    if (params.allTags) args.push('--all-tags');
-    if (params.quiet) args.push('--quiet');
-    if (params.platform) args.push('--platform', params.platform);
-    
-    args.push(params.image);
+    const signal = callSignal(context, params.timeout);
     
     try {
-      return new Promise((resolve) => {
-        const docker = spawn('docker', args, { stdio: 'pipe' });
-        
-        let output = '';
-        let errorOutput = '';
-        let lastProgress = '';
-        
-        docker.stdout.on('data', (data) => {
-          const text = data.toString();
-          output += text;
-          
-          // Extract last progress update for cleaner output
-          const lines = text.split('\n').filter((line: string) => line.trim());
-          if (lines.length > 0) {
-            lastProgress = lines[lines.length - 1];
-          }
-        });
-        
-        docker.stderr.on('data', (data) => {
-          errorOutput += data.toString();
-        });
-        
-        docker.on('error', (error) => {
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: `Error starting docker pull: ${error.message}`
-              }
-            ]
-          });
-        });
-        
-        docker.on('close', (code) => {
-          if (code === 0) {
-            const successMessage = params.quiet 
-              ? `Successfully pulled ${params.image}`
-              : `Successfully pulled ${params.image}\n\nFinal status: ${lastProgress}`;
-              
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: successMessage
-                }
-              ]
-            });
-          } else {
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: `Failed to pull image: ${errorOutput || 'Unknown error'}`
-                }
-              ]
-            });
+      const events = await getDockerClient().pullImage(params.image, {
+        platform: params.platform,
+        allTags: params.allTags,
+        auth: encodeRegistryAuth(await resolveRegistryAuth(params.image)),
+        // The call's timeout bounds the whole pull instead of the idle time
+        timeout: 0,
+        signal
+      }, event => context?.progress(formatProgressEvent(event)));
+      
+      // The last status without a layer ID is the summary ("Status: Downloaded newer image for ...")
+      const lastProgress = [...events].reverse().find(event => event.status && !event.id)?.status
+        || events[events.length - 1]?.status
+        || '';
+      
+      const successMessage = params.quiet
+        ? `Successfully pulled ${params.image}`
+        : `Successfully pulled ${params.image}\n\nFinal status: ${lastProgress}`;
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: successMessage
           }
-        });
-        
-        // Set a reasonable timeout for pulling images
-        setTimeout(() => {
-          docker.kill();
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: 'Pull operation timeout (5 minutes). The image might be too large or the connection is slow.'
-              }
-            ]
-          });
-        }, 300000); // 5 minutes
-      });
+        ]
+      };
     } catch (error) {
+      if (error instanceof DockerApiError && error.timedOut) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Pull operation timeout (${params.timeout} seconds). The image might be too large or the connection is slow.`
+            }
+          ]
+        };
+      }
+      
       return {
         content: [
           {
             type: 'text',
-            text: `Error executing docker pull: ${error instanceof Error ? error.message : String(error)}`
+            text: `Failed to pull image: ${error instanceof Error ? error.message : String(error)}`
           }
         ]
       };
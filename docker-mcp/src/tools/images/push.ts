@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { encodeRegistryAuth, registryOf, resolveRegistryAuth } from '../../utils/auth.js';
+import { DockerApiError, getDockerClient, splitImageReference } from '../../utils/docker.js';
+import { formatProgressEvent } from '../../utils/format.js';
+import { callSignal } from '../../utils/progress.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image to push, named for its registry (e.g., "ghcr.io/org/app:1.2.0"); without a tag "latest" is pushed'),
+  username: z.string().optional().describe('Registry username; by default credentials come from the docker config (docker login)'),
+  password: z.string().optional().describe('Registry password or access token, used with username'),
+  timeout: z.number().min(1).max(3600).optional().default(300).describe('Maximum time in seconds for the push')
+});
+
+const dockerPushTool: ToolDefinition = {
+  name: 'push',
+  description: 'Push an image to a registry, using credentials from the docker config or supplied ones',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input, context) => {
+    const params = inputSchema.parse(input);
+    const signal = callSignal(context, params.timeout);
+    
+    if (Boolean(params.username) !== Boolean(params.password)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Specify both username and password, or neither to use the docker config'
+          }
+        ]
+      };
+    }
+    
+    // Like docker push, a reference without a tag means latest; the API would push every tag
+    const image = params.image.includes('@') || splitImageReference(params.image).tag ? params.image : `${params.image}:latest`;
+    
+    try {
+      const auth = await resolveRegistryAuth(image, params);
+      const events = await getDockerClient().pushImage(image, {
+        auth: encodeRegistryAuth(auth),
+        // The call's timeout bounds the whole push instead of the idle time
+        timeout: 0,
+        signal
+      }, event => context?.progress(formatProgressEvent(event)));
+      
+      const digest = [...events].reverse().find(event => event.aux?.Digest)?.aux;
+      const layers = new Set(events.filter(event => event.id && event.status === 'Pushed').map(event => event.id)).size;
+      const mounted = new Set(events.filter(event => event.id && /^(Layer already exists|Mounted from)/.test(event.status || '')).map(event => event.id)).size;
+      
+      let resultText = `Pushed ${image} to ${registryOf(image)}`;
+      resultText += `\n\nLayers: ${layers} pushed, ${mounted} already present`;
+      if (digest) {
+        resultText += `\nDigest: ${digest.Digest}${digest.Size ? ` (manifest size ${digest.Size})` : ''}`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof DockerApiError && error.timedOut) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Push operation timeout (${params.timeout} seconds). The image might be too large or the connection is slow.`
+            }
+          ]
+        };
+      }
+      
+      const message = error instanceof Error ? error.message : String(error);
+      const hint = /denied|unauthorized|authentication required/i.test(message)
+        ? `\n\nLog in with docker_login (registry: "${registryOf(image)}") or pass username and password.`
+        : '';
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to push image: ${message}${hint}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerPushTool;
\ No newline at end of file
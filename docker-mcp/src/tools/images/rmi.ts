@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { shortId } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  images: z.array(z.string()).min(1).describe('Image names, tags or IDs to remove'),
+  force: z.boolean().optional().default(false).describe('Remove images used by stopped containers, and images with several tags when given by ID'),
+  noPrune: z.boolean().optional().default(false).describe('Keep untagged parent images')
+});
+
+const dockerRmiTool: ToolDefinition = {
+  name: 'rmi',
+  description: 'Remove one or more images, untagging them and deleting layers no other image uses',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { images, force, noPrune } = inputSchema.parse(input);
+    const client = getDockerClient();
+    const lines: string[] = [];
+    let failed = 0;
+    
+    // Like docker rmi, remove what can be removed and report the rest
+    for (const image of images) {
+      try {
+        const result = await client.removeImage(image, { force, noprune: noPrune });
+        for (const item of result) {
+          if (item.Untagged) lines.push(`Untagged: ${item.Untagged}`);
+          if (item.Deleted) lines.push(`Deleted: ${shortId(item.Deleted)}`);
+        }
+      } catch (error) {
+        failed++;
+        lines.push(`Error removing ${image}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    
+    const summary = failed === 0
+      ? `Removed ${images.length} image(s)`
+      : `Removed ${images.length - failed} of ${images.length} image(s)`;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summary}\n\n${lines.join('\n')}`
+        }
+      ]
+    };
+  }
+};
+
+export default dockerRmiTool;
\ No newline at end of file
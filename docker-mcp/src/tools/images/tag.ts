@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient, splitImageReference } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  source: z.string().describe('Existing image name, tag or ID (e.g., "app:dev")'),
+  target: z.string().describe('New reference for the image (e.g., "registry.example.com/team/app:1.2.0")')
+});
+
+const dockerTagTool: ToolDefinition = {
+  name: 'tag',
+  description: 'Create a tag (such as a registry reference) that refers to an existing image',
+  category: 'docker',
+  subcategory: 'images',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { source, target } = inputSchema.parse(input);
+    
+    if (target.includes('@')) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'The target must be a name with an optional tag, not a digest'
+          }
+        ]
+      };
+    }
+    
+    try {
+      const { name, tag } = splitImageReference(target);
+      await getDockerClient().tagImage(source, name, tag || 'latest');
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Tagged ${source} as ${name}:${tag || 'latest'}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker tag: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerTagTool;
\ No newline at end of file
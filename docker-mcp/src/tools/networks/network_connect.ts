@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  network: z.string().describe('Network name or ID'),
+  container: z.string().describe('Container name or ID'),
+  aliases: z.array(z.string()).optional().describe('Network-scoped aliases for the container'),
+  ip: z.string().optional().describe('IPv4 address to assign (the network needs a user-defined subnet)'),
+  ip6: z.string().optional().describe('IPv6 address to assign')
+});
+
+const dockerNetworkConnectTool: ToolDefinition = {
+  name: 'network_connect',
+  description: 'Connect a container to a Docker network',
+  category: 'docker',
+  subcategory: 'networks',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    try {
+      await getDockerClient().connectNetwork(params.network, params.container, {
+        Aliases: params.aliases,
+        IPAMConfig: params.ip || params.ip6 ? { IPv4Address: params.ip, IPv6Address: params.ip6 } : undefined
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Connected ${params.container} to network ${params.network}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker network connect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerNetworkConnectTool;
\ No newline at end of file
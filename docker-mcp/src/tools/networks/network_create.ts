@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  name: z.string().describe('Network name'),
+  driver: z.string().optional().default('bridge').describe('Network driver (bridge, overlay, macvlan, ...)'),
+  subnet: z.string().optional().describe('Subnet in CIDR format (e.g., "172.28.0.0/16")'),
+  gateway: z.string().optional().describe('Gateway for the subnet'),
+  ipRange: z.string().optional().describe('Allocate container IPs from a sub-range'),
+  internal: z.boolean().optional().default(false).describe('Restrict external access to the network'),
+  attachable: z.boolean().optional().default(false).describe('Allow standalone containers to attach (overlay networks)'),
+  ipv6: z.boolean().optional().default(false).describe('Enable IPv6 networking'),
+  options: z.record(z.string()).optional().describe('Driver specific options'),
+  labels: z.record(z.string()).optional().describe('Labels to set on the network')
+});
+
+const dockerNetworkCreateTool: ToolDefinition = {
+  name: 'network_create',
+  description: 'Create a Docker network',
+  category: 'docker',
+  subcategory: 'networks',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    if ((params.gateway || params.ipRange) && !params.subnet) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'A subnet is required when setting gateway or ipRange'
+          }
+        ]
+      };
+    }
+    
+    try {
+      const result = await getDockerClient().createNetwork({
+        Name: params.name,
+        Driver: params.driver,
+        Internal: params.internal,
+        Attachable: params.attachable,
+        EnableIPv6: params.ipv6,
+        IPAM: params.subnet ? { Config: [{ Subnet: params.subnet, Gateway: params.gateway, IPRange: params.ipRange }] } : undefined,
+        Options: params.options,
+        Labels: params.labels
+      });
+      
+      let resultText = `Network created: ${params.name} (${result.Id.substring(0, 12)})`;
+      if (result.Warning) {
+        resultText += `\nWarning: ${result.Warning}`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker network create: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerNetworkCreateTool;
\ No newline at end of file
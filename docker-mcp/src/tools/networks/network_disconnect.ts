@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  network: z.string().describe('Network name or ID'),
+  container: z.string().describe('Container name or ID'),
+  force: z.boolean().optional().default(false).describe('Force the container to disconnect')
+});
+
+const dockerNetworkDisconnectTool: ToolDefinition = {
+  name: 'network_disconnect',
+  description: 'Disconnect a container from a Docker network',
+  category: 'docker',
+  subcategory: 'networks',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { network, container, force } = inputSchema.parse(input);
+    
+    try {
+      await getDockerClient().disconnectNetwork(network, container, force);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Disconnected ${container} from network ${network}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker network disconnect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerNetworkDisconnectTool;
\ No newline at end of file
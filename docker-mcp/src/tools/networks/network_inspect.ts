@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  network: z.string().describe('Network name or ID')
+});
+
+const dockerNetworkInspectTool: ToolDefinition = {
+  name: 'network_inspect',
+  description: 'Show details of a Docker network, including its subnets and connected containers',
+  category: 'docker',
+  subcategory: 'networks',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { network } = inputSchema.parse(input);
+    
+    try {
+      const details = await getDockerClient().inspectNetwork(network);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(details, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker network inspect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerNetworkInspectTool;
\ No newline at end of file
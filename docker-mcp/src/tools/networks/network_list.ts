@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { parseFilters } from '../../utils/parsers.js';
+import { formatTable, shortId } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  filter: z.string().optional().describe('Filter output based on conditions (e.g., "driver=bridge", "label=env=prod", comma-separated for several)'),
+  format: z.enum(['table', 'json']).optional().default('table').describe('Output format')
+});
+
+const dockerNetworkListTool: ToolDefinition = {
+  name: 'network_list',
+  description: 'List Docker networks',
+  category: 'docker',
+  subcategory: 'networks',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { filter, format } = inputSchema.parse(input);
+    
+    try {
+      const networks = await getDockerClient().listNetworks({ filters: parseFilters(filter) });
+      
+      if (networks.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No networks found'
+            }
+          ]
+        };
+      }
+      
+      const text = format === 'json'
+        ? JSON.stringify(networks, null, 2)
+        : formatTable(
+          ['NETWORK ID', 'NAME', 'DRIVER', 'SCOPE', 'SUBNET'],
+          networks.map(network => [
+            shortId(network.Id),
+            network.Name,
+            network.Driver,
+            network.Scope,
+            (network.IPAM?.Config || []).map(config => config.Subnet).filter(Boolean).join(', ')
+          ])
+        );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker network ls: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerNetworkListTool;
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { DockerSystemDf, ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { formatBytes, formatTable, shortId } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  verbose: z.boolean().optional().default(false).describe('Show usage per image, container, volume and build cache record'),
+  format: z.enum(['table', 'json']).optional().default('table').describe('Output format')
+});
+
+interface UsageSummary {
+  type: string;
+  total: number;
+  active: number;
+  size: number;
+  reclaimable: number;
+}
+
+/**
+ * Totals per resource type, computed the way `docker system df` does
+ */
+function summarize(df: DockerSystemDf): UsageSummary[] {
+  const images = df.Images || [];
+  const containers = df.Containers || [];
+  const volumes = (df.Volumes || []).filter(volume => volume.UsageData && volume.UsageData.Size >= 0);
+  const buildCache = (df.BuildCache || []).filter(record => !record.Shared);
+  
+  // Layers shared with other images stay on disk while any image using them does
+  const used = images
+    .filter(image => image.Containers > 0 && image.SharedSize >= 0)
+    .reduce((sum, image) => sum + image.Size - image.SharedSize, 0);
+  
+  return [
+    {
+      type: 'Images',
+      total: images.length,
+      active: images.filter(image => image.Containers > 0).length,
+      size: df.LayersSize,
+      reclaimable: Math.max(0, df.LayersSize - used)
+    },
+    {
+      type: 'Containers',
+      total: containers.length,
+      active: containers.filter(container => container.State === 'running').length,
+      size: containers.reduce((sum, container) => sum + (container.SizeRw || 0), 0),
+      reclaimable: containers.filter(container => container.State !== 'running').reduce((sum, container) => sum + (container.SizeRw || 0), 0)
+    },
+    {
+      type: 'Local Volumes',
+      total: (df.Volumes || []).length,
+      active: (df.Volumes || []).filter(volume => (volume.UsageData?.RefCount || 0) > 0).length,
+      size: volumes.reduce((sum, volume) => sum + volume.UsageData!.Size, 0),
+      reclaimable: volumes.filter(volume => volume.UsageData!.RefCount === 0).reduce((sum, volume) => sum + volume.UsageData!.Size, 0)
+    },
+    {
+      type: 'Build Cache',
+      total: (df.BuildCache || []).length,
+      active: (df.BuildCache || []).filter(record => record.InUse).length,
+      size: buildCache.reduce((sum, record) => sum + record.Size, 0),
+      reclaimable: buildCache.filter(record => !record.InUse).reduce((sum, record) => sum + record.Size, 0)
+    }
+  ];
+}
+
+const dockerSystemDfTool: ToolDefinition = {
+  name: 'system_df',
+  description: 'Show Docker disk usage by images, containers, volumes and build cache, and how much could be reclaimed',
+  category: 'docker',
+  subcategory: 'system',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { verbose, format } = inputSchema.parse(input);
+    
+    try {
+      const df = await getDockerClient().systemDf();
+      const summary = summarize(df);
+      
+      if (format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(verbose ? { summary, details: df } : summary, null, 2)
+            }
+          ]
+        };
+      }
+      
+      const percent = (part: number, whole: number) => (whole > 0 ? ` (${Math.round((part / whole) * 100)}%)` : '');
+      let resultText = formatTable(
+        ['TYPE', 'TOTAL', 'ACTIVE', 'SIZE', 'RECLAIMABLE'],
+        summary.map(row => [row.type, String(row.total), String(row.active), formatBytes(row.size), formatBytes(row.reclaimable) + percent(row.reclaimable, row.size)])
+      );
+      
+      if (verbose) {
+        resultText += '\n\nImages space usage:\n\n' + formatTable(
+          ['REPOSITORY:TAG', 'IMAGE ID', 'SIZE', 'SHARED SIZE', 'UNIQUE SIZE', 'CONTAINERS'],
+          (df.Images || []).map(image => [
+            image.RepoTags?.join(', ') || '<none>:<none>',
+            shortId(image.Id),
+            formatBytes(image.Size),
+            image.SharedSize >= 0 ? formatBytes(image.SharedSize) : 'N/A',
+            image.SharedSize >= 0 ? formatBytes(image.Size - image.SharedSize) : 'N/A',
+            String(image.Containers)
+          ])
+        );
+        resultText += '\n\nContainers space usage:\n\n' + formatTable(
+          ['CONTAINER ID', 'IMAGE', 'STATUS', 'SIZE', 'NAMES'],
+          (df.Containers || []).map(container => [
+            shortId(container.Id),
+            container.Image,
+            container.Status,
+            formatBytes(container.SizeRw || 0),
+            container.Names.map(name => name.replace(/^\//, '')).join(', ')
+          ])
+        );
+        resultText += '\n\nLocal Volumes space usage:\n\n' + formatTable(
+          ['VOLUME NAME', 'LINKS', 'SIZE'],
+          (df.Volumes || []).map(volume => [
+            volume.Name,
+            String(volume.UsageData?.RefCount ?? 'N/A'),
+            volume.UsageData && volume.UsageData.Size >= 0 ? formatBytes(volume.UsageData.Size) : 'N/A'
+          ])
+        );
+        resultText += '\n\nBuild cache usage:\n\n' + formatTable(
+          ['CACHE ID', 'CACHE TYPE', 'SIZE', 'SHARED', 'IN USE', 'DESCRIPTION'],
+          (df.BuildCache || []).map(record => [
+            record.ID.substring(0, 12),
+            record.Type,
+            formatBytes(record.Size),
+            record.Shared ? 'true' : 'false',
+            record.InUse ? 'true' : 'false',
+            record.Description || ''
+          ])
+        );
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker system df: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerSystemDfTool;
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { DockerPruneCandidate, ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { executePrune, planPrune, PROTECTED_LABELS_ENV } from '../../utils/prune.js';
+import { formatBytes } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  types: z.array(z.enum(['containers', 'images', 'volumes', 'networks', 'buildCache'])).min(1).optional()
+    .default(['containers', 'images', 'networks', 'buildCache'])
+    .describe('Resource types to prune; volumes are only pruned when listed explicitly'),
+  allImages: z.boolean().optional().default(false).describe('Remove all unused images and build cache, not just dangling ones'),
+  until: z.string().optional().describe('Only prune resources created before this timestamp or duration ago (e.g., "24h", "2024-01-01")'),
+  protectLabels: z.array(z.string()).optional().describe(`Labels ("key" or "key=value") protecting resources from pruning, in addition to ${PROTECTED_LABELS_ENV}`),
+  dryRun: z.boolean().optional().default(true).describe('Only preview what would be removed and reclaimed')
+});
+
+const TYPE_TITLES: Record<DockerPruneCandidate['type'], string> = {
+  containers: 'Containers',
+  images: 'Images',
+  volumes: 'Volumes',
+  networks: 'Networks',
+  buildCache: 'Build cache'
+};
+
+function describe(item: DockerPruneCandidate): string {
+  return `${item.name}${item.size ? ` (${formatBytes(item.size)})` : ''}`;
+}
+
+const dockerSystemPruneTool: ToolDefinition = {
+  name: 'system_prune',
+  description: 'Remove stopped containers, unused images, networks, volumes and build cache, skipping resources with protected labels. Previews the removal by default (dryRun)',
+  category: 'docker',
+  subcategory: 'system',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    try {
+      const plan = await planPrune(client, params);
+      
+      if (params.dryRun) {
+        const estimate = plan.candidates.reduce((sum, item) => sum + (item.size || 0), 0);
+        let resultText = plan.candidates.length === 0
+          ? 'Nothing to prune'
+          : `Would remove ${plan.candidates.length} item(s), reclaiming up to ${formatBytes(estimate)}`;
+        
+        for (const type of params.types) {
+          const items = plan.candidates.filter(item => item.type === type);
+          if (items.length > 0) {
+            resultText += `\n\n${TYPE_TITLES[type]}:\n` + items.map(item => `  ${describe(item)}`).join('\n');
+          }
+        }
+        
+        if (plan.protected.length > 0) {
+          resultText += '\n\nProtected (kept):\n' + plan.protected.map(item => `  ${TYPE_TITLES[item.type]}: ${item.name} [${item.label}]`).join('\n');
+        }
+        
+        resultText += '\n\nDry run: nothing was removed. Run again with dryRun=false to prune.';
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: resultText
+            }
+          ]
+        };
+      }
+      
+      const result = await executePrune(client, plan, params.allImages);
+      
+      let resultText = `Removed ${result.removed.length} item(s), reclaimed ${formatBytes(result.reclaimed)}`;
+      if (result.skipped.length > 0) {
+        resultText += `, ${result.skipped.length} skipped`;
+      }
+      if (result.failed.length > 0) {
+        resultText += `, ${result.failed.length} failed`;
+      }
+      
+      for (const type of params.types) {
+        const items = result.removed.filter(item => item.type === type);
+        if (items.length > 0) {
+          resultText += `\n\n${TYPE_TITLES[type]}:\n` + items.map(item => `  ✓ ${describe(item)}`).join('\n');
+        }
+      }
+      
+      if (result.skipped.length > 0) {
+        resultText += '\n\nSkipped (in use):\n' + result.skipped.map(item => `  - ${TYPE_TITLES[item.type]}: ${item.name}: ${item.reason}`).join('\n');
+      }
+      
+      if (result.failed.length > 0) {
+        resultText += '\n\nFailed:\n' + result.failed.map(item => `  ✗ ${TYPE_TITLES[item.type]}: ${item.name}: ${item.error}`).join('\n');
+      }
+      
+      if (plan.protected.length > 0) {
+        resultText += `\n\nKept ${plan.protected.length} protected item(s)`;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: resultText
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker system prune: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerSystemPruneTool;
\ No newline at end of file
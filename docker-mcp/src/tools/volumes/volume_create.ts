@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  name: z.string().optional().describe('Volume name (default: generated)'),
+  driver: z.string().optional().default('local').describe('Volume driver'),
+  driverOpts: z.record(z.string()).optional().describe('Driver specific options (e.g., {"type": "tmpfs", "device": "tmpfs"})'),
+  labels: z.record(z.string()).optional().describe('Labels to set on the volume')
+});
+
+const dockerVolumeCreateTool: ToolDefinition = {
+  name: 'volume_create',
+  description: 'Create a Docker volume',
+  category: 'docker',
+  subcategory: 'volumes',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    try {
+      const volume = await getDockerClient().createVolume({
+        Name: params.name,
+        Driver: params.driver,
+        DriverOpts: params.driverOpts,
+        Labels: params.labels
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Volume created: ${volume.Name}\n\n${JSON.stringify(volume, null, 2)}`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker volume create: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerVolumeCreateTool;
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  volume: z.string().describe('Volume name')
+});
+
+const dockerVolumeInspectTool: ToolDefinition = {
+  name: 'volume_inspect',
+  description: 'Show details of a Docker volume (driver, mountpoint, labels, options) and the containers using it',
+  category: 'docker',
+  subcategory: 'volumes',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { volume } = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    try {
+      const details = await client.inspectVolume(volume);
+      const containers = await client.listContainers({ all: true, filters: { volume: [volume] } });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...details,
+              UsedBy: containers.map(container => ({
+                Id: container.Id,
+                Name: container.Names[0]?.replace(/^\//, ''),
+                State: container.State,
+                Destination: container.Mounts.find(mount => mount.Name === volume)?.Destination
+              }))
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker volume inspect: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerVolumeInspectTool;
\ No newline at end of file
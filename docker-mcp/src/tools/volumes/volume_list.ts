@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+import { parseFilters } from '../../utils/parsers.js';
+import { formatTable } from '../../utils/format.js';
+
+const inputSchema = z.object({
+  filter: z.string().optional().describe('Filter output based on conditions (e.g., "dangling=true", "label=env=prod", comma-separated for several)'),
+  format: z.enum(['table', 'json']).optional().default('table').describe('Output format')
+});
+
+const dockerVolumeListTool: ToolDefinition = {
+  name: 'volume_list',
+  description: 'List Docker volumes and the containers using them',
+  category: 'docker',
+  subcategory: 'volumes',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { filter, format } = inputSchema.parse(input);
+    const client = getDockerClient();
+    
+    try {
+      const volumes = await client.listVolumes({ filters: parseFilters(filter) });
+      
+      if (volumes.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No volumes found'
+            }
+          ]
+        };
+      }
+      
+      // Map volume names to the containers mounting them
+      const usedBy = new Map<string, string[]>();
+      for (const container of await client.listContainers({ all: true })) {
+        for (const mount of container.Mounts) {
+          if (mount.Type !== 'volume' || !mount.Name) continue;
+          usedBy.set(mount.Name, [...(usedBy.get(mount.Name) || []), container.Names[0]?.replace(/^\//, '') || container.Id.substring(0, 12)]);
+        }
+      }
+      
+      const text = format === 'json'
+        ? JSON.stringify(volumes.map(volume => ({ ...volume, UsedBy: usedBy.get(volume.Name) || [] })), null, 2)
+        : formatTable(['DRIVER', 'VOLUME NAME', 'USED BY'], volumes.map(volume => [volume.Driver, volume.Name, (usedBy.get(volume.Name) || []).join(', ') || '-']));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing docker volume ls: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+};
+
+export default dockerVolumeListTool;
\ No newline at end of file
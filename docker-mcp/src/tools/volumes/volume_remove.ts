@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { getDockerClient } from '../../utils/docker.js';
+
+const inputSchema = z.object({
+  volumes: z.array(z.string()).min(1).describe('Volume names to remove'),
+  force: z.boolean().optional().default(false).describe('Force removal (ignored by the local driver for volumes in use)')
+});
+
+const dockerVolumeRemoveTool: ToolDefinition = {
+  name: 'volume_remove',
+  description: 'Remove one or more Docker volumes',
+  category: 'docker',
+  subcategory: 'volumes',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const { volumes, force } = inputSchema.parse(input);
+    
+    const results: { volume: string; status: string; error?: string }[] = [];
+    
+    for (const volume of volumes) {
+      try {
+        await getDockerClient().removeVolume(volume, { force });
+        
+        results.push({
+          volume,
+          status: 'removed',
+          error: undefined
+        });
+      } catch (error) {
+        results.push({
+          volume,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    // Format results
+    const successCount = results.filter(r => r.status === 'removed').length;
+    const failureCount = results.filter(r => r.status === 'failed').length;
+    
+    let resultText = `Removed ${successCount} volume(s)`;
+    if (failureCount > 0) {
+      resultText += `, ${failureCount} failed`;
+    }
+    resultText += '\n\n';
+    
+    results.forEach(result => {
+      if (result.status === 'removed') {
+        resultText += `✓ ${result.volume}: removed\n`;
+      } else {
+        resultText += `✗ ${result.volume}: ${result.error}\n`;
+      }
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: resultText.trim()
+        }
+      ]
+    };
+  }
+};
+
+export default dockerVolumeRemoveTool;
\ No newline at end of file
@@ -1,3 +1,10 @@
+export interface ToolContext {
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Report progress to the client; a no-op unless the call asked for progress notifications */
+  progress: (message: string) => void;
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -5,11 +12,325 @@ export interface ToolDefinition {
   subcategory?: string;
   version: string;
   inputSchema: any;
-  handler: (input: any) => Promise<{
+  handler: (input: any, context?: ToolContext) => Promise<{
     content: Array<{
       type: 'text';
       text: string;
     }>;
     [key: string]: any;
   }>;
+}
+
+export interface DockerPort {
+  IP?: string;
+  PrivatePort: number;
+  PublicPort?: number;
+  Type: 'tcp' | 'udp' | 'sctp';
+}
+
+export interface DockerMountPoint {
+  Type: string;
+  Name?: string;
+  Source: string;
+  Destination: string;
+  Mode: string;
+  RW: boolean;
+}
+
+export interface DockerContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  ImageID: string;
+  Command: string;
+  Created: number;
+  Ports: DockerPort[];
+  SizeRw?: number;
+  SizeRootFs?: number;
+  Labels: Record<string, string>;
+  State: string;
+  Status: string;
+  Mounts: DockerMountPoint[];
+}
+
+export interface DockerContainerState {
+  Status: 'created' | 'running' | 'paused' | 'restarting' | 'removing' | 'exited' | 'dead';
+  Running: boolean;
+  Paused: boolean;
+  Restarting: boolean;
+  OOMKilled: boolean;
+  Dead: boolean;
+  Pid: number;
+  ExitCode: number;
+  Error: string;
+  StartedAt: string;
+  FinishedAt: string;
+  Health?: {
+    Status: 'none' | 'starting' | 'healthy' | 'unhealthy';
+    FailingStreak: number;
+    Log: Array<{ Start: string; End: string; ExitCode: number; Output: string }>;
+  };
+}
+
+export interface DockerContainerConfig {
+  Hostname?: string;
+  User?: string;
+  Env?: string[];
+  Cmd?: string[];
+  Entrypoint?: string[] | null;
+  Image?: string;
+  WorkingDir?: string;
+  Labels?: Record<string, string>;
+  ExposedPorts?: Record<string, object>;
+  Volumes?: Record<string, object>;
+  Tty?: boolean;
+  OpenStdin?: boolean;
+  AttachStdin?: boolean;
+  AttachStdout?: boolean;
+  AttachStderr?: boolean;
+  Healthcheck?: {
+    Test?: string[];
+    Interval?: number;
+    Timeout?: number;
+    Retries?: number;
+    StartPeriod?: number;
+  };
+}
+
+export interface DockerHostConfig {
+  Binds?: string[];
+  NetworkMode?: string;
+  PortBindings?: Record<string, Array<{ HostIp?: string; HostPort?: string }>>;
+  RestartPolicy?: { Name: string; MaximumRetryCount?: number };
+  AutoRemove?: boolean;
+  Privileged?: boolean;
+  CapAdd?: string[];
+  CapDrop?: string[];
+  Memory?: number;
+  NanoCpus?: number;
+}
+
+export interface DockerContainerCreateConfig extends DockerContainerConfig {
+  HostConfig?: DockerHostConfig;
+}
+
+export interface DockerContainerInspect {
+  Id: string;
+  Name: string;
+  Created: string;
+  Path: string;
+  Args: string[];
+  State: DockerContainerState;
+  Image: string;
+  RestartCount: number;
+  Config: DockerContainerConfig;
+  HostConfig: DockerHostConfig;
+  Mounts: DockerMountPoint[];
+  NetworkSettings: {
+    Ports: Record<string, Array<{ HostIp: string; HostPort: string }> | null>;
+    Networks: Record<string, {
+      NetworkID: string;
+      IPAddress: string;
+      Gateway: string;
+      MacAddress: string;
+      Aliases: string[] | null;
+    }>;
+  };
+}
+
+export interface DockerContainerStats {
+  read: string;
+  name: string;
+  id: string;
+  pids_stats?: { current?: number; limit?: number };
+  cpu_stats: {
+    cpu_usage: { total_usage: number; percpu_usage?: number[] };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  precpu_stats: {
+    cpu_usage: { total_usage: number; percpu_usage?: number[] };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  memory_stats: {
+    usage?: number;
+    limit?: number;
+    stats?: Record<string, number>;
+  };
+  networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+  blkio_stats?: {
+    io_service_bytes_recursive: Array<{ major: number; minor: number; op: string; value: number }> | null;
+  };
+}
+
+export interface DockerStatsSample {
+  id: string;
+  name: string;
+  cpuPercent: number;
+  memory: { usage: number; limit: number; percent: number };
+  network: { rxBytes: number; txBytes: number };
+  blockIO: { readBytes: number; writeBytes: number };
+  pids?: number;
+}
+
+export interface DockerTopResult {
+  Titles: string[];
+  Processes: string[][];
+}
+
+export interface DockerImageSummary {
+  Id: string;
+  ParentId: string;
+  RepoTags: string[] | null;
+  RepoDigests: string[] | null;
+  Created: number;
+  Size: number;
+  Labels: Record<string, string> | null;
+  Containers: number;
+}
+
+export interface DockerImageInspect {
+  Id: string;
+  RepoTags: string[] | null;
+  RepoDigests: string[] | null;
+  Created: string;
+  Author?: string;
+  Architecture: string;
+  Variant?: string;
+  Os: string;
+  Size: number;
+  Config: {
+    User?: string;
+    Env: string[] | null;
+    Entrypoint: string[] | null;
+    Cmd: string[] | null;
+    WorkingDir?: string;
+    ExposedPorts?: Record<string, object> | null;
+    Volumes?: Record<string, object> | null;
+    Labels: Record<string, string> | null;
+    StopSignal?: string;
+    Healthcheck?: { Test?: string[]; Interval?: number; Timeout?: number; Retries?: number };
+  };
+  RootFS: { Type: string; Layers?: string[] };
+}
+
+export interface DockerImageHistoryItem {
+  /** Image ID of the layer, or "<missing>" for layers built elsewhere */
+  Id: string;
+  Created: number;
+  CreatedBy: string;
+  Tags: string[] | null;
+  Size: number;
+  Comment: string;
+}
+
+/**
+ * Registry credentials as sent in the X-Registry-Auth header and to /auth
+ */
+export interface DockerAuthConfig {
+  username?: string;
+  password?: string;
+  serveraddress?: string;
+  identitytoken?: string;
+}
+
+export interface DockerPathStat {
+  name: string;
+  size: number;
+  /** Go os.FileMode bits: the permission bits plus type flags (directory is 1 << 31, symlink 1 << 27) */
+  mode: number;
+  mtime: string;
+  linkTarget: string;
+}
+
+export interface DockerFilesystemChange {
+  Path: string;
+  /** 0: modified, 1: added, 2: deleted */
+  Kind: 0 | 1 | 2;
+}
+
+export interface DockerExecResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface DockerLogEntry {
+  stream: 'stdout' | 'stderr';
+  timestamp?: string;
+  text: string;
+}
+
+export interface DockerProgressEvent {
+  id?: string;
+  status?: string;
+  progress?: string;
+  progressDetail?: { current?: number; total?: number };
+  stream?: string;
+  error?: string;
+  errorDetail?: { message: string };
+  /** Result details, such as the pushed digest */
+  aux?: { Tag?: string; Digest?: string; Size?: number };
+}
+
+export interface DockerVolume {
+  Name: string;
+  Driver: string;
+  Mountpoint: string;
+  CreatedAt?: string;
+  Labels: Record<string, string> | null;
+  Scope: 'local' | 'global';
+  Options: Record<string, string> | null;
+  UsageData?: { Size: number; RefCount: number } | null;
+}
+
+export interface DockerNetwork {
+  Name: string;
+  Id: string;
+  Created: string;
+  Scope: string;
+  Driver: string;
+  EnableIPv6: boolean;
+  Internal: boolean;
+  Attachable: boolean;
+  IPAM: {
+    Driver: string;
+    Config: Array<{ Subnet?: string; Gateway?: string; IPRange?: string }> | null;
+  };
+  Containers?: Record<string, { Name: string; EndpointID: string; MacAddress: string; IPv4Address: string; IPv6Address: string }>;
+  Options: Record<string, string> | null;
+  Labels: Record<string, string> | null;
+}
+
+export interface DockerBuildCacheRecord {
+  ID: string;
+  Type: string;
+  Description: string;
+  InUse: boolean;
+  Shared: boolean;
+  Size: number;
+  CreatedAt: string;
+  LastUsedAt: string | null;
+  UsageCount: number;
+}
+
+export interface DockerSystemDf {
+  LayersSize: number;
+  Images: Array<DockerImageSummary & { SharedSize: number }>;
+  Containers: DockerContainerSummary[];
+  Volumes: DockerVolume[];
+  BuildCache: DockerBuildCacheRecord[] | null;
+}
+
+export type DockerPruneType = 'containers' | 'images' | 'volumes' | 'networks' | 'buildCache';
+
+export interface DockerPruneCandidate {
+  type: DockerPruneType;
+  id: string;
+  name: string;
+  /** Bytes freed by removing it; undefined when unknown */
+  size?: number;
+  /** Repository tags of an image, removed one by one instead of the ID */
+  tags?: string[];
 }
\ No newline at end of file
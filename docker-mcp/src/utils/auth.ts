@@ -0,0 +1,176 @@
+import { spawn } from 'child_process';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DockerAuthConfig } from '../types.js';
+import { splitImageReference } from './docker.js';
+
+export const DOCKER_HUB = 'docker.io';
+/** The key Docker Hub credentials are stored under in config.json */
+const DOCKER_HUB_SERVER = 'https://index.docker.io/v1/';
+const HELPER_TIMEOUT = 30 * 1000;
+
+interface DockerConfigFile {
+  auths?: Record<string, { auth?: string; identitytoken?: string }>;
+  credsStore?: string;
+  credHelpers?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Location of the docker CLI config: $DOCKER_CONFIG/config.json or ~/.docker/config.json
+ */
+export function dockerConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(env.DOCKER_CONFIG || path.join(os.homedir(), '.docker'), 'config.json');
+}
+
+async function readDockerConfig(): Promise<DockerConfigFile> {
+  try {
+    return JSON.parse(await readFile(dockerConfigPath(), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new Error(`Cannot read ${dockerConfigPath()}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Registry host of an image reference ("ghcr.io/org/app:1" → "ghcr.io", "nginx" → "docker.io")
+ */
+export function registryOf(image: string): string {
+  const { name } = splitImageReference(image);
+  const first = name.split('@')[0].split('/')[0];
+  const isHost = name.includes('/') && (first.includes('.') || first.includes(':') || first === 'localhost');
+  return isHost ? first : DOCKER_HUB;
+}
+
+/**
+ * Reduce a registry address ("https://index.docker.io/v1/", "registry.example.com/v2") to its host
+ */
+function normalizeRegistry(address: string): string {
+  const host = address.replace(/^https?:\/\//, '').split('/')[0];
+  return ['index.docker.io', 'registry-1.docker.io', 'registry.hub.docker.com'].includes(host) ? DOCKER_HUB : host;
+}
+
+/**
+ * Address credentials for a registry are sent and stored under
+ */
+export function registryServerAddress(registry: string): string {
+  return normalizeRegistry(registry) === DOCKER_HUB ? DOCKER_HUB_SERVER : normalizeRegistry(registry);
+}
+
+/**
+ * Run a docker-credential-* helper ("get", "store", "erase") with its input on stdin
+ */
+function runCredentialHelper(helper: string, action: string, input: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(`docker-credential-${helper}`, [action], { stdio: 'pipe' });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => child.kill(), HELPER_TIMEOUT);
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Credential helper docker-credential-${helper} failed: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      // Helpers print "credentials not found in native keychain" on stdout for unknown servers
+      if (code === 0) resolve(stdout);
+      else reject(new Error((stdout || stderr).trim() || `docker-credential-${helper} exited with code ${code}`));
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Credentials for a registry from the docker config: a per-registry credential helper,
+ * the default credential store, or the base64 entries under "auths"
+ */
+export async function configuredRegistryAuth(registry: string): Promise<DockerAuthConfig | undefined> {
+  const config = await readDockerConfig();
+  const host = normalizeRegistry(registry);
+  const server = registryServerAddress(registry);
+
+  const helper = Object.entries(config.credHelpers || {}).find(([key]) => normalizeRegistry(key) === host)?.[1] || config.credsStore;
+  if (helper) {
+    try {
+      const { Username, Secret } = JSON.parse(await runCredentialHelper(helper, 'get', server));
+      // Helpers store identity tokens with the username "<token>"
+      return Username === '<token>'
+        ? { identitytoken: Secret, serveraddress: server }
+        : { username: Username, password: Secret, serveraddress: server };
+    } catch {
+      // Fall through to "auths", which the CLI also consults when the helper has nothing
+    }
+  }
+
+  const entry = Object.entries(config.auths || {}).find(([key]) => normalizeRegistry(key) === host)?.[1];
+  if (!entry) return undefined;
+  if (entry.identitytoken) return { identitytoken: entry.identitytoken, serveraddress: server };
+  if (!entry.auth) return undefined;
+
+  const decoded = Buffer.from(entry.auth, 'base64').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  return { username: decoded.substring(0, separator), password: decoded.substring(separator + 1), serveraddress: server };
+}
+
+/**
+ * Credentials for pushing or pulling an image: supplied ones win over the docker config
+ */
+export async function resolveRegistryAuth(image: string, credentials?: { username?: string; password?: string }): Promise<DockerAuthConfig | undefined> {
+  const registry = registryOf(image);
+  if (credentials?.username && credentials.password) {
+    return { username: credentials.username, password: credentials.password, serveraddress: registryServerAddress(registry) };
+  }
+  return configuredRegistryAuth(registry);
+}
+
+/**
+ * Encode credentials for the X-Registry-Auth header (URL-safe base64 JSON)
+ */
+export function encodeRegistryAuth(auth: DockerAuthConfig | undefined): string | undefined {
+  if (!auth) return undefined;
+  return Buffer.from(JSON.stringify(auth)).toString('base64').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Store credentials like docker login: in the registry's credential helper or the default
+ * store when configured, otherwise base64-encoded in config.json. Returns where they went.
+ */
+export async function saveRegistryAuth(registry: string, auth: DockerAuthConfig): Promise<string> {
+  const config = await readDockerConfig();
+  const host = normalizeRegistry(registry);
+  const server = registryServerAddress(registry);
+
+  const helper = Object.entries(config.credHelpers || {}).find(([key]) => normalizeRegistry(key) === host)?.[1] || config.credsStore;
+  if (helper) {
+    await runCredentialHelper(helper, 'store', JSON.stringify({
+      ServerURL: server,
+      Username: auth.identitytoken ? '<token>' : auth.username,
+      Secret: auth.identitytoken || auth.password
+    }));
+    return `docker-credential-${helper}`;
+  }
+
+  // Drop other spellings of the same registry so the new entry is the one used
+  const auths = Object.fromEntries(Object.entries(config.auths || {}).filter(([key]) => normalizeRegistry(key) !== host));
+  auths[server] = auth.identitytoken
+    ? { identitytoken: auth.identitytoken }
+    : { auth: Buffer.from(`${auth.username}:${auth.password}`).toString('base64') };
+
+  const file = dockerConfigPath();
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify({ ...config, auths }, null, '\t') + '\n', { mode: 0o600 });
+  return file;
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { spawn } from 'child_process';
+import { stat } from 'fs/promises';
+import path from 'path';
+
+export const COMPOSE_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+export const COMPOSE_BUILD_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Schema for a service name passed to docker compose. Values starting with "-" are
+ * rejected so compose cannot parse them as options (e.g. "--privileged" for exec).
+ */
+export function composeServiceSchema(): z.ZodString {
+  return z.string().regex(/^(?!-)/, 'must not start with "-"');
+}
+
+/**
+ * Options shared by every compose tool: which project and files to use
+ */
+export const composeProjectSchema = {
+  projectPath: z.string().describe('Path to directory containing docker-compose.yml'),
+  file: z.union([z.string(), z.array(z.string())]).optional().describe('Specify alternate compose file(s), relative to projectPath (default: docker-compose.yml)'),
+  profile: z.union([z.string(), z.array(z.string())]).optional().describe('Compose profile(s) to enable'),
+  envFile: z.string().optional().describe('Alternate environment file, relative to projectPath')
+};
+
+export type ComposeProjectOptions = z.infer<z.ZodObject<typeof composeProjectSchema>>;
+
+export interface ComposeResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  /** The client cancelled the call and the process was killed */
+  cancelled?: boolean;
+}
+
+export interface ComposeStreamOptions {
+  signal?: AbortSignal;
+  /** Called with output as it arrives; compose writes progress to stderr */
+  onOutput?: (text: string) => void;
+}
+
+/**
+ * Global compose flags (-f, --profile, --env-file) for a project
+ */
+export function composeProjectArgs(options: ComposeProjectOptions): string[] {
+  const args: string[] = [];
+  const files = options.file === undefined ? [] : Array.isArray(options.file) ? options.file : [options.file];
+  const profiles = options.profile === undefined ? [] : Array.isArray(options.profile) ? options.profile : [options.profile];
+
+  files.forEach(file => args.push('-f', path.resolve(options.projectPath, file)));
+  profiles.forEach(profile => args.push('--profile', profile));
+  if (options.envFile) args.push('--env-file', path.resolve(options.projectPath, options.envFile));
+
+  return args;
+}
+
+function spawnCompose(command: string, args: string[], cwd: string, timeout: number, stream: ComposeStreamOptions): Promise<ComposeResult & { missing?: boolean }> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: 'pipe', cwd, signal: stream.signal });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeout);
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+      stream.onOutput?.(data.toString());
+    });
+
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+      stream.onOutput?.(data.toString());
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      if (error.name === 'AbortError') {
+        resolve({ stdout, stderr, exitCode: -1, timedOut, cancelled: true });
+        return;
+      }
+      resolve({ stdout, stderr: stderr || error.message, exitCode: -1, timedOut, missing: error.code === 'ENOENT' });
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr, exitCode: code ?? -1, timedOut });
+    });
+  });
+}
+
+/**
+ * Run a compose subcommand with the project's global flags, using docker-compose
+ * and falling back to the `docker compose` plugin when it is not installed
+ */
+export async function runCompose(options: ComposeProjectOptions, args: string[], timeout: number = COMPOSE_TIMEOUT, stream: ComposeStreamOptions = {}): Promise<ComposeResult> {
+  const fullArgs = [...composeProjectArgs(options), ...args];
+
+  // spawn reports a missing cwd as ENOENT too, which would look like a missing binary
+  const isDirectory = await stat(options.projectPath).then(stats => stats.isDirectory(), () => false);
+  if (!isDirectory) {
+    return { stdout: '', stderr: `Project directory ${options.projectPath} does not exist or is not a directory`, exitCode: -1, timedOut: false };
+  }
+
+  const result = await spawnCompose('docker-compose', fullArgs, options.projectPath, timeout, stream);
+  if (!result.missing) {
+    return result;
+  }
+
+  const plugin = await spawnCompose('docker', ['compose', ...fullArgs], options.projectPath, timeout, stream);
+  if (plugin.missing) {
+    return { ...plugin, stderr: 'Neither docker-compose nor the docker CLI (compose plugin) is installed' };
+  }
+  return plugin;
+}
+
+/**
+ * Message for a failed compose command; compose reports progress and errors on stderr
+ */
+export function composeError(action: string, result: ComposeResult, timeout: number): string {
+  if (result.timedOut) {
+    return `Compose ${action} timeout (${Math.round(timeout / 1000)} seconds)`;
+  }
+  if (result.cancelled) {
+    return `Compose ${action} cancelled`;
+  }
+  return `Failed to ${action}: ${result.stderr.trim() || result.stdout.trim() || `exit code ${result.exitCode}`}`;
+}
\ No newline at end of file
@@ -0,0 +1,703 @@
+import http from 'http';
+import https from 'https';
+import { existsSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import {
+  DockerContainerCreateConfig,
+  DockerContainerInspect,
+  DockerContainerStats,
+  DockerContainerSummary,
+  DockerExecResult,
+  DockerFilesystemChange,
+  DockerAuthConfig,
+  DockerImageHistoryItem,
+  DockerImageInspect,
+  DockerImageSummary,
+  DockerLogEntry,
+  DockerNetwork,
+  DockerPathStat,
+  DockerProgressEvent,
+  DockerSystemDf,
+  DockerTopResult,
+  DockerVolume
+} from '../types.js';
+
+export const DEFAULT_TIMEOUT = 60 * 1000; // 1 minute
+export const PULL_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_API_VERSION = '1.41'; // Docker 20.10
+
+export interface DockerConnection {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  tls?: {
+    ca?: Buffer;
+    cert?: Buffer;
+    key?: Buffer;
+    rejectUnauthorized: boolean;
+  };
+  /** DOCKER_HOST-style address, used in error messages */
+  address: string;
+}
+
+export interface DockerRequestOptions {
+  query?: Record<string, string | number | boolean | object | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Idle timeout in milliseconds; 0 disables it */
+  timeout?: number;
+  /** Aborts the request, or the response stream once it has started */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error returned by the Docker Engine API (or raised when the daemon cannot be reached)
+ */
+export class DockerApiError extends Error {
+  readonly statusCode?: number;
+  readonly timedOut: boolean;
+
+  constructor(message: string, statusCode?: number, timedOut: boolean = false) {
+    super(message);
+    this.name = 'DockerApiError';
+    this.statusCode = statusCode;
+    this.timedOut = timedOut;
+  }
+}
+
+function abortError(signal: AbortSignal): DockerApiError {
+  const timedOut = signal.reason instanceof Error && signal.reason.name === 'TimeoutError';
+  return new DockerApiError(timedOut ? 'Operation timed out' : 'Operation cancelled', undefined, timedOut);
+}
+
+/**
+ * Resolve how to reach the daemon from DOCKER_HOST, DOCKER_TLS_VERIFY and DOCKER_CERT_PATH,
+ * defaulting to the local socket (or named pipe on Windows)
+ */
+export function resolveDockerConnection(env: NodeJS.ProcessEnv = process.env): DockerConnection {
+  const address = env.DOCKER_HOST || (process.platform === 'win32' ? 'npipe:////./pipe/docker_engine' : 'unix:///var/run/docker.sock');
+
+  if (address.startsWith('unix://')) {
+    return { socketPath: address.substring('unix://'.length), address };
+  }
+
+  if (address.startsWith('npipe://')) {
+    return { socketPath: address.substring('npipe://'.length).replace(/\//g, '\\'), address };
+  }
+
+  const tcp = address.match(/^(?:tcp|https?):\/\/(\[[^\]]+\]|[^:/]+)(?::(\d+))?\/?$/);
+  if (!tcp) {
+    throw new DockerApiError(`Unsupported DOCKER_HOST '${address}' (expected unix://, npipe:// or tcp://)`);
+  }
+
+  const verify = Boolean(env.DOCKER_TLS_VERIFY) && env.DOCKER_TLS_VERIFY !== '0';
+  const useTls = verify || env.DOCKER_TLS === '1' || address.startsWith('https://');
+  const connection: DockerConnection = {
+    host: tcp[1].replace(/^\[|\]$/g, ''),
+    port: tcp[2] ? parseInt(tcp[2], 10) : useTls ? 2376 : 2375,
+    address
+  };
+
+  if (useTls) {
+    const certPath = env.DOCKER_CERT_PATH || path.join(os.homedir(), '.docker');
+    const read = (file: string) => (existsSync(path.join(certPath, file)) ? readFileSync(path.join(certPath, file)) : undefined);
+    connection.tls = { ca: read('ca.pem'), cert: read('cert.pem'), key: read('key.pem'), rejectUnauthorized: verify };
+  }
+
+  return connection;
+}
+
+function buildQuery(query: DockerRequestOptions['query'] = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    params.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+  }
+  const text = params.toString();
+  return text ? `?${text}` : '';
+}
+
+async function readBody(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Split a multiplexed attach/logs stream (8-byte frame headers: stream type, 3 zero bytes,
+ * big-endian payload size) into frames. Returns the frames and any incomplete trailing bytes.
+ */
+export function demultiplex(buffer: Buffer): { frames: Array<{ stream: 'stdout' | 'stderr'; data: Buffer }>; rest: Buffer } {
+  const frames: Array<{ stream: 'stdout' | 'stderr'; data: Buffer }> = [];
+  let offset = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const size = buffer.readUInt32BE(offset + 4);
+    if (offset + 8 + size > buffer.length) break;
+    frames.push({ stream: buffer[offset] === 2 ? 'stderr' : 'stdout', data: buffer.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Split log output into entries, one per line, separating the RFC 3339 timestamp when present
+ */
+export function parseLogLines(stream: 'stdout' | 'stderr', text: string, timestamps: boolean): DockerLogEntry[] {
+  return text.replace(/\n$/, '').split('\n').filter((line, index, lines) => line || index < lines.length - 1).map(line => {
+    const match = timestamps ? line.match(/^(\d{4}-\d{2}-\d{2}T\S+) (.*)$/) : null;
+    return match ? { stream, timestamp: match[1], text: match[2] } : { stream, text: line };
+  });
+}
+
+/**
+ * Split an image reference into the name and tag the API expects (digests stay in the name)
+ */
+export function splitImageReference(image: string): { name: string; tag?: string } {
+  if (image.includes('@')) return { name: image };
+  const lastColon = image.lastIndexOf(':');
+  if (lastColon > image.lastIndexOf('/')) {
+    return { name: image.substring(0, lastColon), tag: image.substring(lastColon + 1) };
+  }
+  return { name: image };
+}
+
+/**
+ * Kind of a path from its stat; the mode uses Go's os.FileMode type bits, which do not fit in 32-bit bitwise operations
+ */
+export function pathStatType(stat: DockerPathStat): 'directory' | 'symlink' | 'file' {
+  if (Math.floor(stat.mode / 2 ** 31) % 2 === 1) return 'directory';
+  if (Math.floor(stat.mode / 2 ** 27) % 2 === 1) return 'symlink';
+  return 'file';
+}
+
+/**
+ * Minimal Docker Engine API client over the local socket or TCP (+TLS).
+ * Responses are returned as the API's own typed objects.
+ */
+export class DockerClient {
+  readonly connection: DockerConnection;
+  readonly apiVersion: string;
+
+  constructor(connection: DockerConnection = resolveDockerConnection(), apiVersion: string = process.env.DOCKER_API_VERSION || DEFAULT_API_VERSION) {
+    this.connection = connection;
+    this.apiVersion = apiVersion;
+  }
+
+  /**
+   * Send a request and return the response stream once the status is known.
+   * Non-2xx responses are read and thrown as DockerApiError.
+   */
+  async stream(method: string, apiPath: string, options: DockerRequestOptions = {}): Promise<http.IncomingMessage> {
+    // Buffers (tar archives) are sent as they are, anything else as JSON
+    const raw = Buffer.isBuffer(options.body);
+    const body = options.body === undefined ? undefined : raw ? options.body as Buffer : Buffer.from(JSON.stringify(options.body));
+    const headers: Record<string, string> = { ...options.headers };
+    if (body) {
+      headers['Content-Type'] ??= raw ? 'application/x-tar' : 'application/json';
+      headers['Content-Length'] = String(body.length);
+    }
+
+    const { socketPath, host, port, tls } = this.connection;
+    const requestOptions: https.RequestOptions = {
+      method,
+      path: `/v${this.apiVersion}${apiPath}${buildQuery(options.query)}`,
+      headers,
+      ...(socketPath ? { socketPath } : { host, port }),
+      ...(tls && { ca: tls.ca, cert: tls.cert, key: tls.key, rejectUnauthorized: tls.rejectUnauthorized })
+    };
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+      const request = (tls ? https : http).request(requestOptions, (response) => {
+        if (signal) {
+          // Streams (pull progress, followed logs) end early when the call is aborted
+          const abort = () => response.destroy(abortError(signal));
+          signal.addEventListener('abort', abort, { once: true });
+          response.once('close', () => signal.removeEventListener('abort', abort));
+        }
+        resolve(response);
+      });
+      const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+      if (timeout > 0) {
+        request.setTimeout(timeout, () => {
+          request.destroy(new DockerApiError(`Docker API request timed out after ${timeout}ms (${method} ${apiPath})`, undefined, true));
+        });
+      }
+      if (signal) {
+        const abort = () => request.destroy(abortError(signal));
+        signal.addEventListener('abort', abort, { once: true });
+        request.once('close', () => signal.removeEventListener('abort', abort));
+      }
+      request.on('error', (error: NodeJS.ErrnoException) => {
+        if (error instanceof DockerApiError) {
+          reject(error);
+        } else if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED' || error.code === 'EACCES') {
+          reject(new DockerApiError(`Cannot connect to the Docker daemon at ${this.connection.address}. Is the docker daemon running? (${error.code})`));
+        } else {
+          reject(new DockerApiError(`Docker API request failed: ${error.message}`));
+        }
+      });
+
+      request.end(body);
+    });
+
+    // 304 means there was nothing to do (container already started or stopped)
+    const statusCode = response.statusCode || 0;
+    if ((statusCode >= 200 && statusCode < 300) || statusCode === 304) {
+      return response;
+    }
+
+    const text = (await readBody(response)).toString('utf-8');
+    let message = text.trim();
+    try {
+      message = JSON.parse(text).message || message;
+    } catch {
+      // Plain-text error body
+    }
+    throw new DockerApiError(message || `HTTP ${statusCode}`, statusCode);
+  }
+
+  /**
+   * Send a request and return the parsed JSON body (or undefined for empty responses)
+   */
+  async request<T = unknown>(method: string, apiPath: string, options: DockerRequestOptions = {}): Promise<T> {
+    const response = await this.stream(method, apiPath, options);
+    const text = (await readBody(response)).toString('utf-8');
+    if (!text.trim()) return undefined as T;
+    return (response.headers['content-type']?.includes('json') ? JSON.parse(text) : text) as T;
+  }
+
+  /**
+   * Read a stream of newline-delimited JSON progress events (pull, push, build).
+   * Errors reported inside the stream are thrown after the stream ends.
+   */
+  async progress(response: http.IncomingMessage, onEvent?: (event: DockerProgressEvent) => void): Promise<DockerProgressEvent[]> {
+    const events: DockerProgressEvent[] = [];
+    let pending = '';
+
+    const handle = (line: string) => {
+      if (!line.trim()) return;
+      const event = JSON.parse(line) as DockerProgressEvent;
+      events.push(event);
+      onEvent?.(event);
+    };
+
+    for await (const chunk of response) {
+      pending += chunk.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      lines.forEach(handle);
+    }
+    handle(pending);
+
+    const failure = events.find(event => event.error);
+    if (failure) {
+      throw new DockerApiError(failure.errorDetail?.message || failure.error!);
+    }
+    return events;
+  }
+
+  async ping(): Promise<boolean> {
+    return (await this.request<string>('GET', '/_ping')) === 'OK';
+  }
+
+  // Containers
+
+  async listContainers(options: { all?: boolean; limit?: number; size?: boolean; filters?: Record<string, string[]> } = {}): Promise<DockerContainerSummary[]> {
+    return this.request('GET', '/containers/json', { query: options });
+  }
+
+  async inspectContainer(container: string, options: { size?: boolean } = {}): Promise<DockerContainerInspect> {
+    return this.request('GET', `/containers/${encodeURIComponent(container)}/json`, { query: options });
+  }
+
+  /**
+   * A single stats sample. Without one-shot the daemon waits for a second reading so CPU usage can be computed.
+   */
+  async containerStats(container: string): Promise<DockerContainerStats> {
+    return this.request('GET', `/containers/${encodeURIComponent(container)}/stats`, { query: { stream: false } });
+  }
+
+  async containerTop(container: string, psArgs?: string): Promise<DockerTopResult> {
+    return this.request('GET', `/containers/${encodeURIComponent(container)}/top`, { query: { ps_args: psArgs } });
+  }
+
+  async createContainer(config: DockerContainerCreateConfig, name?: string): Promise<{ Id: string; Warnings: string[] }> {
+    return this.request('POST', '/containers/create', { query: { name }, body: config });
+  }
+
+  async startContainer(container: string): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(container)}/start`);
+  }
+
+  async stopContainer(container: string, seconds?: number): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(container)}/stop`, {
+      query: { t: seconds },
+      timeout: DEFAULT_TIMEOUT + (seconds ?? 10) * 1000
+    });
+  }
+
+  async removeContainer(container: string, options: { force?: boolean; v?: boolean } = {}): Promise<void> {
+    await this.request('DELETE', `/containers/${encodeURIComponent(container)}`, { query: options });
+  }
+
+  /**
+   * Block until the container stops and return its exit code
+   */
+  async waitContainer(container: string, options: { timeout?: number; signal?: AbortSignal } = {}): Promise<{ StatusCode: number; Error?: { Message: string } }> {
+    return this.request('POST', `/containers/${encodeURIComponent(container)}/wait`, options);
+  }
+
+  /**
+   * Stat a path in a container (HEAD archive); the stat comes base64-encoded in a header
+   */
+  async statPath(container: string, containerPath: string): Promise<DockerPathStat> {
+    const response = await this.stream('HEAD', `/containers/${encodeURIComponent(container)}/archive`, { query: { path: containerPath } });
+    response.resume();
+    return JSON.parse(Buffer.from(String(response.headers['x-docker-container-path-stat'] || ''), 'base64').toString('utf-8'));
+  }
+
+  /**
+   * Read a file or directory from a container as a tar archive, failing once it exceeds maxSize bytes
+   */
+  async getArchive(container: string, containerPath: string, options: { maxSize?: number; signal?: AbortSignal } = {}): Promise<{ stat: DockerPathStat; archive: Buffer }> {
+    const response = await this.stream('GET', `/containers/${encodeURIComponent(container)}/archive`, {
+      query: { path: containerPath },
+      timeout: 5 * 60 * 1000,
+      signal: options.signal
+    });
+    const stat = JSON.parse(Buffer.from(String(response.headers['x-docker-container-path-stat'] || ''), 'base64').toString('utf-8'));
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (options.maxSize !== undefined && size > options.maxSize) {
+        response.destroy();
+        throw new DockerApiError(`Archive of ${containerPath} exceeds the size limit of ${options.maxSize} bytes`);
+      }
+      chunks.push(chunk);
+    }
+    return { stat, archive: Buffer.concat(chunks) };
+  }
+
+  /**
+   * Extract a tar archive (optionally gzip, bzip2 or xz compressed) into a directory of a container
+   */
+  async putArchive(container: string, containerPath: string, archive: Buffer, options: { noOverwriteDirNonDir?: boolean; copyUIDGID?: boolean; signal?: AbortSignal } = {}): Promise<void> {
+    await this.request('PUT', `/containers/${encodeURIComponent(container)}/archive`, {
+      query: { path: containerPath, noOverwriteDirNonDir: options.noOverwriteDirNonDir, copyUIDGID: options.copyUIDGID },
+      body: archive,
+      timeout: 5 * 60 * 1000,
+      signal: options.signal
+    });
+  }
+
+  /**
+   * Filesystem changes of a container compared to its image
+   */
+  async containerChanges(container: string): Promise<DockerFilesystemChange[]> {
+    return (await this.request<DockerFilesystemChange[] | null>('GET', `/containers/${encodeURIComponent(container)}/changes`)) || [];
+  }
+
+  /**
+   * Fetch container logs as entries. TTY containers produce a raw stream, others are multiplexed.
+   */
+  async containerLogs(container: string, options: {
+    tail?: number;
+    since?: number;
+    until?: number;
+    timestamps?: boolean;
+    details?: boolean;
+    follow?: boolean;
+    /** Stop following after this many milliseconds (default: until the container stops) */
+    followFor?: number;
+    /** Stop after this many entries */
+    maxEntries?: number;
+    /** Only keep the last entries in memory, for long followed output */
+    keepLast?: number;
+    onEntry?: (entry: DockerLogEntry) => void;
+    signal?: AbortSignal;
+  } = {}): Promise<{ entries: DockerLogEntry[]; truncated: boolean }> {
+    const { Config } = await this.inspectContainer(container);
+    const response = await this.stream('GET', `/containers/${encodeURIComponent(container)}/logs`, {
+      query: {
+        stdout: true,
+        stderr: true,
+        follow: options.follow,
+        tail: options.tail,
+        since: options.since,
+        until: options.until,
+        timestamps: options.timestamps,
+        details: options.details
+      },
+      // A followed stream stays open; the timer or signal ends it instead
+      timeout: options.follow ? 0 : DEFAULT_TIMEOUT,
+      signal: options.signal
+    });
+
+    const entries: DockerLogEntry[] = [];
+    const pending = { stdout: '', stderr: '' };
+    let buffer = Buffer.alloc(0);
+    let truncated = false;
+
+    const timer = options.follow && options.followFor !== undefined ? setTimeout(() => response.destroy(), options.followFor) : undefined;
+
+    const emit = (stream: 'stdout' | 'stderr', text: string, flush = false) => {
+      pending[stream] += text;
+      const cut = flush ? pending[stream].length : pending[stream].lastIndexOf('\n') + 1;
+      if (cut === 0) return;
+      const lines = parseLogLines(stream, pending[stream].substring(0, cut), Boolean(options.timestamps));
+      lines.forEach(entry => options.onEntry?.(entry));
+      entries.push(...lines);
+      pending[stream] = pending[stream].substring(cut);
+      if (options.keepLast !== undefined && entries.length > options.keepLast * 2) {
+        entries.splice(0, entries.length - options.keepLast);
+        truncated = true;
+      }
+      if (options.maxEntries !== undefined && entries.length >= options.maxEntries) {
+        truncated = true;
+        response.destroy();
+      }
+    };
+
+    try {
+      for await (const chunk of response) {
+        if (Config.Tty) {
+          emit('stdout', chunk.toString());
+        } else {
+          const { frames, rest } = demultiplex(Buffer.concat([buffer, chunk]));
+          frames.forEach(frame => emit(frame.stream, frame.data.toString()));
+          buffer = rest;
+        }
+      }
+    } catch {
+      // Destroyed when following ends or the entry limit is reached
+    } finally {
+      clearTimeout(timer);
+    }
+
+    emit('stdout', '', true);
+    emit('stderr', '', true);
+
+    if (options.keepLast !== undefined && entries.length > options.keepLast) {
+      entries.splice(0, entries.length - options.keepLast);
+      truncated = true;
+    }
+
+    return {
+      entries: options.maxEntries !== undefined ? entries.slice(0, options.maxEntries) : entries,
+      truncated
+    };
+  }
+
+  // Exec
+
+  /**
+   * Run a command in a running container and collect its output and exit code.
+   * With detach the command is started and not waited for.
+   */
+  async exec(container: string, command: string[], options: {
+    user?: string;
+    workdir?: string;
+    env?: Record<string, string>;
+    tty?: boolean;
+    detach?: boolean;
+    timeout?: number;
+    /** Called with output as it arrives */
+    onOutput?: (stream: 'stdout' | 'stderr', text: string) => void;
+    signal?: AbortSignal;
+  } = {}): Promise<DockerExecResult> {
+    const { Id } = await this.request<{ Id: string }>('POST', `/containers/${encodeURIComponent(container)}/exec`, {
+      body: {
+        Cmd: command,
+        AttachStdout: !options.detach,
+        AttachStderr: !options.detach,
+        Tty: Boolean(options.tty),
+        User: options.user,
+        WorkingDir: options.workdir,
+        Env: options.env ? Object.entries(options.env).map(([key, value]) => `${key}=${value}`) : undefined
+      }
+    });
+
+    const response = await this.stream('POST', `/exec/${Id}/start`, {
+      body: { Detach: Boolean(options.detach), Tty: Boolean(options.tty) },
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      signal: options.signal
+    });
+
+    if (options.detach) {
+      await readBody(response);
+      return { exitCode: null, stdout: '', stderr: '' };
+    }
+
+    const output = { stdout: '', stderr: '' };
+    // Multi-byte characters can be split across frames
+    const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    const emit = (stream: 'stdout' | 'stderr', data: Buffer) => {
+      const text = decoders[stream].write(data);
+      output[stream] += text;
+      options.onOutput?.(stream, text);
+    };
+
+    let buffer = Buffer.alloc(0);
+    for await (const chunk of response) {
+      if (options.tty) {
+        emit('stdout', chunk);
+      } else {
+        const { frames, rest } = demultiplex(Buffer.concat([buffer, chunk]));
+        frames.forEach(frame => emit(frame.stream, frame.data));
+        buffer = rest;
+      }
+    }
+    const { stdout, stderr } = output;
+
+    const { ExitCode } = await this.request<{ ExitCode: number | null }>('GET', `/exec/${Id}/json`);
+    return { exitCode: ExitCode, stdout, stderr };
+  }
+
+  // Images
+
+  async listImages(options: { all?: boolean; digests?: boolean; filters?: Record<string, string[]> } = {}): Promise<DockerImageSummary[]> {
+    return this.request('GET', '/images/json', { query: options });
+  }
+
+  /**
+   * Pull an image. Without a tag in the reference every tag is pulled only when allTags is set;
+   * otherwise "latest" is assumed like the CLI does.
+   */
+  async pullImage(image: string, options: { platform?: string; allTags?: boolean; auth?: string; timeout?: number; signal?: AbortSignal } = {}, onEvent?: (event: DockerProgressEvent) => void): Promise<DockerProgressEvent[]> {
+    const { name, tag } = splitImageReference(image);
+    const response = await this.stream('POST', '/images/create', {
+      query: { fromImage: name, tag: tag || (options.allTags || image.includes('@') ? undefined : 'latest'), platform: options.platform },
+      headers: options.auth ? { 'X-Registry-Auth': options.auth } : undefined,
+      timeout: options.timeout ?? PULL_TIMEOUT,
+      signal: options.signal
+    });
+    return this.progress(response, onEvent);
+  }
+
+  async removeImage(image: string, options: { force?: boolean; noprune?: boolean } = {}): Promise<Array<{ Untagged?: string; Deleted?: string }>> {
+    return this.request('DELETE', `/images/${encodeURIComponent(image)}`, { query: options });
+  }
+
+  async inspectImage(image: string): Promise<DockerImageInspect> {
+    return this.request('GET', `/images/${encodeURIComponent(image)}/json`);
+  }
+
+  async imageHistory(image: string): Promise<DockerImageHistoryItem[]> {
+    return this.request('GET', `/images/${encodeURIComponent(image)}/history`);
+  }
+
+  async tagImage(image: string, repo: string, tag?: string): Promise<void> {
+    await this.request('POST', `/images/${encodeURIComponent(image)}/tag`, { query: { repo, tag } });
+  }
+
+  /**
+   * Push an image. The daemon requires an X-Registry-Auth header even for anonymous pushes.
+   */
+  async pushImage(image: string, options: { auth?: string; timeout?: number; signal?: AbortSignal } = {}, onEvent?: (event: DockerProgressEvent) => void): Promise<DockerProgressEvent[]> {
+    const { name, tag } = splitImageReference(image);
+    const response = await this.stream('POST', `/images/${encodeURIComponent(name)}/push`, {
+      query: { tag },
+      headers: { 'X-Registry-Auth': options.auth || Buffer.from('{}').toString('base64') },
+      timeout: options.timeout ?? PULL_TIMEOUT,
+      signal: options.signal
+    });
+    return this.progress(response, onEvent);
+  }
+
+  /**
+   * Check registry credentials; registries using tokens return an identity token to store instead of the password
+   */
+  async checkAuth(auth: DockerAuthConfig): Promise<{ Status: string; IdentityToken?: string }> {
+    return this.request('POST', '/auth', { body: auth });
+  }
+
+  // Volumes
+
+  async listVolumes(options: { filters?: Record<string, string[]> } = {}): Promise<DockerVolume[]> {
+    const { Volumes } = await this.request<{ Volumes: DockerVolume[] | null }>('GET', '/volumes', { query: options });
+    return Volumes || [];
+  }
+
+  async inspectVolume(name: string): Promise<DockerVolume> {
+    return this.request('GET', `/volumes/${encodeURIComponent(name)}`);
+  }
+
+  async createVolume(config: { Name?: string; Driver?: string; DriverOpts?: Record<string, string>; Labels?: Record<string, string> }): Promise<DockerVolume> {
+    return this.request('POST', '/volumes/create', { body: config });
+  }
+
+  async removeVolume(name: string, options: { force?: boolean } = {}): Promise<void> {
+    await this.request('DELETE', `/volumes/${encodeURIComponent(name)}`, { query: options });
+  }
+
+  // Networks
+
+  async listNetworks(options: { filters?: Record<string, string[]> } = {}): Promise<DockerNetwork[]> {
+    return this.request('GET', '/networks', { query: options });
+  }
+
+  async inspectNetwork(network: string): Promise<DockerNetwork> {
+    return this.request('GET', `/networks/${encodeURIComponent(network)}`);
+  }
+
+  async createNetwork(config: {
+    Name: string;
+    Driver?: string;
+    Internal?: boolean;
+    Attachable?: boolean;
+    EnableIPv6?: boolean;
+    IPAM?: { Config: Array<{ Subnet?: string; Gateway?: string; IPRange?: string }> };
+    Options?: Record<string, string>;
+    Labels?: Record<string, string>;
+  }): Promise<{ Id: string; Warning: string }> {
+    return this.request('POST', '/networks/create', { body: { CheckDuplicate: true, ...config } });
+  }
+
+  async removeNetwork(network: string): Promise<void> {
+    await this.request('DELETE', `/networks/${encodeURIComponent(network)}`);
+  }
+
+  async connectNetwork(network: string, container: string, endpoint: { Aliases?: string[]; IPAMConfig?: { IPv4Address?: string; IPv6Address?: string } } = {}): Promise<void> {
+    await this.request('POST', `/networks/${encodeURIComponent(network)}/connect`, { body: { Container: container, EndpointConfig: endpoint } });
+  }
+
+  async disconnectNetwork(network: string, container: string, force: boolean = false): Promise<void> {
+    await this.request('POST', `/networks/${encodeURIComponent(network)}/disconnect`, { body: { Container: container, Force: force } });
+  }
+
+  // System
+
+  async systemDf(): Promise<DockerSystemDf> {
+    return this.request('GET', '/system/df', { timeout: 5 * 60 * 1000 });
+  }
+
+  async pruneBuildCache(options: { all?: boolean; filters?: Record<string, string[]> } = {}): Promise<{ CachesDeleted: string[] | null; SpaceReclaimed: number }> {
+    return this.request('POST', '/build/prune', { query: options, timeout: 5 * 60 * 1000 });
+  }
+}
+
+let client: DockerClient | null = null;
+
+/**
+ * Shared client for the configured daemon
+ */
+export function getDockerClient(): DockerClient {
+  if (!client) {
+    client = new DockerClient();
+  }
+  return client;
+}
\ No newline at end of file
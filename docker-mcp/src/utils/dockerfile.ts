@@ -0,0 +1,299 @@
+import path from 'path';
+import { resolveHostPath } from './parsers.js';
+
+export interface DockerfileInstruction {
+  /** Upper-case keyword (FROM, RUN, ...) */
+  instruction: string;
+  /** Arguments after the flags, with line continuations joined */
+  args: string;
+  /** Leading --name=value flags; repeatable flags such as --mount keep every value */
+  flags: Record<string, string[]>;
+  /** 1-based line the instruction starts on */
+  line: number;
+  /** Bodies of heredocs (RUN <<EOF ... EOF) */
+  heredocs: string[];
+}
+
+export interface DockerfileStage {
+  index: number;
+  name?: string;
+  /** Base image with build args substituted, or the name of an earlier stage */
+  base: string;
+  /** Index of the earlier stage the stage is built FROM */
+  baseStage?: number;
+  platform?: string;
+  line: number;
+  instructions: DockerfileInstruction[];
+  /** Stages and images files are copied or mounted from */
+  copiesFrom: Array<{ stage?: number; image?: string; line: number }>;
+}
+
+export interface DockerfileFinding {
+  line: number;
+  rule: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+const INSTRUCTIONS = new Set([
+  'FROM', 'RUN', 'CMD', 'LABEL', 'MAINTAINER', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT',
+  'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL'
+]);
+
+/**
+ * Dockerfile and context for a build, resolved the way docker_build passes them to
+ * `docker build`: a relative -f path is relative to the working directory, not the context
+ */
+export function resolveBuildFiles(context: string, dockerfile?: string): { contextPath: string; dockerfilePath: string } {
+  const contextPath = resolveHostPath(context);
+  return {
+    contextPath,
+    dockerfilePath: dockerfile ? resolveHostPath(dockerfile) : path.join(contextPath, 'Dockerfile')
+  };
+}
+
+/**
+ * Split a Dockerfile into instructions, honouring parser directives (# escape=`),
+ * comments, line continuations and heredocs
+ */
+export function parseDockerfile(text: string): { directives: Record<string, string>; instructions: DockerfileInstruction[] } {
+  const lines = text.split(/\r?\n/);
+  const directives: Record<string, string> = {};
+  const instructions: DockerfileInstruction[] = [];
+
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const directive = lines[index].match(/^#\s*([a-zA-Z][a-zA-Z0-9_-]*)\s*=\s*(.*?)\s*$/);
+    if (!directive) break;
+    directives[directive[1].toLowerCase()] = directive[2];
+  }
+  const escape = directives.escape === '`' ? '`' : '\\';
+  const isComment = (line: string) => line.trimStart().startsWith('#');
+
+  while (index < lines.length) {
+    const start = index;
+    let logical = lines[index++];
+    if (!logical.trim() || isComment(logical)) continue;
+
+    // Continuation lines may be interleaved with comments, which are dropped
+    while (logical.trimEnd().endsWith(escape) && index < lines.length) {
+      logical = logical.trimEnd().slice(0, -1);
+      while (index < lines.length && isComment(lines[index])) index++;
+      if (index < lines.length) logical += ' ' + lines[index++].trim();
+    }
+
+    const match = logical.trim().match(/^(\S+)\s*(.*)$/s);
+    if (!match) continue;
+    const instruction = match[1].toUpperCase();
+    let rest = match[2];
+
+    const flags: Record<string, string[]> = {};
+    if (instruction !== 'ONBUILD') {
+      let flag: RegExpMatchArray | null;
+      while ((flag = rest.match(/^--([a-zA-Z-]+)(?:=(\S*))?\s*/))) {
+        (flags[flag[1]] ||= []).push(flag[2] ?? 'true');
+        rest = rest.substring(flag[0].length);
+      }
+    }
+
+    // Heredoc bodies follow the instruction line
+    const heredocs: string[] = [];
+    if (['RUN', 'COPY', 'ADD'].includes(instruction)) {
+      for (const heredoc of rest.matchAll(/<<(-?)["']?([A-Za-z_][A-Za-z0-9_]*)["']?/g)) {
+        const body: string[] = [];
+        while (index < lines.length && (heredoc[1] ? lines[index].replace(/^\t+/, '') : lines[index]) !== heredoc[2]) {
+          body.push(lines[index++]);
+        }
+        index++;
+        heredocs.push(body.join('\n'));
+      }
+    }
+
+    instructions.push({ instruction, args: rest.trim(), flags, line: start + 1, heredocs });
+  }
+
+  return { directives, instructions };
+}
+
+/**
+ * Substitute $VAR, ${VAR} and ${VAR:-default} with build args
+ */
+export function expandArgs(value: string, args: Record<string, string | undefined>): string {
+  return value.replace(/\$(?:\{([A-Za-z_][A-Za-z0-9_]*)(?::([-+])([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g, (whole, braced, operator, word, bare) => {
+    const current = args[braced || bare];
+    if (operator === '-') return current ? current : word;
+    if (operator === '+') return current ? word : '';
+    return current ?? whole;
+  });
+}
+
+/**
+ * Group instructions into build stages, resolving FROM with the global ARGs and build args
+ */
+export function buildStages(instructions: DockerfileInstruction[], buildArgs: Record<string, string> = {}): DockerfileStage[] {
+  const stages: DockerfileStage[] = [];
+  const globalArgs: Record<string, string | undefined> = {};
+
+  const findStage = (reference: string) => {
+    if (/^\d+$/.test(reference)) return Number(reference) < stages.length ? Number(reference) : undefined;
+    return stages.find(stage => stage.name === reference.toLowerCase())?.index;
+  };
+
+  for (const instruction of instructions) {
+    if (instruction.instruction === 'ARG' && stages.length === 0) {
+      for (const declaration of instruction.args.split(/\s+/).filter(Boolean)) {
+        const [name, ...value] = declaration.split('=');
+        globalArgs[name] = buildArgs[name] ?? (value.length > 0 ? value.join('=').replace(/^["']|["']$/g, '') : undefined);
+      }
+      continue;
+    }
+
+    if (instruction.instruction === 'FROM') {
+      const [image = '', as, name] = instruction.args.split(/\s+/);
+      const base = expandArgs(image, globalArgs);
+      stages.push({
+        index: stages.length,
+        name: as?.toUpperCase() === 'AS' && name ? name.toLowerCase() : undefined,
+        base,
+        baseStage: findStage(base),
+        platform: instruction.flags.platform?.[0],
+        line: instruction.line,
+        instructions: [],
+        copiesFrom: []
+      });
+      continue;
+    }
+
+    const stage = stages[stages.length - 1];
+    if (!stage) continue;
+    stage.instructions.push(instruction);
+
+    const sources = [
+      ...(instruction.instruction === 'COPY' || instruction.instruction === 'ADD' ? instruction.flags.from || [] : []),
+      ...(instruction.flags.mount || []).map(mount => mount.match(/(?:^|,)from=([^,]+)/)?.[1]).filter((from): from is string => Boolean(from))
+    ];
+    for (const source of sources) {
+      const from = expandArgs(source, globalArgs);
+      const index = findStage(from);
+      stage.copiesFrom.push(index !== undefined ? { stage: index, line: instruction.line } : { image: from, line: instruction.line });
+    }
+  }
+
+  return stages;
+}
+
+/**
+ * Indexes of the stages a build of the target stage (default: the last) needs
+ */
+export function requiredStages(stages: DockerfileStage[], target?: string): Set<number> {
+  const start = target ? stages.find(stage => stage.name === target.toLowerCase())?.index : stages.length - 1;
+  const required = new Set<number>();
+  const queue = start === undefined ? [] : [start];
+
+  while (queue.length > 0) {
+    const index = queue.pop()!;
+    if (required.has(index)) continue;
+    required.add(index);
+    const stage = stages[index];
+    if (stage.baseStage !== undefined) queue.push(stage.baseStage);
+    stage.copiesFrom.forEach(source => source.stage !== undefined && queue.push(source.stage));
+  }
+
+  return required;
+}
+
+const DEPENDENCY_INSTALL = /\b(npm (ci|install|i)\b|yarn( install)?(\s|$|&|;)|pnpm (install|i)\b|pip3? install\b|poetry install|pipenv install|bundle install|composer install|go mod download|cargo (fetch|build)|mvn\b.*dependency:|gradle\b.*dependencies)/;
+const ARCHIVE = /\.(tar|tar\.gz|tgz|tar\.bz2|tbz2?|tar\.xz|txz)$/;
+
+function isWholeContext(source: string): boolean {
+  return ['.', './', '*', './*'].includes(source);
+}
+
+/**
+ * Lint a parsed Dockerfile for common size, cache and security problems
+ */
+export function lintDockerfile(instructions: DockerfileInstruction[], stages: DockerfileStage[], target?: string): DockerfileFinding[] {
+  const findings: DockerfileFinding[] = [];
+  const add = (line: number, rule: string, severity: DockerfileFinding['severity'], message: string) => findings.push({ line, rule, severity, message });
+
+  for (const instruction of instructions) {
+    if (!INSTRUCTIONS.has(instruction.instruction)) {
+      add(instruction.line, 'unknown-instruction', 'error', `Unknown instruction ${instruction.instruction}`);
+    }
+  }
+
+  if (stages.length === 0) {
+    add(1, 'missing-from', 'error', 'No FROM instruction');
+    return findings;
+  }
+
+  if (target && !stages.some(stage => stage.name === target.toLowerCase())) {
+    add(1, 'unknown-target', 'error', `No stage named ${target}`);
+  }
+
+  for (const stage of stages) {
+    if (stage.baseStage === undefined && stage.base !== 'scratch' && !stage.base.includes('$') && !stage.base.includes('@')) {
+      const name = stage.base.substring(stage.base.lastIndexOf('/') + 1);
+      if (!name.includes(':')) {
+        add(stage.line, 'unpinned-base-image', 'warning', `${stage.base} has no tag, so it means whatever :latest is at build time; pin a version (and ideally a digest)`);
+      } else if (name.endsWith(':latest')) {
+        add(stage.line, 'unpinned-base-image', 'warning', `${stage.base} uses :latest, which changes under you; pin a version (and ideally a digest)`);
+      }
+    }
+
+    let wholeContextCopy: DockerfileInstruction | undefined;
+    let reportedOrder = false;
+
+    for (const instruction of stage.instructions) {
+      const script = [instruction.args, ...instruction.heredocs].join('\n');
+
+      if (instruction.instruction === 'RUN') {
+        const aptCache = (instruction.flags.mount || []).some(mount => /type=cache/.test(mount) && /\/var\/(lib|cache)\/apt/.test(mount));
+        if (/\bapt(-get)? (-\S+ )*install\b/.test(script) && !/rm -rf? \/var\/lib\/apt\/lists/.test(script) && !aptCache) {
+          add(instruction.line, 'apt-cleanup', 'warning', 'apt-get install without "rm -rf /var/lib/apt/lists/*" in the same RUN keeps the package index in the layer');
+        }
+        if (/\bapt(-get)? update\b/.test(script) && !/\bapt(-get)? (-\S+ )*install\b/.test(script)) {
+          add(instruction.line, 'apt-update-alone', 'warning', 'apt-get update in its own RUN is cached separately, so later installs can use a stale index; combine it with apt-get install');
+        }
+        if (/\bapk add\b/.test(script) && !/--no-cache/.test(script) && !/rm -rf? \/var\/cache\/apk/.test(script)) {
+          add(instruction.line, 'apk-cleanup', 'info', 'apk add without --no-cache keeps the package index in the layer');
+        }
+        if (wholeContextCopy && !reportedOrder && DEPENDENCY_INSTALL.test(script)) {
+          add(wholeContextCopy.line, 'cache-busting-order', 'warning', `The whole context is copied before dependencies are installed (line ${instruction.line}), so any source change reruns the install; copy the dependency manifests first, install, then copy the rest`);
+          reportedOrder = true;
+        }
+      }
+
+      if (instruction.instruction === 'COPY' || instruction.instruction === 'ADD') {
+        const sources = instruction.heredocs.length > 0 ? [] : instruction.args.replace(/^\[|\]$/g, '').split(/[\s,]+/).map(part => part.replace(/^"|"$/g, '')).filter(Boolean).slice(0, -1);
+        if (!instruction.flags.from && sources.some(isWholeContext)) wholeContextCopy ??= instruction;
+
+        if (instruction.instruction === 'ADD' && sources.length > 0) {
+          const remote = sources.filter(source => /^(https?:\/\/|git@)/.test(source));
+          if (remote.length === 0 && !sources.some(source => ARCHIVE.test(source))) {
+            add(instruction.line, 'add-instead-of-copy', 'warning', 'Use COPY for local files; ADD also extracts archives and fetches URLs, which makes its behaviour less obvious');
+          } else if (remote.some(source => source.startsWith('http')) && !instruction.flags.checksum) {
+            add(instruction.line, 'add-remote-unverified', 'info', 'ADD from a URL without --checksum downloads whatever the server returns');
+          }
+        }
+      }
+    }
+  }
+
+  const finalIndex = target ? stages.find(stage => stage.name === target.toLowerCase())?.index : stages.length - 1;
+  const final = finalIndex !== undefined ? stages[finalIndex] : undefined;
+  if (final) {
+    // USER is inherited from a base stage, but not from a base image we cannot see
+    const chain: DockerfileStage[] = [];
+    for (let stage: DockerfileStage | undefined = final; stage; stage = stage.baseStage !== undefined ? stages[stage.baseStage] : undefined) chain.push(stage);
+    const lastUser = chain.map(stage => [...stage.instructions].reverse().find(instruction => instruction.instruction === 'USER')).find(Boolean);
+
+    if (!lastUser) {
+      add(final.line, 'missing-user', 'warning', `The final stage${final.name ? ` (${final.name})` : ''} has no USER, so the container runs as root unless the base image sets a user`);
+    } else if (/^(root|0)(:|$)/.test(lastUser.args)) {
+      add(lastUser.line, 'missing-user', 'warning', 'The final stage runs as root; switch to an unprivileged USER after the steps that need root');
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line);
+}
\ No newline at end of file
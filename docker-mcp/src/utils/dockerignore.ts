@@ -0,0 +1,143 @@
+import { existsSync } from 'fs';
+import { lstat, readdir, readFile } from 'fs/promises';
+import path from 'path';
+
+export interface IgnorePattern {
+  pattern: string;
+  /** "!pattern": re-include files an earlier pattern excluded */
+  exclusion: boolean;
+  regex: RegExp;
+}
+
+export interface BuildContextListing {
+  files: Array<{ path: string; size: number }>;
+  totalSize: number;
+  ignoredFiles: number;
+  ignoredSize: number;
+  /** Ignored directories that were skipped without being read */
+  ignoredDirectories: string[];
+  /** The scan stopped at the entry limit */
+  truncated: boolean;
+}
+
+/**
+ * Translate a .dockerignore pattern into a regex the way Docker's pattern matcher does:
+ * `*` and `?` stay within a path segment, `**` spans directories
+ */
+function patternRegex(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      index++;
+      if (pattern[index + 1] === '/') {
+        index++;
+        source += '(.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', index + 1);
+      if (end < 0) {
+        source += '\\[';
+        continue;
+      }
+      source += `[${pattern.substring(index + 1, end).replace(/^[!^]/, '^').replace(/\\/g, '\\\\')}]`;
+      index = end;
+    } else if (char === '\\' && index + 1 < pattern.length) {
+      source += pattern[++index].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse .dockerignore content: one pattern per line, # comments, leading "!" for exceptions
+ */
+export function parseDockerignore(text: string): IgnorePattern[] {
+  return text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const exclusion = line.startsWith('!');
+      // Patterns are relative to the context root; leading slashes and ./ do not matter
+      const pattern = path.posix.normalize(exclusion ? line.substring(1).trim() : line).replace(/^(\/|\.\/)+/, '').replace(/\/+$/, '');
+      return { pattern, exclusion, regex: patternRegex(pattern) };
+    })
+    .filter(entry => entry.pattern && entry.pattern !== '.');
+}
+
+/**
+ * Whether a context-relative path is ignored. The last matching pattern wins, and a pattern
+ * matching a parent directory matches everything below it.
+ */
+export function isIgnored(relativePath: string, patterns: IgnorePattern[]): boolean {
+  const parents = relativePath.split('/').map((_, index, parts) => parts.slice(0, index + 1).join('/'));
+  let ignored = false;
+  for (const pattern of patterns) {
+    if (parents.some(candidate => pattern.regex.test(candidate))) ignored = !pattern.exclusion;
+  }
+  return ignored;
+}
+
+/**
+ * The ignore file a build uses: BuildKit prefers <Dockerfile>.dockerignore next to the Dockerfile
+ * over .dockerignore in the context root
+ */
+export function findDockerignore(contextPath: string, dockerfilePath: string): string | undefined {
+  const specific = `${dockerfilePath}.dockerignore`;
+  if (existsSync(specific)) return specific;
+  const general = path.join(contextPath, '.dockerignore');
+  return existsSync(general) ? general : undefined;
+}
+
+/**
+ * Files docker would send as the build context, with sizes. Symlinks are sent as links.
+ */
+export async function listBuildContext(contextPath: string, ignoreFile: string | undefined, limit: number = 100000): Promise<BuildContextListing> {
+  const patterns = ignoreFile ? parseDockerignore(await readFile(ignoreFile, 'utf-8')) : [];
+  // Without exceptions an ignored directory cannot contain anything that is sent
+  const canSkip = !patterns.some(pattern => pattern.exclusion);
+  const listing: BuildContextListing = { files: [], totalSize: 0, ignoredFiles: 0, ignoredSize: 0, ignoredDirectories: [], truncated: false };
+  let scanned = 0;
+
+  const visit = async (directory: string, relative: string) => {
+    const entries = (await readdir(directory, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (++scanned > limit) {
+        listing.truncated = true;
+        return;
+      }
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      const ignored = isIgnored(entryPath, patterns);
+
+      if (entry.isDirectory()) {
+        if (ignored && canSkip) {
+          listing.ignoredDirectories.push(entryPath);
+          continue;
+        }
+        await visit(path.join(directory, entry.name), entryPath);
+        if (listing.truncated) return;
+        continue;
+      }
+
+      const { size } = await lstat(path.join(directory, entry.name));
+      if (ignored) {
+        listing.ignoredFiles++;
+        listing.ignoredSize += size;
+      } else {
+        listing.files.push({ path: entryPath, size });
+        listing.totalSize += size;
+      }
+    }
+  };
+
+  await visit(contextPath, '');
+  return listing;
+}
\ No newline at end of file
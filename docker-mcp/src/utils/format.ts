@@ -0,0 +1,89 @@
+import { DockerPort, DockerProgressEvent } from '../types.js';
+
+/**
+ * Render rows as a left-aligned table like the docker CLI's default output
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, index) => Math.max(header.length, ...rows.map(row => (row[index] || '').length)));
+  return [headers, ...rows]
+    .map(row => row.map((cell, index) => (index === row.length - 1 ? cell : (cell || '').padEnd(widths[index]))).join('   ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Human-readable size using decimal units, as docker prints them
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(value < 10 ? 2 : 1).replace(/\.0+$/, '')}${units[unit]}`;
+}
+
+/**
+ * "5 minutes ago" style age for a unix timestamp in seconds
+ */
+export function formatAge(created: number): string {
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000) - created);
+  const units: Array<[string, number]> = [['year', 31536000], ['month', 2592000], ['week', 604800], ['day', 86400], ['hour', 3600], ['minute', 60]];
+
+  for (const [name, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) return `${count === 1 ? (name === 'hour' ? 'An' : 'A') : count} ${name}${count === 1 ? '' : 's'} ago`;
+  }
+  return 'Less than a minute ago';
+}
+
+/**
+ * "0.0.0.0:8080->80/tcp, 443/tcp" style port list
+ */
+export function formatPorts(ports: DockerPort[]): string {
+  return ports
+    .map(port => (port.PublicPort ? `${port.IP ? `${port.IP}:` : ''}${port.PublicPort}->${port.PrivatePort}/${port.Type}` : `${port.PrivatePort}/${port.Type}`))
+    .filter((value, index, list) => list.indexOf(value) === index)
+    .join(', ');
+}
+
+/**
+ * Shorten an ID to the 12 characters docker shows
+ */
+export function shortId(id: string): string {
+  return id.replace(/^sha256:/, '').substring(0, 12);
+}
+
+/**
+ * One line for a pull/push progress event ("a1b2c3d4e5f6: Downloading [==>   ] 12.1MB/48.2MB")
+ */
+export function formatProgressEvent(event: DockerProgressEvent): string {
+  return `${event.id ? `${event.id}: ` : ''}${event.status || ''}${event.progress ? ` ${event.progress}` : ''}`;
+}
+
+/**
+ * Keep the last lines of long command output, noting how many were dropped
+ */
+export function lastLines(text: string, count: number): string {
+  const lines = text.replace(/\n+$/, '').split('\n');
+  if (lines.length <= count) return lines.join('\n');
+  return `... (${lines.length - count} earlier lines omitted)\n${lines.slice(-count).join('\n')}`;
+}
+
+const SECRET_NAME = /pass(word|wd)?|secret|token|api_?key|access_?key|private_?key|credential|auth|dsn|connection_?string/i;
+
+const URL_PASSWORD = /(:\/\/[^/\s:@]*:)\S+@/g;
+
+/**
+ * Mask the values of environment variables whose names look like they hold secrets,
+ * and passwords embedded in URLs (DATABASE_URL=postgres://user:pass@db/app)
+ */
+export function redactEnv(env: string[]): string[] {
+  return env.map(entry => {
+    const separator = entry.indexOf('=');
+    if (separator < 0) return entry;
+    const name = entry.substring(0, separator);
+    return SECRET_NAME.test(name) ? `${name}=<redacted>` : entry.replace(URL_PASSWORD, '$1<redacted>@');
+  });
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import path from 'path';
+import os from 'os';
+import { DockerHostConfig } from '../types.js';
+
+/**
+ * Split a command line into argv the way a POSIX shell would, honouring single
+ * and double quotes and backslash escapes (no expansion, globbing or operators)
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else if (char === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) current += command[++i];
+      else current += char;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inArg = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in command: ${command}`);
+  }
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Command given as argv or as a command line
+ */
+export function toArgv(command: string | string[]): string[] {
+  return Array.isArray(command) ? command : splitCommand(command);
+}
+
+function portRange(value: string): number[] {
+  const [start, end] = value.split('-').map(port => parseInt(port, 10));
+  if (Number.isNaN(start) || (end !== undefined && (Number.isNaN(end) || end < start))) {
+    throw new Error(`Invalid port '${value}'`);
+  }
+  return Array.from({ length: (end ?? start) - start + 1 }, (_, index) => start + index);
+}
+
+/**
+ * Convert -p style mappings ("8080:80", "127.0.0.1:8080:80/udp", "80", "[::1]:8080:80",
+ * "3000-3001:3000-3001") into ExposedPorts and PortBindings
+ */
+export function parsePortMappings(mappings: string[]): { exposedPorts: Record<string, object>; portBindings: NonNullable<DockerHostConfig['PortBindings']> } {
+  const exposedPorts: Record<string, object> = {};
+  const portBindings: NonNullable<DockerHostConfig['PortBindings']> = {};
+
+  for (const mapping of mappings) {
+    const [spec, protocol = 'tcp'] = mapping.split('/');
+    const ipv6 = spec.match(/^\[([^\]]+)\]:(.*)$/);
+    const parts = ipv6 ? [ipv6[1], ...ipv6[2].split(':')] : spec.split(':');
+    if (parts.length > 3 || parts.some((part, index) => !part && index !== parts.length - 2)) {
+      throw new Error(`Invalid port mapping '${mapping}'`);
+    }
+
+    const containerPorts = portRange(parts[parts.length - 1]);
+    const hostPorts = parts.length >= 2 && parts[parts.length - 2] ? portRange(parts[parts.length - 2]) : [];
+    const hostIp = parts.length === 3 ? parts[0] : undefined;
+
+    if (hostPorts.length > 0 && hostPorts.length !== containerPorts.length) {
+      throw new Error(`Port ranges must have the same length in '${mapping}'`);
+    }
+
+    containerPorts.forEach((port, index) => {
+      const key = `${port}/${protocol}`;
+      exposedPorts[key] = {};
+      portBindings[key] = [
+        ...(portBindings[key] || []),
+        { ...(hostIp && { HostIp: hostIp }), HostPort: hostPorts.length > 0 ? String(hostPorts[index]) : '' }
+      ];
+    });
+  }
+
+  return { exposedPorts, portBindings };
+}
+
+/**
+ * Resolve a host path given to a tool: ~ is the home directory, relative paths are resolved against the working directory
+ */
+export function resolveHostPath(hostPath: string): string {
+  return hostPath.startsWith('~') ? path.join(os.homedir(), hostPath.substring(1)) : path.resolve(hostPath);
+}
+
+/**
+ * Convert -v style specs into Binds (host paths and named volumes) and anonymous Volumes.
+ * Relative and ~ host paths are resolved like the CLI does.
+ */
+export function parseVolumeSpecs(specs: string[]): { binds: string[]; volumes: Record<string, object> } {
+  const binds: string[] = [];
+  const volumes: Record<string, object> = {};
+
+  for (const spec of specs) {
+    // Keep Windows drive letters ("C:\data:/data") in the source
+    const drive = /^[a-zA-Z]:[\\/]/.test(spec) ? spec.substring(0, 2) : '';
+    const parts = spec.substring(drive.length).split(':');
+    parts[0] = drive + parts[0];
+
+    if (parts.length === 1) {
+      volumes[parts[0]] = {};
+      continue;
+    }
+
+    // Absolute paths and named volumes are passed through
+    const source = parts[0].startsWith('~') || parts[0].startsWith('.') ? resolveHostPath(parts[0]) : parts[0];
+    binds.push([source, ...parts.slice(1)].join(':'));
+  }
+
+  return { binds, volumes };
+}
+
+/**
+ * Parse CLI-style filters ("status=running", "label=a=b,name=web") into the API's filter map
+ */
+export function parseFilters(filter?: string | string[]): Record<string, string[]> | undefined {
+  if (!filter) return undefined;
+
+  const filters: Record<string, string[]> = {};
+  for (const item of (Array.isArray(filter) ? filter : filter.split(',')).map(value => value.trim()).filter(Boolean)) {
+    const separator = item.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid filter '${item}' (expected key=value)`);
+    }
+    const key = item.substring(0, separator);
+    filters[key] = [...(filters[key] || []), item.substring(separator + 1)];
+  }
+  return filters;
+}
+
+/**
+ * Convert a timestamp ("2023-01-01T00:00:00", unix seconds) or relative duration
+ * ("10m", "1h30m") into unix seconds, as the logs API expects
+ */
+export function toUnixTimestamp(value: string): number {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.floor(parseFloat(value));
+  }
+
+  const duration = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (duration && value) {
+    const seconds = parseInt(duration[1] || '0', 10) * 3600 + parseInt(duration[2] || '0', 10) * 60 + parseInt(duration[3] || '0', 10);
+    return Math.floor(Date.now() / 1000) - seconds;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid timestamp '${value}'`);
+  }
+  return Math.floor(time / 1000);
+}
\ No newline at end of file
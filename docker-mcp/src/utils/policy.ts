@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import { existsSync, readFileSync, realpathSync } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DockerHostConfig, DockerVolume } from '../types.js';
+import { DOCKER_HUB, registryOf } from './auth.js';
+import { resolveHostPath } from './parsers.js';
+
+export const POLICY_ENV = 'DOCKER_MCP_POLICY';
+export const AUDIT_LOG_ENV = 'DOCKER_MCP_AUDIT_LOG';
+
+/**
+ * Restrictions for docker_run, docker_exec, docker_compose_exec and the copy tools. Lists that
+ * are left out do not restrict anything; privileged mode, host networking and capabilities
+ * that amount to privileged mode are denied unless allowed explicitly.
+ */
+const policySchema = z.object({
+  registries: z.array(z.string()).optional().describe('Allowed registries or repository prefixes ("docker.io/library", "ghcr.io/my-org")'),
+  images: z.array(z.string()).optional().describe('Allowed image names, with * wildcards ("node:*", "postgres:16*")'),
+  mounts: z.array(z.string()).optional().describe('Host paths that may be bind-mounted or copied to and from, including anything below them'),
+  readOnlyMounts: z.boolean().optional().default(false).describe('Require bind mounts and named volumes to be read-only'),
+  volumeDrivers: z.array(z.string()).optional().describe('Drivers of existing named volumes that may be mounted ("local")'),
+  privileged: z.boolean().optional().default(false),
+  hostNetwork: z.boolean().optional().default(false),
+  ports: z.array(z.string()).optional().describe('Host ports or ranges ("8080", "8000-8999") that may be published'),
+  capabilities: z.array(z.string()).optional().describe('Capabilities that may be added'),
+  exec: z.object({
+    enabled: z.boolean().optional().default(true),
+    containers: z.array(z.string()).optional().describe('Container names that allow exec, with * wildcards'),
+    commands: z.array(z.string()).optional().describe('Allowed executables (argv[0], matched by base name)'),
+    allowRoot: z.boolean().optional().default(true).describe('Allow running as root or UID 0')
+  }).strict().optional().default({}),
+  auditLog: z.string().optional().describe('JSON Lines file recording every call')
+}).strict();
+
+export type SecurityPolicy = z.infer<typeof policySchema>;
+
+export interface LoadedPolicy {
+  policy: SecurityPolicy;
+  /** Where the policy came from, for messages */
+  source: string;
+}
+
+export interface RunRequest {
+  image: string;
+  binds: string[];
+  portBindings: NonNullable<DockerHostConfig['PortBindings']>;
+  network?: string;
+  privileged?: boolean;
+  capAdd?: string[];
+  /** Existing named volumes the binds refer to */
+  volumes?: DockerVolume[];
+}
+
+export interface ExecRequest {
+  container: string;
+  command: string[];
+  user?: string;
+}
+
+export interface CopyRequest {
+  /** Host path read or written; undefined when the copy does not touch the host filesystem */
+  hostPath?: string;
+}
+
+export type PolicyTool = 'run' | 'exec' | 'compose_exec' | 'copy_to' | 'copy_from';
+
+/**
+ * Load the policy from DOCKER_MCP_POLICY: inline JSON, or the path of a JSON file.
+ * The file is read on every call so edits apply without a restart.
+ */
+export function loadSecurityPolicy(env: NodeJS.ProcessEnv = process.env): LoadedPolicy | undefined {
+  const value = env[POLICY_ENV]?.trim();
+  if (!value) return undefined;
+
+  const inline = value.startsWith('{');
+  const source = inline ? POLICY_ENV : resolveHostPath(value);
+  try {
+    const policy = policySchema.parse(JSON.parse(inline ? value : readFileSync(source, 'utf-8')));
+    return { policy, source };
+  } catch (error) {
+    const message = error instanceof z.ZodError
+      ? error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`).join('; ')
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid security policy (${source}): ${message}`);
+  }
+}
+
+function wildcard(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+/**
+ * Fully qualified image name ("nginx" → "docker.io/library/nginx:latest")
+ */
+export function qualifyImage(image: string): string {
+  const registry = registryOf(image);
+  let name = registry === DOCKER_HUB && !image.startsWith(`${DOCKER_HUB}/`) ? image : image.substring(registry.length + 1);
+  if (registry === DOCKER_HUB && !name.includes('/')) name = `library/${name}`;
+  const hasTag = name.includes('@') || name.lastIndexOf(':') > name.lastIndexOf('/');
+  return `${registry}/${name}${hasTag ? '' : ':latest'}`;
+}
+
+/**
+ * Absolute host path with symlinks resolved, including symlinked parents of a path that does not exist yet
+ */
+function realHostPath(target: string): string {
+  const resolved = path.resolve(target);
+  if (existsSync(resolved)) return realpathSync(resolved);
+  const parent = path.dirname(resolved);
+  return parent === resolved ? resolved : path.join(realHostPath(parent), path.basename(resolved));
+}
+
+/**
+ * Host path a bind mount spec refers to (symlinks resolved) or the named volume it mounts, and its options
+ */
+function parseBind(bind: string): { source?: string; volume?: string; options: string[] } {
+  const drive = /^[a-zA-Z]:[\\/]/.test(bind) ? bind.substring(0, 2) : '';
+  const parts = bind.substring(drive.length).split(':');
+  const options = (parts[2] || '').split(',');
+  const source = drive + parts[0];
+  if (!drive && !path.isAbsolute(source)) return { volume: source, options };
+  return { source: realHostPath(source), options };
+}
+
+/**
+ * Names of the named volumes among bind mount specs
+ */
+export function namedVolumes(binds: string[]): string[] {
+  return binds.map(bind => parseBind(bind).volume).filter((volume): volume is string => Boolean(volume));
+}
+
+/**
+ * Host directory a local volume created with "o=bind" and a device mounts, like a bind mount
+ */
+function volumeHostPath(volume: DockerVolume): string | undefined {
+  const options = volume.Options || {};
+  const bound = (options.o || '').split(',').some(option => option === 'bind' || option === 'rbind');
+  return volume.Driver === 'local' && bound && options.device ? realHostPath(options.device) : undefined;
+}
+
+function isBelow(target: string, allowed: string): boolean {
+  const root = realHostPath(resolveHostPath(allowed));
+  return target === root || target.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+}
+
+/**
+ * Capabilities that give a container control over the host, denied unless the policy lists them
+ */
+const PRIVILEGED_CAPABILITIES = new Set([
+  'ALL', 'SYS_ADMIN', 'SYS_MODULE', 'SYS_RAWIO', 'SYS_PTRACE', 'SYS_BOOT', 'DAC_READ_SEARCH',
+  'NET_ADMIN', 'BPF', 'PERFMON', 'MAC_ADMIN', 'MAC_OVERRIDE'
+]);
+
+function portAllowed(port: number, allowed: string[]): boolean {
+  return allowed.some(spec => {
+    const [start, end = start] = spec.split('-').map(value => parseInt(value, 10));
+    return port >= start && port <= end;
+  });
+}
+
+/**
+ * Reasons the policy forbids a docker_run request; empty when it is allowed
+ */
+export function checkRunPolicy(policy: SecurityPolicy, request: RunRequest): string[] {
+  const violations: string[] = [];
+  const image = qualifyImage(request.image);
+
+  if (policy.registries) {
+    const repository = image.replace(/[:@][^/]*$/, '');
+    if (!policy.registries.some(prefix => repository === prefix.replace(/\/+$/, '') || repository.startsWith(`${prefix.replace(/\/+$/, '')}/`))) {
+      violations.push(`Image ${image} is not from an allowed registry (${policy.registries.join(', ') || 'none'})`);
+    }
+  }
+
+  if (policy.images && !policy.images.some(pattern => wildcard(pattern).test(request.image) || wildcard(qualifyImage(pattern)).test(image))) {
+    violations.push(`Image ${request.image} is not in the allowed images (${policy.images.join(', ') || 'none'})`);
+  }
+
+  for (const bind of request.binds) {
+    const { source, volume: name, options } = parseBind(bind);
+    // A volume that does not exist yet is created empty by the local driver
+    const volume = name ? request.volumes?.find(candidate => candidate.Name === name) : undefined;
+    const hostPath = source ?? (volume && volumeHostPath(volume));
+    if (hostPath && policy.mounts && !policy.mounts.some(allowed => isBelow(hostPath, allowed))) {
+      violations.push(`Mounting host path ${hostPath}${volume ? ` (volume ${volume.Name})` : ''} is not allowed (allowed: ${policy.mounts.join(', ') || 'none'})`);
+    }
+    if (volume && policy.volumeDrivers && !policy.volumeDrivers.includes(volume.Driver)) {
+      violations.push(`Volume ${volume.Name} uses driver ${volume.Driver}, which is not allowed (allowed: ${policy.volumeDrivers.join(', ') || 'none'})`);
+    }
+    if (policy.readOnlyMounts && !options.includes('ro')) {
+      violations.push(`${source ? 'Bind mount' : 'Volume'} ${bind} must be read-only (add :ro)`);
+    }
+  }
+
+  if (request.privileged && !policy.privileged) {
+    violations.push('Privileged containers are not allowed');
+  }
+
+  if (request.network === 'host' && !policy.hostNetwork) {
+    violations.push('Host networking is not allowed');
+  }
+
+  if (policy.ports) {
+    // Ports left for docker to choose are not restricted
+    const hostPorts = Object.values(request.portBindings).flat().map(binding => binding.HostPort).filter(Boolean).map(Number);
+    const denied = [...new Set(hostPorts.filter(port => !portAllowed(port, policy.ports!)))];
+    if (denied.length > 0) {
+      violations.push(`Publishing host port(s) ${denied.join(', ')} is not allowed (allowed: ${policy.ports.join(', ') || 'none'})`);
+    }
+  }
+
+  // Without a capabilities list the ones that amount to privileged mode are still denied
+  const normalizeCapability = (capability: string) => capability.toUpperCase().replace(/^CAP_/, '');
+  const allowedCapabilities = policy.capabilities?.map(normalizeCapability);
+  const capabilityAllowed = (capability: string) => allowedCapabilities
+    ? allowedCapabilities.includes('ALL') || allowedCapabilities.includes(capability)
+    : !PRIVILEGED_CAPABILITIES.has(capability);
+  const deniedCapabilities = [...new Set((request.capAdd || []).map(normalizeCapability).filter(capability => !capabilityAllowed(capability)))];
+  if (deniedCapabilities.length > 0) {
+    violations.push(allowedCapabilities
+      ? `Adding capabilities ${deniedCapabilities.join(', ')} is not allowed (allowed: ${allowedCapabilities.join(', ') || 'none'})`
+      : `Adding capabilities ${deniedCapabilities.join(', ')} is not allowed unless listed in capabilities`);
+  }
+
+  return violations;
+}
+
+/**
+ * Reasons the policy forbids a docker_exec request; empty when it is allowed
+ */
+export function checkExecPolicy(policy: SecurityPolicy, request: ExecRequest): string[] {
+  const { exec } = policy;
+  if (!exec.enabled) return ['Executing commands in containers is disabled'];
+
+  const violations: string[] = [];
+  const container = request.container.replace(/^\//, '');
+
+  if (exec.containers && !exec.containers.some(pattern => wildcard(pattern).test(container))) {
+    violations.push(`Exec is not allowed in container ${container} (allowed: ${exec.containers.join(', ') || 'none'})`);
+  }
+
+  const executable = path.posix.basename(request.command[0] || '');
+  if (exec.commands && !exec.commands.includes(executable)) {
+    violations.push(`Command ${executable || '(empty)'} is not allowed (allowed: ${exec.commands.join(', ') || 'none'})`);
+  }
+
+  // Without a user the exec runs as the container's user, which the policy cannot see here
+  if (!exec.allowRoot && request.user !== undefined && /^(root|0)(:|$)/.test(request.user)) {
+    violations.push('Running commands as root is not allowed');
+  }
+
+  return violations;
+}
+
+/**
+ * Reasons the policy forbids copying to or from a container; empty when it is allowed
+ */
+export function checkCopyPolicy(policy: SecurityPolicy, request: CopyRequest): string[] {
+  if (!request.hostPath || !policy.mounts) return [];
+  const target = realHostPath(resolveHostPath(request.hostPath));
+  if (policy.mounts.some(allowed => isBelow(target, allowed))) return [];
+  return [`Copying host path ${target} is not allowed (allowed: ${policy.mounts.join(', ') || 'none'})`];
+}
+
+/**
+ * Audit log used under a policy that sets no auditLog, without DOCKER_MCP_AUDIT_LOG:
+ * $XDG_CONFIG_HOME/docker-mcp/audit.log or ~/.config/docker-mcp/audit.log
+ */
+export function defaultAuditLogPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'docker-mcp', 'audit.log');
+}
+
+async function audit(loaded: LoadedPolicy | undefined, entry: Record<string, unknown>): Promise<void> {
+  // Without a policy or an audit log setting nothing is recorded; a policy that fails to load still is
+  if (!process.env[AUDIT_LOG_ENV] && !process.env[POLICY_ENV]?.trim()) return;
+
+  const target = resolveHostPath(process.env[AUDIT_LOG_ENV] || loaded?.policy.auditLog || defaultAuditLogPath());
+  const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+
+  await mkdir(path.dirname(target), { recursive: true });
+  await appendFile(target, line + '\n', { mode: 0o600 });
+}
+
+/**
+ * Check a call against the security policy and record it in the audit log, when either is
+ * configured. Returns the rejection message for a denied call, or undefined when the call
+ * may proceed.
+ */
+export async function authorize(tool: PolicyTool, details: Record<string, unknown>, check: (policy: SecurityPolicy) => string[]): Promise<string | undefined> {
+  let loaded: LoadedPolicy | undefined;
+  let violations: string[];
+  try {
+    loaded = loadSecurityPolicy();
+    violations = loaded ? check(loaded.policy) : [];
+  } catch (error) {
+    // A broken policy denies everything rather than allowing everything
+    violations = [error instanceof Error ? error.message : String(error)];
+  }
+
+  await audit(loaded, {
+    tool: `docker_${tool}`,
+    decision: violations.length > 0 ? 'denied' : 'allowed',
+    policy: loaded?.source,
+    ...details,
+    ...(violations.length > 0 && { violations })
+  });
+
+  if (violations.length === 0) return undefined;
+  return `Rejected by security policy${loaded ? ` (${loaded.source})` : ''}:\n${violations.map(violation => `- ${violation}`).join('\n')}`;
+}
\ No newline at end of file
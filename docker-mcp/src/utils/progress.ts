@@ -0,0 +1,95 @@
+import { ToolContext } from '../types.js';
+
+const PROGRESS_INTERVAL = 250; // Minimum milliseconds between progress notifications
+const MAX_MESSAGE_LENGTH = 500;
+
+interface RequestExtra {
+  signal: AbortSignal;
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: { method: 'notifications/progress'; params: { progressToken: string | number; progress: number; message?: string } }) => Promise<void>;
+}
+
+/**
+ * Context for a tool call: the client's cancellation signal and a throttled sender for
+ * `notifications/progress`. Progress is only sent when the request carried a progress token.
+ */
+export function createToolContext(extra?: RequestExtra): ToolContext {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return { signal: extra?.signal, progress: () => {} };
+  }
+
+  let count = 0;
+  let lastSent = 0;
+  let queued: string | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const send = (message: string) => {
+    lastSent = Date.now();
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: ++count, message: message.length > MAX_MESSAGE_LENGTH ? `${message.substring(0, MAX_MESSAGE_LENGTH)}...` : message }
+    }).catch(() => {
+      // The client may have gone away; progress is best effort
+    });
+  };
+
+  // Chatty output (layer progress, build logs) is coalesced: the latest message wins
+  const progress = (message: string) => {
+    if (extra.signal.aborted || !message.trim()) return;
+    const wait = lastSent + PROGRESS_INTERVAL - Date.now();
+    if (wait <= 0 && !timer) {
+      send(message);
+      return;
+    }
+    queued = message;
+    timer ??= setTimeout(() => {
+      timer = undefined;
+      if (queued !== undefined && !extra.signal.aborted) send(queued);
+      queued = undefined;
+    }, Math.max(wait, 0));
+  };
+
+  return { signal: extra.signal, progress };
+}
+
+/**
+ * Signal aborted as soon as any of the given signals is, with that signal's reason.
+ * Stands in for AbortSignal.any, which needs Node 20.3.
+ */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+  return controller.signal;
+}
+
+/**
+ * Signal for one call: aborted when the client cancels or after the per-call timeout
+ */
+export function callSignal(context: ToolContext | undefined, timeoutSeconds: number): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutSeconds * 1000);
+  return context?.signal ? anySignal([context.signal, timeout]) : timeout;
+}
+
+/**
+ * Whether an aborted call signal fired because of its timeout rather than the client
+ */
+export function isTimeout(signal: AbortSignal): boolean {
+  return signal.aborted && signal.reason instanceof Error && signal.reason.name === 'TimeoutError';
+}
+
+/**
+ * Report streamed command output as progress, one message per chunk with its last non-empty line
+ */
+export function outputProgress(context: ToolContext | undefined): (text: string) => void {
+  return (text) => {
+    const line = text.split(/\r?\n|\r/).map(part => part.trim()).filter(Boolean).pop();
+    if (line) context?.progress(line);
+  };
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { DockerPruneCandidate, DockerPruneType } from '../types.js';
+import { DockerApiError, DockerClient } from './docker.js';
+import { toUnixTimestamp } from './parsers.js';
+
+export const PROTECTED_LABELS_ENV = 'DOCKER_MCP_PROTECTED_LABELS';
+
+export interface PruneOptions {
+  types: DockerPruneType[];
+  /** Remove all unused images, not just dangling ones */
+  allImages?: boolean;
+  /** Only prune resources created before this timestamp or duration ago ("24h") */
+  until?: string;
+  /** Extra labels ("key" or "key=value") protecting resources from pruning */
+  protectLabels?: string[];
+}
+
+export interface PrunePlan {
+  candidates: DockerPruneCandidate[];
+  protected: Array<DockerPruneCandidate & { label: string }>;
+  /** Build cache cannot be labelled, so it is pruned with the API filter instead of per item */
+  buildCacheFilters?: Record<string, string[]>;
+}
+
+const PREDEFINED_NETWORKS = new Set(['bridge', 'host', 'none']);
+
+/**
+ * Labels that protect resources from pruning: DOCKER_MCP_PROTECTED_LABELS (comma-separated) plus per-call labels
+ */
+export function protectedLabels(extra: string[] = []): string[] {
+  const configured = (process.env[PROTECTED_LABELS_ENV] || '').split(',').map(label => label.trim()).filter(Boolean);
+  return [...new Set([...configured, ...extra])];
+}
+
+/**
+ * The protecting label matching a resource's labels, if any
+ */
+export function matchProtectedLabel(labels: Record<string, string> | null | undefined, protect: string[]): string | undefined {
+  if (!labels) return undefined;
+  return protect.find(spec => {
+    const separator = spec.indexOf('=');
+    return separator < 0 ? spec in labels : labels[spec.substring(0, separator)] === spec.substring(separator + 1);
+  });
+}
+
+/**
+ * Work out what a prune would remove, without removing anything
+ */
+export async function planPrune(client: DockerClient, options: PruneOptions): Promise<PrunePlan> {
+  const protect = protectedLabels(options.protectLabels);
+  const cutoff = options.until ? toUnixTimestamp(options.until) : undefined;
+  const olderThan = (created: number) => cutoff === undefined || created < cutoff;
+  const plan: PrunePlan = { candidates: [], protected: [] };
+
+  const consider = (candidate: DockerPruneCandidate, labels: Record<string, string> | null | undefined) => {
+    const label = matchProtectedLabel(labels, protect);
+    if (label) plan.protected.push({ ...candidate, label });
+    else plan.candidates.push(candidate);
+  };
+
+  const containers = await client.listContainers({ all: true, size: options.types.includes('containers') });
+  const df = options.types.includes('volumes') || options.types.includes('buildCache') ? await client.systemDf() : undefined;
+
+  if (options.types.includes('containers')) {
+    for (const container of containers) {
+      if (!['exited', 'created', 'dead'].includes(container.State) || !olderThan(container.Created)) continue;
+      consider({ type: 'containers', id: container.Id, name: container.Names[0]?.replace(/^\//, '') || container.Id, size: container.SizeRw || 0 }, container.Labels);
+    }
+  }
+
+  if (options.types.includes('images')) {
+    // Images of containers pruned in the same run become unused, like docker system prune
+    const pruned = new Set(plan.candidates.filter(item => item.type === 'containers').map(item => item.id));
+    const usedImages = new Set(containers.filter(container => !pruned.has(container.Id)).map(container => container.ImageID));
+    for (const image of await client.listImages()) {
+      const dangling = !image.RepoTags || image.RepoTags.length === 0 || image.RepoTags.every(tag => tag === '<none>:<none>');
+      if (usedImages.has(image.Id) || (!dangling && !options.allImages) || !olderThan(image.Created)) continue;
+      consider({ type: 'images', id: image.Id, name: dangling ? image.Id.substring(0, 19) : image.RepoTags!.join(', '), size: image.Size, ...(!dangling && { tags: image.RepoTags!.filter(tag => tag !== '<none>:<none>') }) }, image.Labels);
+    }
+  }
+
+  if (options.types.includes('volumes')) {
+    const sizes = new Map(df!.Volumes.map(volume => [volume.Name, volume.UsageData?.Size]));
+    for (const volume of await client.listVolumes({ filters: { dangling: ['true'] } })) {
+      if (cutoff !== undefined && volume.CreatedAt && !olderThan(Date.parse(volume.CreatedAt) / 1000)) continue;
+      const size = sizes.get(volume.Name);
+      consider({ type: 'volumes', id: volume.Name, name: volume.Name, ...(size !== undefined && size >= 0 && { size }) }, volume.Labels);
+    }
+  }
+
+  if (options.types.includes('networks')) {
+    for (const network of await client.listNetworks({ filters: { dangling: ['true'] } })) {
+      if (PREDEFINED_NETWORKS.has(network.Name) || !olderThan(Date.parse(network.Created) / 1000)) continue;
+      consider({ type: 'networks', id: network.Id, name: network.Name }, network.Labels);
+    }
+  }
+
+  if (options.types.includes('buildCache')) {
+    for (const record of df!.BuildCache || []) {
+      if (record.InUse || (!options.allImages && record.Shared)) continue;
+      if (!olderThan(Date.parse(record.LastUsedAt || record.CreatedAt) / 1000)) continue;
+      plan.candidates.push({ type: 'buildCache', id: record.ID, name: record.Description || record.Type, size: record.Size });
+    }
+    plan.buildCacheFilters = options.until ? { until: [options.until] } : undefined;
+  }
+
+  return plan;
+}
+
+/**
+ * Remove the planned resources one by one (containers first, so their images and
+ * networks become unused) and report what was removed, what was skipped because it
+ * is in use after all (409 conflict) and what failed
+ */
+export async function executePrune(client: DockerClient, plan: PrunePlan, allImages: boolean = false): Promise<{
+  removed: DockerPruneCandidate[];
+  skipped: Array<DockerPruneCandidate & { reason: string }>;
+  failed: Array<DockerPruneCandidate & { error: string }>;
+  reclaimed: number;
+}> {
+  const removed: DockerPruneCandidate[] = [];
+  const skipped: Array<DockerPruneCandidate & { reason: string }> = [];
+  const failed: Array<DockerPruneCandidate & { error: string }> = [];
+  let reclaimed = 0;
+
+  const order: DockerPruneType[] = ['containers', 'networks', 'volumes', 'images'];
+  for (const type of order) {
+    for (const candidate of plan.candidates.filter(item => item.type === type)) {
+      try {
+        switch (type) {
+          case 'containers':
+            await client.removeContainer(candidate.id);
+            break;
+          case 'networks':
+            await client.removeNetwork(candidate.id);
+            break;
+          case 'volumes':
+            await client.removeVolume(candidate.id);
+            break;
+          case 'images':
+            // Never forced, like docker image prune: an image with several tags is untagged
+            // one tag at a time (the last one removes it), and an image in use is refused
+            for (const reference of candidate.tags || [candidate.id]) {
+              await client.removeImage(reference);
+            }
+            break;
+        }
+        removed.push(candidate);
+        reclaimed += candidate.size || 0;
+      } catch (error) {
+        // A container removal that failed earlier, or one started since planning, still uses it
+        if (error instanceof DockerApiError && error.statusCode === 409) {
+          skipped.push({ ...candidate, reason: error.message });
+        } else {
+          failed.push({ ...candidate, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  }
+
+  if (plan.candidates.some(item => item.type === 'buildCache')) {
+    try {
+      const result = await client.pruneBuildCache({ all: allImages, filters: plan.buildCacheFilters });
+      const deleted = new Set(result.CachesDeleted || []);
+      removed.push(...plan.candidates.filter(item => item.type === 'buildCache' && deleted.has(item.id)));
+      reclaimed += result.SpaceReclaimed;
+    } catch (error) {
+      failed.push({ type: 'buildCache', id: '', name: 'build cache', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { removed, skipped, failed, reclaimed };
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { DockerContainerInspect } from '../types.js';
+
+const PROBE_TIMEOUT = 2000; // 2 seconds per attempt
+
+/**
+ * Where a container port can be reached from this host: the published host port when
+ * there is one, otherwise the container's own address on its first network
+ */
+export function resolveContainerPort(details: DockerContainerInspect, port: number, protocol: string = 'tcp'): { host: string; port: number } | undefined {
+  const bindings = details.NetworkSettings.Ports?.[`${port}/${protocol}`];
+  const binding = bindings?.find(item => item.HostPort);
+  if (binding) {
+    const wildcard = !binding.HostIp || binding.HostIp === '0.0.0.0' || binding.HostIp === '::';
+    return { host: wildcard ? '127.0.0.1' : binding.HostIp, port: Number(binding.HostPort) };
+  }
+
+  const address = Object.values(details.NetworkSettings.Networks || {}).map(network => network.IPAddress).find(Boolean);
+  return address ? { host: address, port } : undefined;
+}
+
+/**
+ * Whether a TCP connection to host:port succeeds
+ */
+export function probeTcp(host: string, port: number, timeout: number = PROBE_TIMEOUT): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(timeout, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Status code of a GET request, or undefined when the request fails
+ */
+export function probeHttp(url: string, timeout: number = PROBE_TIMEOUT): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const transport = url.startsWith('https:') ? https : http;
+    const request = transport.get(url, { timeout, rejectUnauthorized: false }, (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    request.once('timeout', () => request.destroy());
+    request.once('error', () => resolve(undefined));
+  });
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { DockerContainerStats, DockerStatsSample } from '../types.js';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Memory in use the way `docker stats` reports it: usage minus the page cache that can be reclaimed
+ */
+function memoryUsage(memory: DockerContainerStats['memory_stats']): number {
+  const usage = memory.usage || 0;
+  const stats = memory.stats || {};
+  // cgroup v1 reports total_inactive_file, cgroup v2 inactive_file
+  const cache = stats.total_inactive_file ?? stats.inactive_file ?? 0;
+  return cache < usage ? usage - cache : usage;
+}
+
+/**
+ * Turn a raw stats reading into CPU %, memory and IO totals, using the same formulas as the docker CLI
+ */
+export function summarizeStats(stats: DockerContainerStats): DockerStatsSample {
+  const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - (stats.precpu_stats.cpu_usage?.total_usage || 0);
+  const systemDelta = (stats.cpu_stats.system_cpu_usage || 0) - (stats.precpu_stats.system_cpu_usage || 0);
+  const cpus = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+  const cpuPercent = cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * cpus * 100 : 0;
+
+  const usage = memoryUsage(stats.memory_stats);
+  const limit = stats.memory_stats.limit || 0;
+
+  const networks = Object.values(stats.networks || {});
+  const blockIO = stats.blkio_stats?.io_service_bytes_recursive || [];
+  const blockBytes = (op: string) => blockIO.filter(entry => entry.op.toLowerCase() === op).reduce((sum, entry) => sum + entry.value, 0);
+
+  return {
+    id: stats.id,
+    name: stats.name.replace(/^\//, ''),
+    cpuPercent: round(cpuPercent),
+    memory: { usage, limit, percent: limit > 0 ? round((usage / limit) * 100) : 0 },
+    network: {
+      rxBytes: networks.reduce((sum, network) => sum + network.rx_bytes, 0),
+      txBytes: networks.reduce((sum, network) => sum + network.tx_bytes, 0)
+    },
+    blockIO: { readBytes: blockBytes('read'), writeBytes: blockBytes('write') },
+    pids: stats.pids_stats?.current
+  };
+}
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { chmod, lstat, mkdir, readdir, readFile, readlink, rm, symlink, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+
+const BLOCK = 512;
+
+export interface TarEntry {
+  /** Path inside the archive, '/'-separated and relative */
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'hardlink' | 'other';
+  mode: number;
+  size: number;
+  /** Modification time in seconds */
+  mtime: number;
+  linkName?: string;
+  data?: Buffer;
+}
+
+export class TarSizeError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Content exceeds the size limit of ${limit} bytes`);
+    this.name = 'TarSizeError';
+  }
+}
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8');
+}
+
+function headerBlock(entry: { name: string; typeflag: string; mode: number; size: number; mtime: number; linkName?: string }): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  writeString(header, entry.name, 0, 100);
+  writeString(header, octal(entry.mode & 0o7777, 8), 100, 8);
+  writeString(header, octal(0, 8), 108, 8);
+  writeString(header, octal(0, 8), 116, 8);
+  writeString(header, octal(entry.size, 12), 124, 12);
+  writeString(header, octal(Math.floor(entry.mtime), 12), 136, 12);
+  header.fill(' ', 148, 156);
+  writeString(header, entry.typeflag, 156, 1);
+  writeString(header, entry.linkName || '', 157, 100);
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+  return header;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+/**
+ * Build a tar archive. Names or link targets that do not fit the ustar header get a PAX extended header.
+ */
+export function packTar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const name = entry.type === 'directory' && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name;
+    const records: string[] = [];
+    if (Buffer.byteLength(name) > 100) records.push(`path=${name}`);
+    if (entry.linkName && Buffer.byteLength(entry.linkName) > 100) records.push(`linkpath=${entry.linkName}`);
+
+    if (records.length > 0) {
+      // Each record is "<length> <key>=<value>\n", where the length counts itself
+      const pax = Buffer.from(records.map(record => {
+        let length = Buffer.byteLength(record) + 3;
+        while (String(length).length + Buffer.byteLength(record) + 2 !== length) length++;
+        return `${length} ${record}\n`;
+      }).join(''));
+      blocks.push(headerBlock({ name: 'PaxHeader', typeflag: 'x', mode: 0o644, size: pax.length, mtime: entry.mtime }), pax, padding(pax.length));
+    }
+
+    const typeflag = { file: '0', hardlink: '1', symlink: '2', directory: '5', other: '0' }[entry.type];
+    const size = entry.type === 'file' ? entry.data?.length || 0 : 0;
+    blocks.push(headerBlock({ name: name.substring(0, 100), typeflag, mode: entry.mode, size, mtime: entry.mtime, linkName: entry.linkName?.substring(0, 100) }));
+    if (size > 0) blocks.push(entry.data!, padding(size));
+  }
+
+  blocks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(blocks);
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? length : end).toString('utf-8');
+}
+
+function readNumber(buffer: Buffer, offset: number, length: number): number {
+  // Large values use base-256 with the high bit set
+  if (buffer[offset] & 0x80) {
+    let value = buffer[offset] & 0x7f;
+    for (let index = 1; index < length; index++) value = value * 256 + buffer[offset + index];
+    return value;
+  }
+  return parseInt(readString(buffer, offset, length).trim() || '0', 8);
+}
+
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space < 0) break;
+    const length = parseInt(data.subarray(offset, space).toString(), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const separator = record.indexOf('=');
+    if (separator > 0) records[record.substring(0, separator)] = record.substring(separator + 1);
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Read the entries of an uncompressed tar archive, understanding PAX and GNU long names
+ */
+export function parseTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+  let longLink: string | undefined;
+
+  while (offset + BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) break;
+
+    const typeflag = String.fromCharCode(header[156] || 0x30);
+    const size = readNumber(header, 124, 12);
+    const data = archive.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (typeflag === 'x') {
+      pax = parsePax(data);
+      continue;
+    }
+    if (typeflag === 'g') continue;
+    if (typeflag === 'L' || typeflag === 'K') {
+      const value = data.toString('utf-8').replace(/\0+$/, '');
+      if (typeflag === 'L') longName = value;
+      else longLink = value;
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = pax.path || longName || (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const linkName = pax.linkpath || longLink || readString(header, 157, 100);
+    const type: TarEntry['type'] = typeflag === '5' ? 'directory' : typeflag === '2' ? 'symlink' : typeflag === '1' ? 'hardlink' : typeflag === '0' || typeflag === '\0' || typeflag === '7' ? 'file' : 'other';
+
+    entries.push({
+      name: name.replace(/^\.\//, '').replace(/\/$/, ''),
+      type,
+      mode: readNumber(header, 100, 8),
+      size: pax.size ? Number(pax.size) : size,
+      mtime: pax.mtime ? Math.floor(Number(pax.mtime)) : readNumber(header, 136, 12),
+      linkName: linkName || undefined,
+      data: type === 'file' ? Buffer.from(data) : undefined
+    });
+
+    pax = {};
+    longName = undefined;
+    longLink = undefined;
+  }
+
+  return entries;
+}
+
+/**
+ * Collect a host file or directory tree as tar entries named under `name`, failing once the
+ * file contents exceed `limit` bytes
+ */
+export async function readHostEntries(source: string, name: string, limit: number): Promise<TarEntry[]> {
+  const entries: TarEntry[] = [];
+  let total = 0;
+
+  const visit = async (file: string, entryName: string) => {
+    const stats = await lstat(file);
+    const mtime = Math.floor(stats.mtimeMs / 1000);
+
+    if (stats.isSymbolicLink()) {
+      entries.push({ name: entryName, type: 'symlink', mode: stats.mode, size: 0, mtime, linkName: await readlink(file) });
+    } else if (stats.isDirectory()) {
+      entries.push({ name: entryName, type: 'directory', mode: stats.mode, size: 0, mtime });
+      for (const child of (await readdir(file)).sort()) {
+        await visit(path.join(file, child), `${entryName}/${child}`);
+      }
+    } else if (stats.isFile()) {
+      total += stats.size;
+      if (total > limit) throw new TarSizeError(limit);
+      entries.push({ name: entryName, type: 'file', mode: stats.mode, size: stats.size, mtime, data: await readFile(file) });
+    }
+    // Sockets, FIFOs and devices are skipped, as docker cp does
+  };
+
+  await visit(source, name);
+  return entries;
+}
+
+/**
+ * Write tar entries below a host directory. Entries that would land outside it, directly or
+ * through a symlink (from the same archive or already in the destination), are rejected.
+ */
+export async function writeHostEntries(entries: TarEntry[], destination: string): Promise<{ files: number; directories: number; bytes: number }> {
+  const root = path.resolve(destination);
+  const result = { files: 0, directories: 0, bytes: 0 };
+
+  await mkdir(root, { recursive: true });
+
+  for (const entry of entries) {
+    const target = path.resolve(root, entry.name);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to write outside the destination: ${entry.name}`);
+    }
+    for (let parent = path.dirname(target); parent.startsWith(root + path.sep); parent = path.dirname(parent)) {
+      if ((await lstat(parent).catch(() => undefined))?.isSymbolicLink()) {
+        throw new Error(`Refusing to write through a symlink: ${entry.name}`);
+      }
+    }
+
+    switch (entry.type) {
+      case 'directory':
+        await mkdir(target, { recursive: true });
+        result.directories++;
+        break;
+      case 'file':
+        await mkdir(path.dirname(target), { recursive: true });
+        // Replace an existing symlink instead of writing through it
+        if ((await lstat(target).catch(() => undefined))?.isSymbolicLink()) await rm(target);
+        await writeFile(target, entry.data || Buffer.alloc(0));
+        await chmod(target, entry.mode & 0o777);
+        await utimes(target, entry.mtime, entry.mtime);
+        result.files++;
+        result.bytes += entry.data?.length || 0;
+        break;
+      case 'symlink':
+        await mkdir(path.dirname(target), { recursive: true });
+        await rm(target, { force: true });
+        await symlink(entry.linkName || '', target);
+        break;
+      default:
+        // Hard links and special files are not recreated
+        break;
+    }
+  }
+
+  return result;
+}
\ No newline at end of file
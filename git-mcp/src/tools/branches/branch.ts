@@ -1,17 +1,21 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   action: z.enum(['list', 'create', 'delete', 'rename']).default('list').describe('Branch operation'),
-  name: z.string().optional().describe('Branch name (for create/delete/rename)'),
-  newName: z.string().optional().describe('New branch name (for rename)'),
+  name: gitArgSchema().optional().describe('Branch name (for create/delete/rename)'),
+  newName: gitArgSchema().optional().describe('New branch name (for rename)'),
   all: z.boolean().optional().default(false).describe('Show all branches including remote'),
   remote: z.boolean().optional().default(false).describe('Show only remote branches'),
   merged: z.boolean().optional().default(false).describe('Show only merged branches'),
   noMerged: z.boolean().optional().default(false).describe('Show only unmerged branches'),
   force: z.boolean().optional().default(false).describe('Force delete even if not merged'),
-  verbose: z.boolean().optional().default(false).describe('Show more information')
+  verbose: z.boolean().optional().default(false).describe('Show more information'),
+  confirm: confirmSchema
 });
 
 const gitBranchTool: ToolDefinition = {
@@ -25,8 +29,17 @@ const gitBranchTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git branch';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['branch'];
     
     switch (params.action) {
       case 'list':
@@ -74,13 +87,30 @@ const gitBranchTool: ToolDefinition = {
         break;
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
+    // Renaming removes the old name, so it is checked like deleting that branch
+    if ((params.action === 'delete' || params.action === 'rename') && params.name) {
+      const tip = (await runGit(['rev-parse', '--short', '--verify', '-q', `refs/heads/${params.name}`], { cwd: repo.cwd })).stdout.trim();
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: params.action === 'delete' && params.force ? 'branch-force-delete' : 'branch-delete',
+        target: params.name,
+        branches: [params.name],
+        description: params.action === 'rename'
+          ? `Rename branch '${params.name}'` + (tip ? ` (at ${tip})` : '') + ` to '${params.newName}', removing '${params.name}'`
+          : `Delete branch '${params.name}'` + (tip ? ` (at ${tip})` : '') + (params.force ? ' even if it is not merged' : '')
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
     }
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
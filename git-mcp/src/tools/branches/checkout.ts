@@ -1,15 +1,19 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  target: z.string().describe('Branch name, tag, or commit to checkout'),
+  repoPath: repoPathSchema,
+  target: gitArgSchema().describe('Branch name, tag, or commit to checkout'),
   create: z.boolean().optional().default(false).describe('Create new branch'),
   force: z.boolean().optional().default(false).describe('Force checkout (discard local changes)'),
   track: z.boolean().optional().default(true).describe('Set up tracking for remote branch'),
   detach: z.boolean().optional().default(false).describe('Detach HEAD at the commit'),
   merge: z.boolean().optional().default(false).describe('Merge local changes when switching'),
-  orphan: z.boolean().optional().default(false).describe('Create new orphan branch')
+  orphan: z.boolean().optional().default(false).describe('Create new orphan branch'),
+  confirm: confirmSchema
 });
 
 const gitCheckoutTool: ToolDefinition = {
@@ -23,8 +27,36 @@ const gitCheckoutTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git checkout';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    if (params.force) {
+      const dirty = (await git(['status', '--porcelain', '--untracked-files=no'], { cwd: repo.cwd })).stdout.split('\n').filter(Boolean);
+      if (dirty.length > 0) {
+        const refusal = await enforcePolicy(repo.root!, {
+          operation: 'discard-changes',
+          target: params.target,
+          description: `Force checkout of '${params.target}', discarding uncommitted changes in ${dirty.length} file(s): ${dirty.map(line => line.slice(3)).join(', ')}`
+        }, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+    }
+    
+    const args: string[] = ['checkout'];
     
     // Handle different checkout modes
     if (params.create) {
@@ -41,19 +73,15 @@ const gitCheckoutTool: ToolDefinition = {
     // Add target
     args.push(params.target);
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
       // Get current branch info
-      const currentBranch = execSync('git branch --show-current', { encoding: 'utf-8' }).trim();
-      const status = execSync('git status --short', { encoding: 'utf-8' });
+      const currentBranch = (await git(['branch', '--show-current'], { cwd: repo.cwd })).stdout.trim();
+      const status = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
       
       let message = '';
       if (params.create) {
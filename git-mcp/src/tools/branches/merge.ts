@@ -1,16 +1,20 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  branch: z.string().describe('Branch to merge into current branch'),
+  repoPath: repoPathSchema,
+  branch: gitArgSchema().describe('Branch to merge into current branch'),
   noCommit: z.boolean().optional().default(false).describe('Perform merge but do not commit'),
   noFf: z.boolean().optional().default(false).describe('Create merge commit even for fast-forward'),
   ffOnly: z.boolean().optional().default(false).describe('Refuse to merge unless fast-forward'),
   squash: z.boolean().optional().default(false).describe('Squash commits into single commit'),
   strategy: z.string().optional().describe('Merge strategy (recursive, ours, theirs, etc.)'),
   message: z.string().optional().describe('Custom merge commit message'),
-  abort: z.boolean().optional().default(false).describe('Abort current merge')
+  abort: z.boolean().optional().default(false).describe('Abort current merge'),
+  confirm: confirmSchema
 });
 
 const gitMergeTool: ToolDefinition = {
@@ -24,10 +28,20 @@ const gitMergeTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
     // Handle merge abort
     if (params.abort) {
       try {
-        execSync('git merge --abort', { encoding: 'utf-8' });
+        await git(['merge', '--abort'], { cwd: repo.cwd });
         return {
           content: [
             {
@@ -48,8 +62,26 @@ const gitMergeTool: ToolDefinition = {
       }
     }
     
-    let command = 'git merge';
-    const args: string[] = [];
+    // Merges that stop before committing leave the branch itself untouched
+    const branch = params.noCommit || params.squash ? null : await currentBranch(repo.cwd!);
+    if (branch) {
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: 'branch-update',
+        target: branch,
+        branches: [branch],
+        description: `Merge '${params.branch}' into '${branch}'`
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
+    }
+    
+    const args: string[] = ['merge'];
     
     if (params.noCommit) args.push('--no-commit');
     if (params.noFf) args.push('--no-ff');
@@ -59,20 +91,16 @@ const gitMergeTool: ToolDefinition = {
     if (params.message) args.push('-m', params.message);
     
     // Add branch to merge
-    args.push(params.branch);
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
+    args.push(END_OF_OPTIONS, params.branch);
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer
       });
       
       // Get merge status
-      const status = execSync('git status --short', { encoding: 'utf-8' });
+      const status = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
       
       let message = output || 'Merge completed successfully';
       
@@ -96,12 +124,12 @@ const gitMergeTool: ToolDefinition = {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       if (errorMessage.includes('CONFLICT')) {
-        const conflicts = execSync('git diff --name-only --diff-filter=U', { encoding: 'utf-8' });
+        const conflicts = (await git(['diff', '--name-only', '--diff-filter=U'], { cwd: repo.cwd })).stdout;
         return {
           content: [
             {
               type: 'text',
-              text: `Merge conflict in:\n${conflicts}\nResolve conflicts, stage changes, and commit. Or use abort=true to cancel.`
+              text: `Merge conflict in:\n${conflicts}\nInspect them with git_conflicts_list, resolve with git_conflicts_resolve, then commit. Or use abort=true to cancel.`
             }
           ]
         };
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { git } from '../../utils/git.js';
+import gitRebaseTool from './rebase.js';
+
+/**
+ * Create a repository on branch "work" with a base commit and two commits on top
+ */
+async function createRepo(): Promise<string> {
+  const dir = realpathSync(mkdtempSync(path.join(tmpdir(), 'git-mcp-rebase-')));
+  await git(['init', '--quiet', '--initial-branch=work'], { cwd: dir });
+  await git(['config', 'user.name', 'Test'], { cwd: dir });
+  await git(['config', 'user.email', 'test@example.com'], { cwd: dir });
+  for (const name of ['base', 'one', 'two']) {
+    writeFileSync(path.join(dir, `${name}.txt`), `${name}\n`);
+    await git(['add', `${name}.txt`], { cwd: dir });
+    await git(['commit', '--quiet', '-m', `add ${name}`], { cwd: dir });
+  }
+  return dir;
+}
+
+test('reword messages keep lines starting with #', async (t) => {
+  const dir = await createRepo();
+  const allowedRoots = process.env.GIT_MCP_ALLOWED_ROOTS;
+  process.env.GIT_MCP_ALLOWED_ROOTS = dir;
+  t.after(() => {
+    if (allowedRoots === undefined) {
+      delete process.env.GIT_MCP_ALLOWED_ROOTS;
+    } else {
+      process.env.GIT_MCP_ALLOWED_ROOTS = allowedRoots;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const result = await gitRebaseTool.handler({
+    repoPath: dir,
+    onto: 'HEAD~2',
+    interactive: true,
+    plan: [
+      { action: 'reword', commit: 'HEAD~1', message: 'fix: x\n\n#9 issue ref\n' },
+      { action: 'pick', commit: 'HEAD' }
+    ]
+  });
+  assert.match(result.content[0].text, /Rebase completed successfully/);
+
+  const message = (await git(['log', '-1', '--format=%B', 'HEAD~1'], { cwd: dir })).stdout;
+  assert.equal(message.trim(), 'fix: x\n\n#9 issue ref');
+});
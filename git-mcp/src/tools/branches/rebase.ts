@@ -1,21 +1,110 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema, gitPath, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+const planStepSchema = z.object({
+  action: z.enum(['pick', 'reword', 'squash', 'fixup', 'drop', 'edit']).describe('Todo action'),
+  commit: gitArgSchema().describe('Commit hash or reference'),
+  message: z.string().optional().describe('New commit message (required for reword, optional for squash)')
+});
 
 const inputSchema = z.object({
-  onto: z.string().describe('Branch or commit to rebase onto'),
-  branch: z.string().optional().describe('Branch to rebase (default: current branch)'),
-  interactive: z.boolean().optional().default(false).describe('Interactive rebase'),
+  repoPath: repoPathSchema,
+  onto: gitArgSchema().optional().describe('Branch or commit to rebase onto (required unless continuing, aborting or skipping)'),
+  branch: gitArgSchema().optional().describe('Branch to rebase (default: current branch)'),
+  interactive: z.boolean().optional().default(false).describe('Interactive rebase (requires a plan)'),
+  plan: z.array(planStepSchema).optional().describe('Explicit todo list, oldest commit first. Every commit after onto must be listed; use drop to remove one'),
   continue: z.boolean().optional().default(false).describe('Continue after resolving conflicts'),
   abort: z.boolean().optional().default(false).describe('Abort current rebase'),
   skip: z.boolean().optional().default(false).describe('Skip current commit'),
   autosquash: z.boolean().optional().default(false).describe('Auto-squash fixup commits'),
-  preserveMerges: z.boolean().optional().default(false).describe('Preserve merge commits')
+  preserveMerges: z.boolean().optional().default(false).describe('Preserve merge commits'),
+  confirm: confirmSchema
 });
 
+// Plan files live in the git directory so they survive a conflict and a later continue
+const PLAN_DIR = 'mcp-rebase-plan';
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+async function writeTodo(cwd: string, plan: z.infer<typeof planStepSchema>[]): Promise<string> {
+  const planDir = await gitPath(cwd, PLAN_DIR);
+  await rm(planDir, { recursive: true, force: true });
+  await mkdir(planDir, { recursive: true });
+
+  const lines: string[] = [];
+
+  for (const [index, step] of plan.entries()) {
+    const resolved = await runGit(['rev-parse', '--verify', '--quiet', `${step.commit}^{commit}`], { cwd });
+    if (resolved.exitCode !== 0) {
+      throw new Error(`Unknown commit '${step.commit}'`);
+    }
+    const hash = resolved.stdout.trim();
+
+    if (!step.message) {
+      lines.push(`${step.action} ${hash}`);
+      continue;
+    }
+
+    const messageFile = path.join(planDir, `message-${index + 1}`);
+    await writeFile(messageFile, step.message);
+
+    // Amending right after the step keeps messages out of GIT_EDITOR,
+    // which is not available again when the rebase is continued later
+    lines.push(`${step.action === 'squash' ? 'fixup' : 'pick'} ${hash}`);
+    lines.push(`exec git commit --amend --no-verify --allow-empty --cleanup=whitespace --file=${shellQuote(messageFile)}`);
+  }
+
+  const todoFile = path.join(planDir, 'todo');
+  await writeFile(todoFile, lines.join('\n') + '\n');
+  return todoFile;
+}
+
+async function cleanupPlan(cwd: string): Promise<void> {
+  const planDir = await gitPath(cwd, PLAN_DIR);
+  await rm(planDir, { recursive: true, force: true });
+}
+
+/**
+ * Describe where an in-progress rebase stopped, or null when no rebase is running
+ */
+async function describeRebaseState(cwd: string): Promise<string | null> {
+  const stateDir = await gitPath(cwd, 'rebase-merge');
+  if (!existsSync(stateDir)) {
+    return null;
+  }
+
+  const read = (name: string) => readFile(path.join(stateDir, name), 'utf-8').then(text => text.trim()).catch(() => '');
+  const step = await read('msgnum');
+  const total = await read('end');
+  const done = (await read('done')).split('\n').filter(line => line && !line.startsWith('#'));
+  const current = done[done.length - 1];
+  const conflicts = (await runGit(['diff', '--name-only', '--diff-filter=U'], { cwd })).stdout.trim();
+
+  let message = `Rebase stopped at step ${step || '?'}/${total || '?'}`;
+  if (current) {
+    message += `: ${current}`;
+  }
+
+  if (conflicts) {
+    message += `\n\nConflicted files:\n${conflicts}\n\nResolve them with git_conflicts_list and git_conflicts_resolve, then use continue=true (or skip=true / abort=true)`;
+  } else {
+    message += '\n\nMake any changes, stage them, then use continue=true (or abort=true)';
+  }
+
+  return message;
+}
+
 const gitRebaseTool: ToolDefinition = {
   name: 'rebase',
-  description: 'Reapply commits on top of another base tip',
+  description: 'Reapply commits on top of another base tip, optionally following an explicit todo plan',
   category: 'git',
   subcategory: 'branches',
   version: '1.0.0',
@@ -24,21 +113,56 @@ const gitRebaseTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
     // Handle rebase operations
-    if (params.continue) {
+    if (params.continue || params.skip) {
+      const operation = params.continue ? '--continue' : '--skip';
+      
       try {
-        const output = execSync('git rebase --continue', { encoding: 'utf-8' });
+        const output = (await git(['rebase', operation], { cwd })).stdout;
+        const state = await describeRebaseState(cwd);
+        
+        if (state) {
+          return {
+            content: [{
+              type: 'text',
+              text: state
+            }]
+          };
+        }
+        
+        await cleanupPlan(cwd);
         return {
           content: [{
             type: 'text',
-            text: 'Rebase continued successfully\n' + output
+            text: (params.continue ? 'Rebase continued successfully\n' : 'Skipped current commit\n') + output
           }]
         };
       } catch (error) {
+        const state = await describeRebaseState(cwd);
+        if (state) {
+          return {
+            content: [{
+              type: 'text',
+              text: state
+            }]
+          };
+        }
+        
         return {
           content: [{
             type: 'text',
-            text: `Error continuing rebase: ${error instanceof Error ? error.message : String(error)}`
+            text: `Error ${params.continue ? 'continuing rebase' : 'skipping commit'}: ${error instanceof Error ? error.message : String(error)}`
           }]
         };
       }
@@ -46,7 +170,8 @@ const gitRebaseTool: ToolDefinition = {
     
     if (params.abort) {
       try {
-        execSync('git rebase --abort', { encoding: 'utf-8' });
+        await git(['rebase', '--abort'], { cwd });
+        await cleanupPlan(cwd);
         return {
           content: [{
             type: 'text',
@@ -63,63 +188,126 @@ const gitRebaseTool: ToolDefinition = {
       }
     }
     
-    if (params.skip) {
-      try {
-        const output = execSync('git rebase --skip', { encoding: 'utf-8' });
+    if (!params.onto) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: onto is required to start a rebase'
+        }]
+      };
+    }
+    
+    // Interactive rebase needs an explicit plan since there is no editor
+    if (params.interactive && !params.plan) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: Interactive rebase requires a plan (list of {action, commit, message?})'
+        }]
+      };
+    }
+    
+    if (params.plan) {
+      const invalid = params.plan.find(step =>
+        (step.action === 'reword' && !step.message) ||
+        (step.message && step.action !== 'reword' && step.action !== 'squash')
+      );
+      
+      if (invalid) {
         return {
           content: [{
             type: 'text',
-            text: 'Skipped current commit\n' + output
+            text: invalid.action === 'reword'
+              ? `Error: reword of '${invalid.commit}' requires a message`
+              : `Error: message is only supported for reword and squash (got ${invalid.action} '${invalid.commit}')`
           }]
         };
-      } catch (error) {
+      }
+    }
+    
+    // Resolve onto up front, relative refs like HEAD~3 move once the rebase runs
+    const ontoCommit = (await runGit(['rev-parse', '--verify', '--quiet', END_OF_OPTIONS, `${params.onto}^{commit}`], { cwd })).stdout.trim();
+    
+    const rebased = params.branch || await currentBranch(cwd);
+    if (rebased) {
+      const count = (await runGit(['rev-list', '--count', END_OF_OPTIONS, `${params.onto}..${rebased}`], { cwd })).stdout.trim() || '0';
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: 'history-rewrite',
+        target: rebased,
+        branches: [rebased],
+        description: `Rebase '${rebased}' onto ${params.onto}, rewriting ${count} commit(s)`
+      }, params.confirm);
+      if (refusal) {
         return {
           content: [{
             type: 'text',
-            text: `Error skipping commit: ${error instanceof Error ? error.message : String(error)}`
+            text: refusal
           }]
         };
       }
     }
     
-    // Interactive rebase not supported in non-TTY
-    if (params.interactive) {
-      return {
-        content: [{
-          type: 'text',
-          text: 'Error: Interactive rebase is not supported in this environment'
-        }]
-      };
-    }
+    const args: string[] = ['rebase'];
+    const env: Record<string, string> = {};
     
-    let command = 'git rebase';
-    const args: string[] = [];
+    if (params.plan) {
+      try {
+        const todoFile = await writeTodo(cwd, params.plan);
+        env.GIT_SEQUENCE_EDITOR = `cp ${shellQuote(todoFile)}`;
+      } catch (error) {
+        await cleanupPlan(cwd);
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Invalid plan: ${error instanceof Error ? error.message : String(error)}`
+          }]
+        };
+      }
+      
+      args.unshift('-c', 'rebase.missingCommitsCheck=error');
+      args.push('--interactive');
+    } else if (params.autosquash) {
+      args.push('--autosquash');
+    }
     
-    if (params.autosquash) args.push('--autosquash');
     if (params.preserveMerges) args.push('--preserve-merges');
     
     // Add onto target
-    args.push(params.onto);
+    args.push(END_OF_OPTIONS, params.onto);
     
     // Add branch if specified
     if (params.branch) {
       args.push(params.branch);
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd,
+        env,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer
       });
       
-      const status = execSync('git status --short', { encoding: 'utf-8' });
+      // An edit step stops the rebase without failing
+      const state = await describeRebaseState(cwd);
+      if (state) {
+        return {
+          content: [{
+            type: 'text',
+            text: state
+          }]
+        };
+      }
+      
+      await cleanupPlan(cwd);
+      const status = (await git(['status', '--short'], { cwd })).stdout;
       
       let message = output || 'Rebase completed successfully';
       
+      if (params.plan) {
+        const commits = ontoCommit ? (await git(['log', '--oneline', `${ontoCommit}..HEAD`], { cwd })).stdout : '';
+        message = 'Rebase completed successfully\n\nResulting commits:\n' + (commits || '(none)');
+      }
+      
       if (status) {
         message += '\n\nCurrent status:\n' + status;
       }
@@ -135,18 +323,34 @@ const gitRebaseTool: ToolDefinition = {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
-      if (errorMessage.includes('CONFLICT')) {
-        const conflicts = execSync('git diff --name-only --diff-filter=U', { encoding: 'utf-8' });
+      if (errorMessage.includes('dropped accidentally')) {
+        await runGit(['rebase', '--abort'], { cwd });
+        await cleanupPlan(cwd);
+        const dropped = errorMessage.split('\n').filter(line => line.startsWith(' - ')).join('\n');
         return {
           content: [
             {
               type: 'text',
-              text: `Rebase conflict in:\n${conflicts}\nResolve conflicts, stage changes, then use continue=true`
+              text: `Error: The plan does not list every commit, rebase was not started. Add these commits (use action "drop" to remove them):\n${dropped}`
             }
           ]
         };
       }
       
+      const state = await describeRebaseState(cwd);
+      if (state) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: state
+            }
+          ]
+        };
+      }
+      
+      await cleanupPlan(cwd);
+      
       if (errorMessage.includes('There is no tracking information')) {
         return {
           content: [
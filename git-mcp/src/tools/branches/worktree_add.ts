@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import path from 'path';
+import { ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { isWithinAllowedRoots, repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { findWorktree, listWorktrees } from '../../utils/worktrees.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  path: gitArgSchema().describe('Directory for the new worktree (relative paths are resolved against repoPath)'),
+  branch: gitArgSchema().optional().describe('Existing branch to check out in the worktree'),
+  newBranch: gitArgSchema().optional().describe('Create this branch for the worktree (from startPoint)'),
+  startPoint: gitArgSchema().optional().describe('Commit or branch to start from (default: HEAD)'),
+  detach: z.boolean().optional().default(false).describe('Check out startPoint with a detached HEAD'),
+  force: z.boolean().optional().default(false).describe('Allow checking out a branch already used by another worktree'),
+  lock: z.boolean().optional().default(false).describe('Lock the worktree so it is not pruned'),
+  lockReason: z.string().optional().describe('Reason recorded when locking')
+});
+
+const gitWorktreeAddTool: ToolDefinition = {
+  name: 'worktree_add',
+  description: 'Create a new worktree so another branch can be worked on without touching the current checkout',
+  category: 'git',
+  subcategory: 'branches',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    if (params.branch && (params.newBranch || params.detach)) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: branch cannot be combined with newBranch or detach'
+        }]
+      };
+    }
+    
+    const targetPath = path.resolve(cwd, params.path);
+    if (!isWithinAllowedRoots(targetPath)) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Worktree path '${targetPath}' is outside the allowed roots. Configure GIT_MCP_ALLOWED_ROOTS to allow it.`
+        }]
+      };
+    }
+    
+    const args: string[] = ['worktree', 'add'];
+    
+    if (params.newBranch) args.push('-b', params.newBranch);
+    if (params.detach) args.push('--detach');
+    if (params.force) args.push('--force');
+    if (params.lock) args.push('--lock');
+    if (params.lock && params.lockReason) args.push('--reason', params.lockReason);
+    
+    args.push(targetPath);
+    
+    if (params.branch) {
+      args.push(params.branch);
+    } else if (params.startPoint) {
+      args.push(params.startPoint);
+    }
+    
+    try {
+      await git(args, { cwd });
+      
+      const worktree = findWorktree(await listWorktrees(cwd), targetPath);
+      
+      let message = `Created worktree at ${targetPath}`;
+      if (worktree?.branch) {
+        message += ` on branch '${worktree.branch}'`;
+      } else if (worktree?.head) {
+        message += ` at ${worktree.head.substring(0, 7)} (detached HEAD)`;
+      }
+      message += `\n\nPass repoPath: "${targetPath}" to other git tools to work in it.`;
+      
+      if (worktree) {
+        message += '\n\n' + JSON.stringify(worktree, null, 2);
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      if (errorMessage.includes('is already checked out') || errorMessage.includes('is already used by worktree')) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Branch '${params.branch}' is already checked out in another worktree. Use newBranch to create a branch, or force=true.`
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git worktree add: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitWorktreeAddTool;
\ No newline at end of file
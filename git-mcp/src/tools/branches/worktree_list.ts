@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { listWorktrees } from '../../utils/worktrees.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema
+});
+
+const gitWorktreeListTool: ToolDefinition = {
+  name: 'worktree_list',
+  description: 'List worktrees with their path, HEAD, branch and locked/prunable state',
+  category: 'git',
+  subcategory: 'branches',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    try {
+      const worktrees = await listWorktrees(repo.cwd!, repo.root);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(worktrees, null, 2)
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git worktree list: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitWorktreeListTool;
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { git } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  dryRun: z.boolean().optional().default(false).describe('Only report what would be pruned'),
+  expire: z.string().optional().describe('Only prune worktrees older than this (e.g. "2.weeks.ago")')
+});
+
+const gitWorktreePruneTool: ToolDefinition = {
+  name: 'worktree_prune',
+  description: 'Prune administrative data of worktrees whose directories no longer exist',
+  category: 'git',
+  subcategory: 'branches',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['worktree', 'prune', '--verbose'];
+    if (params.dryRun) args.push('--dry-run');
+    if (params.expire) args.push('--expire', params.expire);
+    
+    try {
+      const { stdout, stderr } = await git(args, { cwd: repo.cwd });
+      
+      // prune --verbose reports on stderr
+      const output = (stdout + stderr).trim();
+      
+      return {
+        content: [{
+          type: 'text',
+          text: output
+            ? (params.dryRun ? 'Would prune:\n' : 'Pruned:\n') + output
+            : 'Nothing to prune'
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git worktree prune: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitWorktreePruneTool;
\ No newline at end of file
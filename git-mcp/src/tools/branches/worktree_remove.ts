@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import path from 'path';
+import { ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { findWorktree, listWorktrees } from '../../utils/worktrees.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  path: gitArgSchema().describe('Worktree directory to remove (relative paths are resolved against repoPath)'),
+  force: z.boolean().optional().default(false).describe('Remove even with uncommitted changes or when locked'),
+  confirm: confirmSchema
+});
+
+const gitWorktreeRemoveTool: ToolDefinition = {
+  name: 'worktree_remove',
+  description: 'Remove a worktree and its administrative files',
+  category: 'git',
+  subcategory: 'branches',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    const targetPath = path.resolve(cwd, params.path);
+    
+    try {
+      const worktree = findWorktree(await listWorktrees(cwd), targetPath);
+      
+      if (!worktree) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: '${targetPath}' is not a worktree of this repository`
+          }]
+        };
+      }
+      
+      if (params.force) {
+        const dirty = (await git(['status', '--porcelain'], { cwd: worktree.path })).stdout.split('\n').filter(Boolean);
+        const refusal = await enforcePolicy(repo.root!, {
+          operation: 'worktree-force-remove',
+          target: worktree.path,
+          branches: worktree.branch ? [worktree.branch] : [],
+          description: `Force-remove worktree ${worktree.path}` +
+            (dirty.length > 0 ? `, discarding ${dirty.length} uncommitted change(s)` : '') +
+            (worktree.locked ? ' even though it is locked' : '')
+        }, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+      
+      const args: string[] = ['worktree', 'remove'];
+      if (params.force) {
+        // A second --force is needed to remove locked worktrees
+        args.push('--force');
+        if (worktree.locked) args.push('--force');
+      }
+      args.push(worktree.path);
+      
+      // Run from the repository root so removing the worktree we are in still works
+      await git(args, { cwd: repo.root });
+      
+      let message = `Removed worktree ${worktree.path}`;
+      if (worktree.branch) {
+        message += `\nBranch '${worktree.branch}' was kept; delete it with git_branch if no longer needed.`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      if (errorMessage.includes('contains modified or untracked files')) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Worktree '${targetPath}' has uncommitted changes. Use force=true to remove it anyway.`
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('locked working tree')) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Worktree '${targetPath}' is locked. Use force=true to remove it anyway.`
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git worktree remove: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitWorktreeRemoveTool;
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { GitBisectState, GitCommit, ToolDefinition } from '../../types.js';
+import { git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { COMMIT_JSON_FORMAT, parseBisectOutput, parseCommits } from '../../utils/parsers.js';
+
+const RUN_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+const MAX_RUN_OUTPUT = 4000;
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  action: z.enum(['start', 'good', 'bad', 'skip', 'run', 'reset', 'log']).describe('Bisect step'),
+  bad: gitArgSchema().optional().describe('Known bad commit when starting (default: HEAD)'),
+  good: z.array(gitArgSchema()).optional().describe('Known good commits when starting'),
+  revs: z.array(gitArgSchema()).optional().describe('Commits to mark for good/bad/skip (default: the commit being tested)'),
+  paths: z.array(gitArgSchema()).optional().describe('Only consider commits touching these paths (start)'),
+  firstParent: z.boolean().optional().default(false).describe('Follow only the first parent of merge commits (start)'),
+  command: z.array(z.string()).optional().describe('Test command and arguments for run; exit 0 = good, 125 = skip, other = bad'),
+  timeout: z.number().optional().default(RUN_TIMEOUT).describe('Timeout in milliseconds for run (default: 10 minutes)'),
+  rev: gitArgSchema().optional().describe('Commit to check out when resetting (default: where bisect started)')
+});
+
+const gitBisectTool: ToolDefinition = {
+  name: 'bisect',
+  description: 'Binary search for the commit that introduced a bug, marking commits manually or with a test command',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    const args: string[] = ['bisect', params.action];
+    
+    switch (params.action) {
+      case 'start':
+        if (params.firstParent) args.push('--first-parent');
+        args.push(params.bad || 'HEAD', ...(params.good || []));
+        if (params.paths) args.push('--', ...params.paths);
+        break;
+      
+      case 'good':
+      case 'bad':
+      case 'skip':
+        args.push(...(params.revs || []));
+        break;
+      
+      case 'run':
+        if (!params.command || params.command.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: 'Error: command is required for run action'
+            }]
+          };
+        }
+        args.push(...params.command);
+        break;
+      
+      case 'reset':
+        if (params.rev) args.push(params.rev);
+        break;
+    }
+    
+    try {
+      if (params.action === 'log' || params.action === 'reset') {
+        const { stdout: output } = await git(args, { cwd });
+        return {
+          content: [{
+            type: 'text',
+            text: params.action === 'log' ? output : `Bisect session ended\n${output}`.trim()
+          }]
+        };
+      }
+      
+      let output: string;
+      if (params.action === 'run') {
+        const result = await runGit(args, {
+          cwd,
+          timeout: params.timeout,
+          maxBuffer: 1024 * 1024 * 50, // 50MB buffer
+          // The test command runs under git; a timeout has to stop it as well
+          processGroup: true
+        });
+        output = result.stdout + result.stderr;
+        
+        if (result.timedOut) {
+          throw new Error(`bisect run timed out after ${params.timeout}ms. The session is still active; use action=log to see progress or action=reset to end it.`);
+        }
+        if (result.exitCode !== 0 && parseBisectOutput(output).status !== 'found') {
+          throw new Error(`bisect run failed (exit code ${result.exitCode})\n${output.slice(-MAX_RUN_OUTPUT)}`);
+        }
+      } else {
+        const result = await git(args, { cwd });
+        output = result.stdout + result.stderr;
+      }
+      
+      const state: GitBisectState & { commit?: GitCommit; output?: string; hint?: string } = parseBisectOutput(output);
+      
+      if (state.status === 'found' && state.firstBad) {
+        const { stdout: show } = await git(['show', '-s', `--format=${COMMIT_JSON_FORMAT}`, state.firstBad], { cwd });
+        state.commit = parseCommits(show)[0];
+      }
+      
+      if (params.action === 'run') {
+        state.output = output.length > MAX_RUN_OUTPUT ? '...' + output.slice(-MAX_RUN_OUTPUT) : output;
+      }
+      
+      switch (state.status) {
+        case 'waiting':
+          state.hint = 'Mark known good and bad commits to begin bisecting.';
+          break;
+        case 'bisecting':
+          state.hint = 'Test the checked out commit, then use action good, bad or skip (or run with a test command).';
+          break;
+        default:
+          state.hint = 'Use action=reset to end the bisect session.';
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(state, null, 2)
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      if (errorMessage.includes('You need to start by') || errorMessage.includes('We are not bisecting')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: No bisect session in progress. Use action=start first.'
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git bisect: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitBisectTool;
\ No newline at end of file
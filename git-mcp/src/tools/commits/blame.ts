@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { parseBlamePorcelain } from '../../utils/parsers.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  path: gitArgSchema().describe('File to blame'),
+  startLine: z.number().int().positive().optional().describe('First line to blame (1-based)'),
+  endLine: z.number().int().positive().optional().describe('Last line to blame (inclusive, default: end of file or startLine)'),
+  function: z.string().optional().describe('Blame the function matching this name/regex instead of a line range'),
+  rev: gitArgSchema().optional().describe('Blame the file as of this revision (default: working tree)'),
+  ignoreRevsFile: gitArgSchema().optional().describe('File listing revisions to ignore (e.g. .git-blame-ignore-revs)'),
+  ignoreRevs: z.array(gitArgSchema()).optional().describe('Revisions to ignore, such as formatting commits'),
+  ignoreWhitespace: z.boolean().optional().default(false).describe('Ignore whitespace changes'),
+  detectMoves: z.boolean().optional().default(false).describe('Follow lines moved or copied within and between files')
+});
+
+const gitBlameTool: ToolDefinition = {
+  name: 'blame',
+  description: 'Show who last changed each line of a file (or a line range/function) and in which commit',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    if (params.function && (params.startLine || params.endLine)) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: Use either function or startLine/endLine, not both'
+        }]
+      };
+    }
+    
+    const args: string[] = ['blame', '--porcelain'];
+    
+    if (params.function) {
+      args.push('-L', `:${params.function}`);
+    } else if (params.startLine || params.endLine) {
+      const start = params.startLine || 1;
+      args.push('-L', params.endLine ? `${start},${params.endLine}` : `${start},`);
+    }
+    
+    if (params.ignoreRevsFile) {
+      args.push('--ignore-revs-file', params.ignoreRevsFile);
+    }
+    for (const rev of params.ignoreRevs || []) {
+      args.push('--ignore-rev', rev);
+    }
+    
+    if (params.ignoreWhitespace) args.push('-w');
+    if (params.detectMoves) args.push('-M', '-C');
+    
+    if (params.rev) args.push(params.rev);
+    args.push('--', params.path);
+    
+    try {
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+      });
+      
+      const { commits, lines } = parseBlamePorcelain(output);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ path: params.path, rev: params.rev || null, commits, lines }, null, 2)
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git blame: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitBlameTool;
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { END_OF_OPTIONS, git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { COMMIT_JSON_FORMAT, parseCommits } from '../../utils/parsers.js';
+import { buildChangelog, remoteWebUrl, renderChangelogMarkdown } from '../../utils/changelog.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  from: gitArgSchema().optional().describe('Start of the range, exclusive (default: latest tag reachable from "to")'),
+  to: gitArgSchema().optional().default('HEAD').describe('End of the range (default: HEAD)'),
+  title: z.string().optional().describe('Release title (default: tag name or "to")'),
+  format: z.enum(['markdown', 'json']).optional().default('markdown').describe('Output format'),
+  repoUrl: z.string().optional().describe('Repository web URL for commit and PR links (default: derived from the origin remote)'),
+  jiraUrl: z.string().optional().describe('Jira base URL for issue links (default: JIRA_BASE_URL)'),
+  includeMerges: z.boolean().optional().default(false).describe('Include merge commits'),
+  tag: gitArgSchema().optional().describe('Create an annotated tag on "to" with the Markdown notes as its message')
+});
+
+const gitChangelogTool: ToolDefinition = {
+  name: 'changelog',
+  description: 'Generate release notes between two refs, grouped by Conventional Commits type with breaking changes, PRs and issue keys',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    try {
+      let from: string | null = params.from ?? null;
+      if (!from) {
+        // The latest tag before "to"; when "to" is itself tagged, start from the tag before it
+        const described = await runGit(['describe', '--tags', '--abbrev=0', params.to], { cwd });
+        from = described.exitCode === 0 ? described.stdout.trim() : null;
+        
+        const resolve = async (ref: string) => (await runGit(['rev-parse', `${ref}^{commit}`], { cwd })).stdout.trim();
+        if (from && await resolve(from) === await resolve(params.to)) {
+          const previous = await runGit(['describe', '--tags', '--abbrev=0', `${params.to}^`], { cwd });
+          from = previous.exitCode === 0 ? previous.stdout.trim() : null;
+        }
+      }
+      
+      if (params.tag) {
+        const existing = await runGit(['rev-parse', '--verify', '-q', `refs/tags/${params.tag}`], { cwd });
+        if (existing.exitCode === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: Tag '${params.tag}' already exists`
+            }]
+          };
+        }
+      }
+      
+      const args: string[] = ['log', `--format=${COMMIT_JSON_FORMAT}`];
+      if (!params.includeMerges) args.push('--no-merges');
+      args.push(END_OF_OPTIONS, from ? `${from}..${params.to}` : params.to, '--');
+      
+      const { stdout: output } = await git(args, {
+        cwd,
+        maxBuffer: 1024 * 1024 * 50 // 50MB buffer
+      });
+      
+      const date = (await git(['log', '-1', '--format=%cs', params.to], { cwd })).stdout.trim();
+      const changelog = buildChangelog(parseCommits(output), {
+        from,
+        to: params.to,
+        title: params.title || params.tag || params.to,
+        date
+      });
+      
+      let repoUrl = params.repoUrl;
+      if (!repoUrl) {
+        const remote = await runGit(['remote', 'get-url', 'origin'], { cwd });
+        repoUrl = remote.exitCode === 0 ? remoteWebUrl(remote.stdout) : undefined;
+      }
+      
+      const markdown = renderChangelogMarkdown(changelog, {
+        repoUrl: repoUrl?.replace(/\/$/, ''),
+        jiraUrl: params.jiraUrl || process.env.JIRA_BASE_URL
+      });
+      
+      let message = params.format === 'json' ? JSON.stringify(changelog, null, 2) : markdown;
+      
+      if (params.tag) {
+        // Verbatim cleanup keeps the Markdown headings, which would otherwise be stripped as comments
+        await git(['tag', '-a', params.tag, '--file=-', '--cleanup=verbatim', params.to], { cwd, input: markdown });
+        message += `\n\nCreated annotated tag '${params.tag}' on ${params.to} with these notes`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error generating changelog: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitChangelogTool;
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { END_OF_OPTIONS, git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { listConflictedPaths } from '../../utils/conflicts.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  commits: z.array(gitArgSchema()).optional().describe('Commits or ranges (e.g. "abc123", "main~3..main") to apply, oldest first'),
+  recordOrigin: z.boolean().optional().default(false).describe('Append "(cherry picked from commit ...)" to the message (-x)'),
+  mainline: z.number().int().positive().optional().describe('Parent number to diff against when picking merge commits'),
+  noCommit: z.boolean().optional().default(false).describe('Apply the changes to the index and working tree without committing'),
+  allowEmpty: z.boolean().optional().default(false).describe('Keep commits that become empty'),
+  continue: z.boolean().optional().default(false).describe('Continue after resolving conflicts'),
+  skip: z.boolean().optional().default(false).describe('Skip the current commit and continue'),
+  abort: z.boolean().optional().default(false).describe('Abort and return to the pre-cherry-pick state'),
+  confirm: confirmSchema
+});
+
+const gitCherryPickTool: ToolDefinition = {
+  name: 'cherry_pick',
+  description: 'Apply the changes introduced by existing commits onto the current branch',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    const args: string[] = ['cherry-pick'];
+    
+    if (params.abort) {
+      args.push('--abort');
+    } else if (params.continue) {
+      args.push('--continue');
+    } else if (params.skip) {
+      args.push('--skip');
+    } else {
+      if (!params.commits || params.commits.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: commits is required unless using continue, skip or abort'
+          }]
+        };
+      }
+      
+      if (params.recordOrigin) args.push('-x');
+      if (params.mainline) args.push('--mainline', String(params.mainline));
+      if (params.noCommit) args.push('--no-commit');
+      if (params.allowEmpty) args.push('--allow-empty');
+      args.push(END_OF_OPTIONS, ...params.commits);
+      
+      const branch = params.noCommit ? null : await currentBranch(cwd);
+      if (branch) {
+        const refusal = await enforcePolicy(repo.root!, {
+          operation: 'branch-update',
+          target: branch,
+          branches: [branch],
+          description: `Cherry-pick ${params.commits.join(', ')} onto '${branch}'`
+        }, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+    }
+    
+    const before = (await runGit(['rev-parse', 'HEAD'], { cwd })).stdout.trim();
+    
+    try {
+      await git(args, {
+        cwd,
+        maxBuffer: 1024 * 1024 * 50 // 50MB buffer
+      });
+      
+      if (params.abort) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Cherry-pick aborted successfully'
+          }]
+        };
+      }
+      
+      let message = 'Cherry-pick completed successfully';
+      
+      if (params.noCommit) {
+        const status = (await git(['status', '--short'], { cwd })).stdout;
+        message += '\n\nChanges staged for commit. Use git_commit to complete.';
+        if (status) {
+          message += '\n\nCurrent status:\n' + status;
+        }
+      } else if (before) {
+        const applied = (await git(['log', '--oneline', `${before}..HEAD`], { cwd })).stdout;
+        if (applied) {
+          message += '\n\nNew commits:\n' + applied;
+        }
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      if (errorMessage.includes('is already in progress')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: A cherry-pick or revert is already in progress. Finish it with continue=true or cancel it with abort=true.'
+          }]
+        };
+      }
+      
+      const conflicts = await listConflictedPaths(cwd);
+      if (conflicts.size > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Cherry-pick stopped with conflicts in:\n${[...conflicts.keys()].join('\n')}\n\nInspect them with git_conflicts_list, resolve with git_conflicts_resolve, then use continue=true. Or use skip=true to drop this commit, or abort=true to cancel.`
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('is now empty') || errorMessage.includes('nothing to commit')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: The commit being picked is empty on this branch (its changes are already present). Use skip=true to drop it, or pick again with allowEmpty=true.'
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('is a merge but no -m option was given')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: Cannot cherry-pick a merge commit without mainline (usually mainline=1)'
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('no cherry-pick or revert in progress')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: No cherry-pick in progress'
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git cherry-pick: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitCherryPickTool;
\ No newline at end of file
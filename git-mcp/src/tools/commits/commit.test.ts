@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, realpathSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { git } from '../../utils/git.js';
+import gitCommitTool from './commit.js';
+
+test('trailers follow body lines starting with #', async (t) => {
+  const dir = realpathSync(mkdtempSync(path.join(tmpdir(), 'git-mcp-commit-')));
+  await git(['init', '--quiet'], { cwd: dir });
+  const allowedRoots = process.env.GIT_MCP_ALLOWED_ROOTS;
+  process.env.GIT_MCP_ALLOWED_ROOTS = dir;
+  t.after(() => {
+    if (allowedRoots === undefined) {
+      delete process.env.GIT_MCP_ALLOWED_ROOTS;
+    } else {
+      process.env.GIT_MCP_ALLOWED_ROOTS = allowedRoots;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const result = await gitCommitTool.handler({
+    repoPath: dir,
+    message: 'feat: x\n\n#123 keep',
+    trailers: [{ key: 'Refs', value: 'PROJ-12' }],
+    preview: true
+  });
+  const preview = result.content[0].text;
+  assert.match(preview, /^Commit message preview:\n\nfeat: x\n\n#123 keep\n\nRefs: PROJ-12\n/);
+
+  const message = preview.split('\n\n').slice(1, 4).join('\n\n') + '\n';
+  const parsed = (await git(['interpret-trailers', '--parse'], { cwd: dir, input: message })).stdout;
+  assert.equal(parsed, 'Refs: PROJ-12\n');
+});
@@ -1,18 +1,48 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import {
+  CONVENTIONAL_RULES,
+  CommitLintIssue,
+  conventionalHeader,
+  issueKeyFromBranch,
+  lintCommitMessage,
+  loadCommitLintConfig
+} from '../../utils/commitlint.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  message: z.string().describe('Commit message'),
+  repoPath: repoPathSchema,
+  message: z.string().describe('Commit message (the description only when type is set)'),
+  type: z.string().optional().describe('Conventional Commits type (feat, fix, ...); builds the header "type(scope)!: message"'),
+  scope: z.string().optional().describe('Conventional Commits scope (requires type)'),
+  breaking: z.string().optional().describe('Describe a breaking change; adds "!" to the header and a BREAKING-CHANGE trailer (requires type)'),
+  lint: z.enum(['none', 'conventional', 'config']).optional().default('none').describe('Validate the message against Conventional Commits or the repository commitlint JSON config'),
+  coAuthors: z.array(z.string()).optional().describe('Co-authors to credit (format: "Name <email>")'),
+  trailers: z.array(z.object({
+    key: z.string(),
+    value: z.string()
+  })).optional().describe('Extra trailers to append (e.g. Reviewed-by)'),
+  refsFromBranch: z.boolean().optional().default(false).describe('Add a "Refs: KEY-123" trailer for an issue key found in the branch name'),
+  preview: z.boolean().optional().default(false).describe('Show the final message, lint results and staged files without committing'),
   amend: z.boolean().optional().default(false).describe('Amend the previous commit'),
   all: z.boolean().optional().default(false).describe('Automatically stage all modified files'),
   author: z.string().optional().describe('Override author (format: "Name <email>")'),
   date: z.string().optional().describe('Override commit date'),
   noVerify: z.boolean().optional().default(false).describe('Skip pre-commit hooks'),
   signoff: z.boolean().optional().default(false).describe('Add Signed-off-by line'),
-  allowEmpty: z.boolean().optional().default(false).describe('Allow empty commit')
+  allowEmpty: z.boolean().optional().default(false).describe('Allow empty commit'),
+  confirm: confirmSchema
 });
 
+// Control character used as core.commentChar so no line of a message is read as a comment
+const UNUSED_COMMENT_CHAR = '\x01';
+
+function formatIssues(issues: CommitLintIssue[]): string {
+  return issues.map(issue => `${issue.level === 'error' ? '✖' : '⚠'} ${issue.message} [${issue.rule}]`).join('\n');
+}
+
 const gitCommitTool: ToolDefinition = {
   name: 'commit',
   description: 'Record changes to the repository',
@@ -24,11 +54,158 @@ const gitCommitTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git commit';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const cwd = repo.cwd!;
+    
+    if ((params.scope || params.breaking) && !params.type) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: type is required when using scope or breaking'
+        }]
+      };
+    }
+    
+    // Build the final message: conventional header, then trailers
+    let finalMessage = params.message;
+    if (params.type) {
+      const [description, ...body] = params.message.split('\n');
+      finalMessage = [conventionalHeader(params.type, params.scope, Boolean(params.breaking), description.trim()), ...body].join('\n');
+    }
+    
+    const trailers: string[] = [];
+    if (params.breaking) trailers.push(`BREAKING-CHANGE: ${params.breaking}`);
+    for (const coAuthor of params.coAuthors || []) {
+      trailers.push(`Co-authored-by: ${coAuthor}`);
+    }
+    for (const trailer of params.trailers || []) {
+      trailers.push(`${trailer.key}: ${trailer.value}`);
+    }
+    if (params.refsFromBranch) {
+      const branch = (await runGit(['symbolic-ref', '--short', '-q', 'HEAD'], { cwd })).stdout.trim();
+      const issueKey = issueKeyFromBranch(branch);
+      if (issueKey && !finalMessage.toUpperCase().includes(issueKey)) {
+        trailers.push(`Refs: ${issueKey}`);
+      }
+    }
+    
+    try {
+      if (trailers.length > 0) {
+        const trailerArgs = trailers.flatMap(trailer => ['--trailer', trailer]);
+        // interpret-trailers places trailers before trailing comment lines; a comment
+        // character that never occurs in a message keeps # lines as part of the body
+        finalMessage = (await git(['-c', `core.commentChar=${UNUSED_COMMENT_CHAR}`, 'interpret-trailers', '--if-exists', 'addIfDifferent', ...trailerArgs], {
+          cwd,
+          input: finalMessage.replace(/\n*$/, '\n')
+        })).stdout;
+      }
+      finalMessage = (await git(['stripspace'], { cwd, input: finalMessage })).stdout;
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error preparing commit message: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      };
+    }
+    
+    // Lint the final message
+    let issues: CommitLintIssue[] = [];
+    if (params.lint !== 'none') {
+      let rules = CONVENTIONAL_RULES;
+      
+      if (params.lint === 'config') {
+        try {
+          const config = await loadCommitLintConfig(repo.root!);
+          if (!config) {
+            return {
+              content: [{
+                type: 'text',
+                text: 'Error: No commitlint JSON config found (.commitlintrc.json, .commitlintrc, commitlint.config.json or "commitlint" in package.json). Use lint="conventional" instead.'
+              }]
+            };
+          }
+          rules = config.rules;
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            }]
+          };
+        }
+      }
+      
+      issues = lintCommitMessage(finalMessage, rules);
+    }
+    const errors = issues.filter(issue => issue.level === 'error');
+    
+    if (params.preview) {
+      const diffArgs = ['diff', '--stat'];
+      if (!params.all) diffArgs.push('--cached');
+      diffArgs.push(params.amend ? 'HEAD^' : 'HEAD');
+      
+      const staged = await runGit(diffArgs, { cwd });
+      
+      let message = `Commit message preview:\n\n${finalMessage}`;
+      if (params.lint !== 'none') {
+        message += issues.length > 0
+          ? `\nLint (${errors.length} error(s), ${issues.length - errors.length} warning(s)):\n${formatIssues(issues)}\n`
+          : '\nLint: passed\n';
+      }
+      message += staged.exitCode === 0
+        ? `\n${params.all ? 'Files to commit' : 'Staged files'}:\n${staged.stdout || '(none)\n'}`
+        : '\nStaged files: (no previous commit to compare against)\n';
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    }
+    
+    if (errors.length > 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Commit message failed lint:\n${formatIssues(issues)}\n\nMessage:\n${finalMessage}`
+        }]
+      };
+    }
+    
+    if (params.amend) {
+      const branch = await currentBranch(cwd);
+      const head = (await runGit(['log', '-1', '--format=%h %s'], { cwd })).stdout.trim();
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: 'history-rewrite',
+        target: branch || 'HEAD',
+        branches: branch ? [branch] : [],
+        description: `Amend ${head || 'HEAD'}` + (branch ? ` on '${branch}'` : '') + ', replacing the existing commit'
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
+    }
+    
+    const args: string[] = ['commit'];
     
-    // Add message
-    args.push('-m', params.message);
+    // Read the message from stdin; only whitespace is cleaned up, so lines starting with # are kept
+    args.push('--file=-', '--cleanup=whitespace');
     
     // Add flags
     if (params.amend) args.push('--amend');
@@ -41,30 +218,25 @@ const gitCommitTool: ToolDefinition = {
     if (params.author) args.push('--author', params.author);
     if (params.date) args.push('--date', params.date);
     
-    if (args.length > 0) {
-      command += ' ' + args.map(arg => {
-        // Properly escape arguments that contain spaces
-        if (arg.includes(' ') && !arg.startsWith('"')) {
-          return `"${arg}"`;
-        }
-        return arg;
-      }).join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd,
+        input: finalMessage,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
       // Get the commit hash
-      const commitHash = execSync('git rev-parse HEAD', { encoding: 'utf-8' }).trim();
+      const commitHash = (await git(['rev-parse', 'HEAD'], { cwd })).stdout.trim();
       const shortHash = commitHash.substring(0, 7);
       
       let message = params.amend ? 'Commit amended successfully\n' : 'Commit created successfully\n';
       message += `Commit: ${shortHash}\n`;
       message += output;
       
+      if (issues.length > 0) {
+        message += `\nLint warnings:\n${formatIssues(issues)}`;
+      }
+      
       return {
         content: [
           {
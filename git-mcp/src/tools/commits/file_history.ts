@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { END_OF_OPTIONS, git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { COMMIT_WITH_CHANGES_FORMAT, DIFF_JSON_ARGS, parseCommitsWithChanges } from '../../utils/parsers.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  path: gitArgSchema().describe('File whose history to show'),
+  startLine: z.number().int().positive().optional().describe('First line of the range to trace (1-based)'),
+  endLine: z.number().int().positive().optional().describe('Last line of the range to trace (inclusive)'),
+  function: z.string().optional().describe('Trace the function matching this name/regex'),
+  rev: gitArgSchema().optional().default('HEAD').describe('Revision to start from (line numbers refer to the file at this revision)'),
+  maxCount: z.number().int().positive().optional().default(20).describe('Maximum number of commits'),
+  patch: z.boolean().optional().default(false).describe('Include full diffs when tracing the whole file (ranges always include the diff of the range)')
+});
+
+const gitFileHistoryTool: ToolDefinition = {
+  name: 'file_history',
+  description: 'Show how a file, line range or function evolved across commits, following renames',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    if (params.function && (params.startLine || params.endLine)) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: Use either function or startLine/endLine, not both'
+        }]
+      };
+    }
+    
+    const args: string[] = ['log', `--format=${COMMIT_WITH_CHANGES_FORMAT}`, '-n', String(params.maxCount)];
+    const traceRange = Boolean(params.function || params.startLine || params.endLine);
+    
+    if (traceRange) {
+      // -L follows the range across renames by itself and cannot be combined with --follow
+      const range = params.function
+        ? `:${params.function}`
+        : `${params.startLine || 1},${params.endLine ?? ''}`;
+      args.push(...DIFF_JSON_ARGS, '-L', `${range}:${params.path}`, END_OF_OPTIONS, params.rev);
+    } else {
+      args.push('--follow');
+      args.push(...(params.patch ? ['--patch', ...DIFF_JSON_ARGS] : ['--name-status']));
+      args.push(END_OF_OPTIONS, params.rev, '--', params.path);
+    }
+    
+    try {
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+      });
+      
+      const commits = parseCommitsWithChanges(output, traceRange || params.patch ? 'diff' : 'name-status');
+      
+      if (commits.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No history found for '${params.path}'`
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ path: params.path, commits }, null, 2)
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git log: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitFileHistoryTool;
\ No newline at end of file
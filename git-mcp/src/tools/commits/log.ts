@@ -1,8 +1,11 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { COMMIT_JSON_FORMAT, parseCommits } from '../../utils/parsers.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   count: z.number().optional().default(20).describe('Number of commits to show'),
   oneline: z.boolean().optional().default(false).describe('Show each commit on one line'),
   graph: z.boolean().optional().default(false).describe('Show ASCII graph of branch structure'),
@@ -10,8 +13,8 @@ const inputSchema = z.object({
   since: z.string().optional().describe('Show commits since date (e.g., "2 weeks ago")'),
   until: z.string().optional().describe('Show commits until date'),
   grep: z.string().optional().describe('Filter commits by message'),
-  branch: z.string().optional().describe('Show commits from specific branch'),
-  format: z.enum(['full', 'medium', 'short', 'oneline', 'hash']).optional().default('medium').describe('Output format')
+  branch: gitArgSchema().optional().describe('Show commits from specific branch'),
+  format: z.enum(['full', 'medium', 'short', 'oneline', 'hash', 'json']).optional().default('medium').describe('Output format (json returns commits with parents, author and trailers)')
 });
 
 const gitLogTool: ToolDefinition = {
@@ -25,14 +28,25 @@ const gitLogTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git log';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['log'];
     
     // Add count limit
-    args.push(`-n ${params.count}`);
+    args.push('-n', String(params.count));
     
     // Handle format
-    if (params.format === 'hash') {
+    if (params.format === 'json') {
+      args.push(`--format=${COMMIT_JSON_FORMAT}`);
+    } else if (params.format === 'hash') {
       args.push('--pretty=format:%H');
     } else if (params.format === 'oneline' || params.oneline) {
       args.push('--oneline');
@@ -45,23 +59,30 @@ const gitLogTool: ToolDefinition = {
       args.push('--pretty=format:%C(yellow)%H%C(reset) - %C(blue)%an%C(reset) (%C(green)%ar%C(reset))%n  %s%n');
     }
     
-    if (params.graph) args.push('--graph');
-    if (params.author) args.push(`--author="${params.author}"`);
-    if (params.since) args.push(`--since="${params.since}"`);
-    if (params.until) args.push(`--until="${params.until}"`);
-    if (params.grep) args.push(`--grep="${params.grep}"`);
-    if (params.branch) args.push(params.branch);
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
+    if (params.graph && params.format !== 'json') args.push('--graph');
+    if (params.author) args.push(`--author=${params.author}`);
+    if (params.since) args.push(`--since=${params.since}`);
+    if (params.until) args.push(`--until=${params.until}`);
+    if (params.grep) args.push(`--grep=${params.grep}`);
+    if (params.branch) args.push(END_OF_OPTIONS, params.branch);
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(parseCommits(output), null, 2)
+            }
+          ]
+        };
+      }
+      
       return {
         content: [
           {
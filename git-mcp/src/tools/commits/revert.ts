@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { END_OF_OPTIONS, git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { listConflictedPaths } from '../../utils/conflicts.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  commits: z.array(gitArgSchema()).optional().describe('Commits or ranges to revert (reverted newest first, as given by git)'),
+  mainline: z.number().int().positive().optional().describe('Parent number to keep when reverting merge commits'),
+  noCommit: z.boolean().optional().default(false).describe('Apply the inverse changes to the index and working tree without committing'),
+  continue: z.boolean().optional().default(false).describe('Continue after resolving conflicts'),
+  skip: z.boolean().optional().default(false).describe('Skip the current commit and continue'),
+  abort: z.boolean().optional().default(false).describe('Abort and return to the pre-revert state'),
+  confirm: confirmSchema
+});
+
+const gitRevertTool: ToolDefinition = {
+  name: 'revert',
+  description: 'Create commits that undo the changes of existing commits',
+  category: 'git',
+  subcategory: 'commits',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    const args: string[] = ['revert'];
+    
+    if (params.abort) {
+      args.push('--abort');
+    } else if (params.continue) {
+      args.push('--continue');
+    } else if (params.skip) {
+      args.push('--skip');
+    } else {
+      if (!params.commits || params.commits.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: commits is required unless using continue, skip or abort'
+          }]
+        };
+      }
+      
+      if (params.mainline) args.push('--mainline', String(params.mainline));
+      if (params.noCommit) args.push('--no-commit');
+      args.push(END_OF_OPTIONS, ...params.commits);
+      
+      const branch = params.noCommit ? null : await currentBranch(cwd);
+      if (branch) {
+        const refusal = await enforcePolicy(repo.root!, {
+          operation: 'branch-update',
+          target: branch,
+          branches: [branch],
+          description: `Revert ${params.commits.join(', ')} on '${branch}'`
+        }, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+    }
+    
+    const before = (await runGit(['rev-parse', 'HEAD'], { cwd })).stdout.trim();
+    
+    try {
+      await git(args, {
+        cwd,
+        maxBuffer: 1024 * 1024 * 50 // 50MB buffer
+      });
+      
+      if (params.abort) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Revert aborted successfully'
+          }]
+        };
+      }
+      
+      let message = 'Revert completed successfully';
+      
+      if (params.noCommit) {
+        const status = (await git(['status', '--short'], { cwd })).stdout;
+        message += '\n\nChanges staged for commit. Use git_commit to complete.';
+        if (status) {
+          message += '\n\nCurrent status:\n' + status;
+        }
+      } else if (before) {
+        const created = (await git(['log', '--oneline', `${before}..HEAD`], { cwd })).stdout;
+        if (created) {
+          message += '\n\nNew commits:\n' + created;
+        }
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      if (errorMessage.includes('is already in progress')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: A cherry-pick or revert is already in progress. Finish it with continue=true or cancel it with abort=true.'
+          }]
+        };
+      }
+      
+      const conflicts = await listConflictedPaths(cwd);
+      if (conflicts.size > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Revert stopped with conflicts in:\n${[...conflicts.keys()].join('\n')}\n\nInspect them with git_conflicts_list, resolve with git_conflicts_resolve, then use continue=true. Or use skip=true to drop this commit, or abort=true to cancel.`
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('is a merge but no -m option was given')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: Cannot revert a merge commit without mainline (usually mainline=1)'
+          }]
+        };
+      }
+      
+      if (errorMessage.includes('no cherry-pick or revert in progress')) {
+        return {
+          content: [{
+            type: 'text',
+            text: 'Error: No revert in progress'
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git revert: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitRevertTool;
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { annotateLfsDiff, summarizeLfsPatch } from '../../utils/lfs.js';
+import { COMMIT_JSON_FORMAT, DIFF_JSON_ARGS, parseCommits, parseDiff } from '../../utils/parsers.js';
 
 const inputSchema = z.object({
-  commit: z.string().default('HEAD').describe('Commit hash or reference (default: HEAD)'),
+  repoPath: repoPathSchema,
+  commit: gitArgSchema().default('HEAD').describe('Commit hash or reference (default: HEAD)'),
   stat: z.boolean().optional().default(false).describe('Show file statistics'),
   nameOnly: z.boolean().optional().default(false).describe('Show only file names'),
   patch: z.boolean().optional().default(true).describe('Show patch/diff'),
-  format: z.enum(['full', 'summary', 'patch']).optional().default('full').describe('Output format')
+  format: z.enum(['full', 'summary', 'patch', 'json']).optional().default('full').describe('Output format (json returns the commit and its diff as files, hunks and lines)')
 });
 
 const gitShowTool: ToolDefinition = {
@@ -21,11 +25,17 @@ const gitShowTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git show';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
     
-    // Add commit reference
-    args.push(params.commit);
+    const args: string[] = ['show'];
     
     // Handle format options
     if (params.format === 'summary' || params.nameOnly) {
@@ -38,13 +48,38 @@ const gitShowTool: ToolDefinition = {
       args.push('--no-patch');
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
+    // Add commit reference; options cannot follow it
+    args.push(END_OF_OPTIONS, params.commit);
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      if (params.format === 'json') {
+        const { stdout: metadata } = await git(['show', '-s', `--format=${COMMIT_JSON_FORMAT}`, END_OF_OPTIONS, params.commit], {
+          cwd: repo.cwd,
+          maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+        });
+        const [commit] = parseCommits(metadata);
+        
+        let files;
+        if (params.patch) {
+          const { stdout: patch } = await git(['show', '--format=', '--diff-merges=first-parent', ...DIFF_JSON_ARGS, END_OF_OPTIONS, params.commit], {
+            cwd: repo.cwd,
+            maxBuffer: 1024 * 1024 * 50 // 50MB buffer for large commits
+          });
+          files = annotateLfsDiff(parseDiff(patch));
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ ...commit, files }, null, 2)
+            }
+          ]
+        };
+      }
+      
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer for large commits
       });
       
@@ -52,7 +87,7 @@ const gitShowTool: ToolDefinition = {
         content: [
           {
             type: 'text',
-            text: output || 'No commit information found'
+            text: summarizeLfsPatch(output) || 'No commit information found'
           }
         ]
       };
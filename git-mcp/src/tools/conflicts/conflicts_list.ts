@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { GitConflictFile, GitConflictSide, ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { detectOperation, listConflictedPaths, parseConflictMarkers, readBlob } from '../../utils/conflicts.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  paths: z.array(gitArgSchema()).optional().describe('Limit to specific conflicted paths'),
+  includeContent: z.boolean().optional().default(true).describe('Include ours/theirs/base blob contents'),
+  maxBytes: z.number().optional().default(100 * 1024).describe('Maximum bytes of content per blob (default: 100KB)'),
+  conflictStyle: z.enum(['merge', 'diff3', 'zdiff3']).optional().describe('Re-create conflict markers in this style first (discards manual edits to the listed files)')
+});
+
+const gitConflictsListTool: ToolDefinition = {
+  name: 'conflicts_list',
+  description: 'List conflicted files with their ours/theirs/base contents and parsed conflict hunks',
+  category: 'git',
+  subcategory: 'conflicts',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    try {
+      const conflicts = await listConflictedPaths(cwd, params.paths);
+      const operation = await detectOperation(cwd);
+      
+      if (conflicts.size === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: operation ? `No conflicted files (${operation} in progress)` : 'No conflicted files'
+          }]
+        };
+      }
+      
+      if (params.conflictStyle) {
+        await git(['checkout', `--conflict=${params.conflictStyle}`, '--', ...conflicts.keys()], { cwd });
+      }
+      
+      const files: GitConflictFile[] = [];
+      
+      for (const [file, stages] of conflicts) {
+        if (params.includeContent) {
+          for (const side of Object.keys(stages) as GitConflictSide[]) {
+            stages[side] = await readBlob(cwd, stages[side]!, params.maxBytes);
+          }
+        }
+        
+        let hunks: GitConflictFile['hunks'] = [];
+        try {
+          const worktree = await readFile(path.join(cwd, file), 'utf-8');
+          hunks = parseConflictMarkers(worktree);
+        } catch {
+          // Deleted in the working tree, nothing to parse
+        }
+        
+        files.push({ path: file, stages, hunks });
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ operation, files }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error listing conflicts: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitConflictsListTool;
\ No newline at end of file
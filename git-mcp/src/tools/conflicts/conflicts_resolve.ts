@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { GitConflictHunk, ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import {
+  SIDE_STAGES,
+  detectOperation,
+  listConflictedPaths,
+  nextStepHint,
+  parseConflictMarkers,
+  replaceConflictHunks
+} from '../../utils/conflicts.js';
+
+const hunkChoiceSchema = z.enum(['ours', 'theirs', 'base', 'both']);
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  path: gitArgSchema().describe('Conflicted file to resolve'),
+  choice: z.enum(['ours', 'theirs', 'base']).optional().describe('Take this side for the whole file, or for hunks not listed in hunks'),
+  hunks: z.array(z.object({
+    index: z.number().describe('Hunk index from git_conflicts_list'),
+    choice: hunkChoiceSchema.describe('Side to keep (both = ours followed by theirs)')
+  })).optional().describe('Per-hunk choices applied to the conflict markers in the working tree file'),
+  content: z.string().optional().describe('Merged file content to write instead of choosing sides'),
+  stage: z.boolean().optional().default(true).describe('Stage the file after resolving')
+});
+
+function pickLines(hunk: GitConflictHunk, choice: z.infer<typeof hunkChoiceSchema>): string[] {
+  switch (choice) {
+    case 'ours':
+      return hunk.ours;
+    case 'theirs':
+      return hunk.theirs;
+    case 'both':
+      return [...hunk.ours, ...hunk.theirs];
+    case 'base':
+      if (!hunk.base) {
+        throw new Error(`Hunk ${hunk.index} has no base section. Re-create markers with git_conflicts_list conflictStyle "diff3" first.`);
+      }
+      return hunk.base;
+  }
+}
+
+const gitConflictsResolveTool: ToolDefinition = {
+  name: 'conflicts_resolve',
+  description: 'Resolve a conflicted file by choosing ours/theirs/base (whole file or per hunk) or writing merged content, then stage it',
+  category: 'git',
+  subcategory: 'conflicts',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    if (params.content === undefined && !params.choice && !params.hunks) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: Provide content, choice or hunks to resolve the conflict'
+        }]
+      };
+    }
+    
+    try {
+      const conflicts = await listConflictedPaths(cwd, [params.path]);
+      const stages = conflicts.get(params.path);
+      
+      if (!stages) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: '${params.path}' is not in a conflicted state`
+          }]
+        };
+      }
+      
+      const filePath = path.join(cwd, params.path);
+      let removed = false;
+      
+      if (params.content !== undefined) {
+        await writeFile(filePath, params.content);
+      } else if (params.hunks) {
+        const text = await readFile(filePath, 'utf-8');
+        const hunks = parseConflictMarkers(text);
+        const choices = new Map(params.hunks.map(hunk => [hunk.index, hunk.choice]));
+        
+        const unknown = params.hunks.filter(hunk => !hunks.some(parsed => parsed.index === hunk.index));
+        if (unknown.length > 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: Unknown hunk index ${unknown.map(hunk => hunk.index).join(', ')} (file has ${hunks.length} hunks)`
+            }]
+          };
+        }
+        
+        const unresolved = hunks.filter(hunk => !choices.has(hunk.index) && !params.choice);
+        if (unresolved.length > 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: No choice for hunk ${unresolved.map(hunk => hunk.index).join(', ')}. List every hunk or set choice as the default.`
+            }]
+          };
+        }
+        
+        const resolved = replaceConflictHunks(text, hunk => pickLines(hunk, choices.get(hunk.index) || params.choice!));
+        await writeFile(filePath, resolved);
+      } else if (params.choice) {
+        // checkout-index keeps the file mode and binary content of the chosen stage
+        if (stages[params.choice]) {
+          await git(['checkout-index', '--force', `--stage=${SIDE_STAGES[params.choice]}`, '--', params.path], { cwd });
+        } else if (params.stage) {
+          await git(['rm', '--quiet', '--', params.path], { cwd });
+          removed = true;
+        } else {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: '${params.path}' does not exist on the ${params.choice} side. Set stage=true to record the deletion.`
+            }]
+          };
+        }
+      }
+      
+      if (!removed) {
+        const remaining = parseConflictMarkers(await readFile(filePath, 'utf-8').catch(() => ''));
+        if (remaining.length > 0 && params.stage) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: '${params.path}' still contains ${remaining.length} conflict hunk(s); not staged`
+            }]
+          };
+        }
+        
+        if (params.stage) {
+          await git(['add', '--', params.path], { cwd });
+        }
+      }
+      
+      const left = await listConflictedPaths(cwd);
+      let message = removed
+        ? `Resolved '${params.path}' by deleting it (missing on the ${params.choice} side)`
+        : `Resolved '${params.path}'` + (params.stage ? ' and staged it' : '');
+      
+      if (left.size > 0) {
+        message += `\n\nRemaining conflicted files:\n${[...left.keys()].join('\n')}`;
+      } else {
+        message += `\n\nAll conflicts resolved. ${nextStepHint(await detectOperation(cwd))}`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error resolving conflict: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitConflictsResolveTool;
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
 
 const inputSchema = z.object({
-  paths: z.array(z.string()).min(1).describe('Files or directories to add'),
+  repoPath: repoPathSchema,
+  paths: z.array(gitArgSchema()).min(1).describe('Files or directories to add'),
   all: z.boolean().optional().default(false).describe('Add all changes (equivalent to git add -A)'),
   update: z.boolean().optional().default(false).describe('Update tracked files only'),
   force: z.boolean().optional().default(false).describe('Add ignored files'),
@@ -23,8 +25,17 @@ const gitAddTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git add';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['add'];
     
     // Handle special flags
     if (params.all) {
@@ -42,7 +53,7 @@ const gitAddTool: ToolDefinition = {
         content: [
           {
             type: 'text',
-            text: 'Error: Interactive mode is not supported in this environment. Please use specific file paths instead.'
+            text: 'Error: Interactive mode is not supported in this environment. Use git_hunks_list and git_hunks_stage to stage individual hunks, or specific file paths instead.'
           }
         ]
       };
@@ -53,18 +64,14 @@ const gitAddTool: ToolDefinition = {
       args.push(...params.paths);
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      execSync(command, { 
-        encoding: 'utf-8',
+      await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
       // Get status to show what was added
-      const statusOutput = execSync('git status --short', { encoding: 'utf-8' });
+      const statusOutput = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
       
       let message = params.dryRun ? 'Would add:\n' : 'Successfully added:\n';
       
@@ -1,16 +1,19 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema, NETWORK_TIMEOUT } from '../../utils/git.js';
+import { isWithinAllowedRoots, resolveRepository } from '../../utils/repository.js';
 import path from 'path';
 
 const inputSchema = z.object({
-  url: z.string().describe('Repository URL to clone'),
-  directory: z.string().optional().describe('Directory to clone into'),
-  branch: z.string().optional().describe('Branch to checkout after cloning'),
+  repoPath: z.string().optional().describe('Parent directory to clone from (default: server working directory)'),
+  url: gitArgSchema().describe('Repository URL to clone'),
+  directory: gitArgSchema().optional().describe('Directory to clone into'),
+  branch: gitArgSchema().optional().describe('Branch to checkout after cloning'),
   depth: z.number().optional().describe('Create shallow clone with history depth'),
   recursive: z.boolean().optional().default(false).describe('Initialize submodules'),
   bare: z.boolean().optional().default(false).describe('Create bare repository'),
-  quiet: z.boolean().optional().default(false).describe('Suppress output')
+  quiet: z.boolean().optional().default(false).describe('Suppress output'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds (default: 5 minutes)')
 });
 
 const gitCloneTool: ToolDefinition = {
@@ -24,8 +27,27 @@ const gitCloneTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git clone';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath, { requireGitRepo: false });
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const targetPath = path.resolve(repo.cwd!, params.directory || path.basename(params.url, '.git'));
+    if (!isWithinAllowedRoots(targetPath)) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Clone target '${targetPath}' is outside the allowed roots. Configure GIT_MCP_ALLOWED_ROOTS to allow it.`
+        }]
+      };
+    }
+    
+    const args: string[] = ['clone'];
     
     if (params.branch) args.push('-b', params.branch);
     if (params.depth) args.push('--depth', params.depth.toString());
@@ -41,13 +63,10 @@ const gitCloneTool: ToolDefinition = {
       args.push(params.directory);
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        timeout: params.timeout,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer
       });
       
@@ -55,6 +74,7 @@ const gitCloneTool: ToolDefinition = {
       const repoName = params.directory || path.basename(params.url, '.git');
       
       let message = `Successfully cloned repository to ${repoName}`;
+      message += `\nPath: ${targetPath}`;
       
       if (params.branch) {
         message += `\nChecked out branch: ${params.branch}`;
@@ -70,9 +90,8 @@ const gitCloneTool: ToolDefinition = {
       
       // Show basic info about the cloned repo
       try {
-        const repoPath = params.directory || repoName;
-        const branchInfo = execSync(`cd ${repoPath} && git branch --show-current`, { encoding: 'utf-8' }).trim();
-        const commitInfo = execSync(`cd ${repoPath} && git log -1 --oneline`, { encoding: 'utf-8' }).trim();
+        const branchInfo = (await git(['branch', '--show-current'], { cwd: targetPath })).stdout.trim();
+        const commitInfo = (await git(['log', '-1', '--oneline'], { cwd: targetPath })).stdout.trim();
         
         message += `\n\nCurrent branch: ${branchInfo}`;
         message += `\nLatest commit: ${commitInfo}`;
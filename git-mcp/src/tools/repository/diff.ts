@@ -1,15 +1,20 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { annotateLfsDiff, summarizeLfsPatch } from '../../utils/lfs.js';
+import { DIFF_JSON_ARGS, parseDiff } from '../../utils/parsers.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   nameOnly: z.boolean().optional().default(false).describe('Show only file names'),
   stat: z.boolean().optional().default(false).describe('Show file statistics'),
   numstat: z.boolean().optional().default(false).describe('Show numeric statistics'),
   color: z.boolean().optional().default(true).describe('Show colored diff'),
   unified: z.number().optional().default(3).describe('Number of context lines'),
-  path: z.string().optional().describe('Limit diff to specific path or file'),
-  ignoreLockFiles: z.boolean().optional().default(true).describe('Ignore lock files (package-lock.json, yarn.lock, etc.)')
+  path: gitArgSchema().optional().describe('Limit diff to specific path or file'),
+  ignoreLockFiles: z.boolean().optional().default(true).describe('Ignore lock files (package-lock.json, yarn.lock, etc.)'),
+  format: z.enum(['text', 'json']).optional().default('text').describe('Output format (json returns files, hunks and lines with old/new line numbers)')
 });
 
 const LOCK_FILES = [
@@ -40,24 +45,44 @@ const gitDiffTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git diff';
-    const args: string[] = [];
-    
-    // Add display options
-    if (params.nameOnly) {
-      args.push('--name-only');
-    } else if (params.stat) {
-      args.push('--stat');
-    } else if (params.numstat) {
-      args.push('--numstat');
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
     }
     
-    if (!params.color) {
-      args.push('--no-color');
+    const args: string[] = ['diff'];
+    
+    // Add display options
+    if (params.format === 'json') {
+      args.push(...DIFF_JSON_ARGS);
+    } else {
+      if (params.nameOnly) {
+        args.push('--name-only');
+      } else if (params.stat) {
+        args.push('--stat');
+      } else if (params.numstat) {
+        args.push('--numstat');
+      }
+      
+      if (!params.color) {
+        args.push('--no-color');
+      }
     }
     
     args.push(`-U${params.unified}`);
     
+    args.push('--');
+    
+    // Add specific path if provided
+    if (params.path) {
+      args.push(params.path);
+    }
+    
     // Add exclusions for lock files
     if (params.ignoreLockFiles) {
       LOCK_FILES.forEach(lockFile => {
@@ -66,21 +91,23 @@ const gitDiffTool: ToolDefinition = {
       });
     }
     
-    // Add specific path if provided
-    if (params.path) {
-      args.push('--', params.path);
-    }
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 100 // 100MB buffer
       });
       
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(annotateLfsDiff(parseDiff(output)), null, 2)
+            }
+          ]
+        };
+      }
+      
       if (!output.trim()) {
         return {
           content: [
@@ -96,7 +123,7 @@ const gitDiffTool: ToolDefinition = {
         content: [
           {
             type: 'text',
-            text: output
+            text: summarizeLfsPatch(output)
           }
         ]
       };
@@ -1,16 +1,21 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { annotateLfsDiff, summarizeLfsPatch } from '../../utils/lfs.js';
+import { DIFF_JSON_ARGS, parseDiff } from '../../utils/parsers.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   nameOnly: z.boolean().optional().default(false).describe('Show only file names'),
   stat: z.boolean().optional().default(false).describe('Show file statistics'),
   numstat: z.boolean().optional().default(false).describe('Show numeric statistics'),
   color: z.boolean().optional().default(true).describe('Show colored diff'),
   unified: z.number().optional().default(3).describe('Number of context lines'),
-  path: z.string().optional().describe('Limit diff to specific path or file'),
+  path: gitArgSchema().optional().describe('Limit diff to specific path or file'),
   cached: z.boolean().optional().default(true).describe('Show staged changes (always true for this tool)'),
-  ignoreLockFiles: z.boolean().optional().default(true).describe('Ignore lock files (package-lock.json, yarn.lock, etc.)')
+  ignoreLockFiles: z.boolean().optional().default(true).describe('Ignore lock files (package-lock.json, yarn.lock, etc.)'),
+  format: z.enum(['text', 'json']).optional().default('text').describe('Output format (json returns files, hunks and lines with old/new line numbers)')
 });
 
 const LOCK_FILES = [
@@ -41,24 +46,44 @@ const gitDiffStagedTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git diff --cached';
-    const args: string[] = [];
-    
-    // Add display options
-    if (params.nameOnly) {
-      args.push('--name-only');
-    } else if (params.stat) {
-      args.push('--stat');
-    } else if (params.numstat) {
-      args.push('--numstat');
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
     }
     
-    if (!params.color) {
-      args.push('--no-color');
+    const args: string[] = ['diff', '--cached'];
+    
+    // Add display options
+    if (params.format === 'json') {
+      args.push(...DIFF_JSON_ARGS);
+    } else {
+      if (params.nameOnly) {
+        args.push('--name-only');
+      } else if (params.stat) {
+        args.push('--stat');
+      } else if (params.numstat) {
+        args.push('--numstat');
+      }
+      
+      if (!params.color) {
+        args.push('--no-color');
+      }
     }
     
     args.push(`-U${params.unified}`);
     
+    args.push('--');
+    
+    // Add specific path if provided
+    if (params.path) {
+      args.push(params.path);
+    }
+    
     // Add exclusions for lock files
     if (params.ignoreLockFiles) {
       LOCK_FILES.forEach(lockFile => {
@@ -67,21 +92,23 @@ const gitDiffStagedTool: ToolDefinition = {
       });
     }
     
-    // Add specific path if provided
-    if (params.path) {
-      args.push('--', params.path);
-    }
-    
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 100 // 100MB buffer
       });
       
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(annotateLfsDiff(parseDiff(output)), null, 2)
+            }
+          ]
+        };
+      }
+      
       if (!output.trim()) {
         return {
           content: [
@@ -97,7 +124,7 @@ const gitDiffStagedTool: ToolDefinition = {
         content: [
           {
             type: 'text',
-            text: output
+            text: summarizeLfsPatch(output)
           }
         ]
       };
@@ -1,15 +1,20 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema, NETWORK_TIMEOUT } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  remote: z.string().optional().default('origin').describe('Remote to fetch from'),
-  branch: z.string().optional().describe('Specific branch to fetch'),
+  repoPath: repoPathSchema,
+  remote: gitArgSchema().optional().default('origin').describe('Remote to fetch from'),
+  branch: gitArgSchema().optional().describe('Specific branch to fetch'),
   all: z.boolean().optional().default(false).describe('Fetch all remotes'),
   prune: z.boolean().optional().default(false).describe('Remove remote-tracking branches that no longer exist'),
   tags: z.boolean().optional().default(true).describe('Fetch tags'),
   depth: z.number().optional().describe('Limit fetching to specified number of commits'),
-  force: z.boolean().optional().default(false).describe('Force update local branches')
+  force: z.boolean().optional().default(false).describe('Force update local branches'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds (default: 5 minutes)'),
+  confirm: confirmSchema
 });
 
 const gitFetchTool: ToolDefinition = {
@@ -23,8 +28,36 @@ const gitFetchTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git fetch';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    // A forced refspec like "main:main" can move a local branch to unrelated history
+    const localBranch = params.branch?.includes(':') ? params.branch.split(':').pop() : undefined;
+    if (params.force && localBranch) {
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: 'history-rewrite',
+        target: localBranch,
+        branches: [localBranch],
+        description: `Force-update local branch '${localBranch}' from ${params.remote}, even if it is not a fast-forward`
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
+    }
+    
+    const args: string[] = ['fetch'];
     
     if (params.all) args.push('--all');
     if (params.prune) args.push('--prune');
@@ -40,18 +73,15 @@ const gitFetchTool: ToolDefinition = {
       }
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        timeout: params.timeout,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer
       });
       
       // Get updated remote info
-      const remoteBranches = execSync('git branch -r', { encoding: 'utf-8' });
+      const remoteBranches = (await git(['branch', '-r'], { cwd: repo.cwd })).stdout;
       
       let message = output || 'Fetch completed';
       
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { DIFF_JSON_ARGS, parseDiff } from '../../utils/parsers.js';
+import { hunkId } from '../../utils/patch.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  staged: z.boolean().optional().default(false).describe('List staged hunks (for unstaging) instead of unstaged ones'),
+  paths: z.array(gitArgSchema()).optional().describe('Limit to specific paths'),
+  unified: z.number().optional().default(3).describe('Number of context lines (use the same value with git_hunks_stage)')
+});
+
+const gitHunksListTool: ToolDefinition = {
+  name: 'hunks_list',
+  description: 'List hunks of unstaged (or staged) changes with stable IDs for git_hunks_stage',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['diff', ...DIFF_JSON_ARGS, `-U${params.unified}`];
+    if (params.staged) args.push('--cached');
+    args.push('--', ...(params.paths || []));
+    
+    try {
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+      });
+      
+      const hunks = parseDiff(output).flatMap(file => {
+        const path = file.newPath ?? file.oldPath ?? '';
+        return file.hunks.map(hunk => ({
+          id: hunkId(path, hunk.header),
+          path,
+          status: file.status,
+          header: hunk.header,
+          lines: hunk.lines.map((line, index) => ({ index, ...line }))
+        }));
+      });
+      
+      if (hunks.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: params.staged ? 'No staged hunks found' : 'No unstaged hunks found'
+          }]
+        };
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(hunks, null, 2)
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error listing hunks: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitHunksListTool;
\ No newline at end of file
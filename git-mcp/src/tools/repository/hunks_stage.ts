@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { git } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { DIFF_JSON_ARGS, parseDiff } from '../../utils/parsers.js';
+import { buildPatch, hunkIdPath, splitDiff } from '../../utils/patch.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  action: z.enum(['stage', 'unstage']).default('stage').describe('Stage unstaged hunks or unstage staged hunks'),
+  hunks: z.array(z.object({
+    id: z.string().describe('Hunk ID from git_hunks_list'),
+    lines: z.array(z.object({
+      start: z.number().describe('First line index within the hunk'),
+      end: z.number().describe('Last line index within the hunk (inclusive)')
+    })).optional().describe('Only apply these line ranges of the hunk (default: whole hunk)')
+  })).min(1).describe('Hunks to stage or unstage'),
+  unified: z.number().optional().default(3).describe('Number of context lines used when listing the hunks')
+});
+
+const gitHunksStageTool: ToolDefinition = {
+  name: 'hunks_stage',
+  description: 'Stage or unstage selected hunks or line ranges without interactive mode',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    // Hunk IDs carry paths relative to the top of the worktree
+    const cwd = repo.root;
+    const reverse = params.action === 'unstage';
+    const paths = [...new Set(params.hunks.map(hunk => hunkIdPath(hunk.id)))];
+    const diffArgs: string[] = ['diff', ...DIFF_JSON_ARGS, `-U${params.unified}`];
+    if (reverse) diffArgs.push('--cached');
+    diffArgs.push('--', ...paths);
+    
+    try {
+      const { stdout: diff } = await git(diffArgs, {
+        cwd,
+        maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+      });
+      
+      const { patch, missing } = buildPatch(parseDiff(diff), splitDiff(diff), params.hunks, reverse);
+      
+      if (missing.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Hunks not found (the diff may have changed, list hunks again): ${missing.join(', ')}`
+          }]
+        };
+      }
+      
+      const applyArgs = ['apply', '--cached', '--recount'];
+      if (reverse) applyArgs.push('--reverse');
+      if (params.unified === 0) applyArgs.push('--unidiff-zero');
+      
+      await git(applyArgs, { cwd, input: patch });
+      
+      const status = (await git(['status', '--short'], { cwd })).stdout;
+      
+      let message = `${reverse ? 'Unstaged' : 'Staged'} ${params.hunks.length} hunk(s)`;
+      if (status) {
+        message += '\n\nCurrent status:\n' + status;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error ${reverse ? 'unstaging' : 'staging'} hunks: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitHunksStageTool;
\ No newline at end of file
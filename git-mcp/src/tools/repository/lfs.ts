@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { GitLfsLock, ToolDefinition } from '../../types.js';
+import { git, gitArgSchema, NETWORK_TIMEOUT } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { lfsFiles, lfsTrackedPatterns, lfsVersion } from '../../utils/lfs.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  action: z.enum(['status', 'locks', 'pull']).default('status').describe('status: tracked patterns and LFS files (pointer-only or downloaded); locks: list file locks on the server; pull: download LFS objects'),
+  paths: z.array(gitArgSchema()).optional().describe('Limit to these paths or patterns (status/pull; locks uses the first path)'),
+  exclude: z.array(gitArgSchema()).optional().describe('Paths or patterns not to download (pull)'),
+  remote: gitArgSchema().optional().describe('Remote to use (pull/locks, default: the LFS default remote)'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds for locks/pull (default: 5 minutes)')
+});
+
+/**
+ * One entry of `git lfs locks --json`
+ */
+interface LfsLockEntry {
+  id: string | number;
+  path: string;
+  owner?: { name?: string };
+  locked_at?: string;
+}
+
+const gitLfsTool: ToolDefinition = {
+  name: 'lfs',
+  description: 'Show Git LFS tracked paths and pointer files, list locks and download LFS objects on demand',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const cwd = repo.root!;
+    const paths = params.paths || [];
+    const version = await lfsVersion(cwd);
+    
+    try {
+      if (params.action === 'status') {
+        // Pointer detection only needs git, so status works without git-lfs installed
+        const trackedPatterns = await lfsTrackedPatterns(cwd);
+        const files = await lfsFiles(cwd, paths);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              installed: version !== null,
+              ...(version && { version }),
+              trackedPatterns,
+              pointerOnly: files.filter(file => !file.downloaded).length,
+              files
+            }, null, 2)
+          }]
+        };
+      }
+      
+      if (!version) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: git-lfs is not installed; it is required to ${params.action === 'locks' ? 'list locks' : 'download LFS objects'}`
+          }]
+        };
+      }
+      
+      if (params.action === 'locks') {
+        const args = ['lfs', 'locks', '--json'];
+        if (params.remote) args.push('--remote', params.remote);
+        if (paths.length > 0) args.push('--path', paths[0]);
+        
+        const { stdout } = await git(args, { cwd, timeout: params.timeout });
+        const locks: GitLfsLock[] = (JSON.parse(stdout || '[]') as LfsLockEntry[]).map(lock => ({
+          id: String(lock.id),
+          path: lock.path,
+          ...(lock.owner?.name && { owner: lock.owner.name }),
+          ...(lock.locked_at && { lockedAt: lock.locked_at })
+        }));
+        
+        return {
+          content: [{
+            type: 'text',
+            text: locks.length > 0 ? JSON.stringify(locks, null, 2) : 'No locks found'
+          }]
+        };
+      }
+      
+      const args = ['lfs', 'pull'];
+      if (params.remote) args.push(params.remote);
+      if (paths.length > 0) args.push(`--include=${paths.join(',')}`);
+      if (params.exclude && params.exclude.length > 0) args.push(`--exclude=${params.exclude.join(',')}`);
+      
+      await git(args, {
+        cwd,
+        timeout: params.timeout,
+        maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+      });
+      
+      const files = await lfsFiles(cwd, paths);
+      const missing = files.filter(file => !file.downloaded);
+      
+      let message = `Downloaded LFS objects for ${files.length - missing.length} of ${files.length} file(s)`;
+      if (missing.length > 0) {
+        message += `\n\nStill pointer-only:\n${missing.map(file => file.path).join('\n')}`;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git lfs ${params.action}: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitLfsTool;
\ No newline at end of file
@@ -1,16 +1,21 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema, NETWORK_TIMEOUT } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  remote: z.string().optional().default('origin').describe('Remote repository name'),
-  branch: z.string().optional().describe('Remote branch to pull from'),
+  repoPath: repoPathSchema,
+  remote: gitArgSchema().optional().default('origin').describe('Remote repository name'),
+  branch: gitArgSchema().optional().describe('Remote branch to pull from'),
   rebase: z.boolean().optional().default(false).describe('Rebase instead of merge'),
   noCommit: z.boolean().optional().default(false).describe('Perform merge but do not commit'),
   noFf: z.boolean().optional().default(false).describe('Create merge commit even for fast-forward'),
   ffOnly: z.boolean().optional().default(false).describe('Refuse to merge unless fast-forward'),
   strategy: z.string().optional().describe('Merge strategy to use'),
-  all: z.boolean().optional().default(false).describe('Fetch all remotes')
+  all: z.boolean().optional().default(false).describe('Fetch all remotes'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds (default: 5 minutes)'),
+  confirm: confirmSchema
 });
 
 const gitPullTool: ToolDefinition = {
@@ -24,8 +29,40 @@ const gitPullTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git pull';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    // A fast-forward only pull can just catch up with the remote; anything else adds
+    // merge commits to the branch, or rewrites its local commits when rebasing
+    const branch = params.ffOnly && !params.rebase ? null : await currentBranch(repo.cwd!);
+    if (branch) {
+      const source = params.all ? 'all remotes' : `${params.remote}${params.branch ? `/${params.branch}` : ''}`;
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: params.rebase ? 'history-rewrite' : 'branch-update',
+        target: branch,
+        branches: [branch],
+        description: params.rebase
+          ? `Pull from ${source} into '${branch}', rebasing its local commits`
+          : `Pull from ${source} into '${branch}', merging the remote changes`
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
+    }
+    
+    const args: string[] = ['pull'];
     
     if (params.rebase) args.push('--rebase');
     if (params.noCommit) args.push('--no-commit');
@@ -42,18 +79,15 @@ const gitPullTool: ToolDefinition = {
       }
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        timeout: params.timeout,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer for large pulls
       });
       
       // Get updated status
-      const status = execSync('git status --short', { encoding: 'utf-8' });
+      const status = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
       
       let message = output || 'Pull completed successfully';
       
@@ -88,7 +122,7 @@ const gitPullTool: ToolDefinition = {
           content: [
             {
               type: 'text',
-              text: 'Error: Merge conflict occurred. Resolve conflicts and commit the result.'
+              text: 'Error: Merge conflict occurred. Inspect with git_conflicts_list, resolve with git_conflicts_resolve, then commit the result.'
             }
           ]
         };
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, realpathSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { git } from '../../utils/git.js';
+import gitPushTool from './push.js';
+
+test('force-pushing a protected branch through HEAD is forbidden', async (t) => {
+  const dir = realpathSync(mkdtempSync(path.join(tmpdir(), 'git-mcp-push-')));
+  await git(['init', '--quiet', '--initial-branch=main'], { cwd: dir });
+  await git(['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '--allow-empty', '-m', 'init'], { cwd: dir });
+  const allowedRoots = process.env.GIT_MCP_ALLOWED_ROOTS;
+  process.env.GIT_MCP_ALLOWED_ROOTS = dir;
+  t.after(() => {
+    if (allowedRoots === undefined) {
+      delete process.env.GIT_MCP_ALLOWED_ROOTS;
+    } else {
+      process.env.GIT_MCP_ALLOWED_ROOTS = allowedRoots;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  for (const [branch, force] of [['HEAD', true], ['HEAD:HEAD', true], ['+HEAD', false], ['+refs/heads/', false]] as const) {
+    const result = await gitPushTool.handler({ repoPath: dir, branch, force, confirm: 'force-push:HEAD,force-push:main' });
+    assert.match(result.content[0].text, /'force-push' on protected branch 'main' is forbidden/, branch);
+  }
+});
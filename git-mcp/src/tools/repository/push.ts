@@ -1,17 +1,22 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema, NETWORK_TIMEOUT, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { PolicyCheck, confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  remote: z.string().optional().default('origin').describe('Remote repository name'),
-  branch: z.string().optional().describe('Branch to push (default: current branch)'),
+  repoPath: repoPathSchema,
+  remote: gitArgSchema().optional().default('origin').describe('Remote repository name'),
+  branch: gitArgSchema().optional().describe('Branch to push (default: current branch)'),
   force: z.boolean().optional().default(false).describe('Force push (overwrite remote)'),
   forceLease: z.boolean().optional().default(false).describe('Force push with lease (safer)'),
   tags: z.boolean().optional().default(false).describe('Push tags'),
   setUpstream: z.boolean().optional().default(false).describe('Set upstream branch'),
   delete: z.boolean().optional().default(false).describe('Delete remote branch'),
   all: z.boolean().optional().default(false).describe('Push all branches'),
-  dryRun: z.boolean().optional().default(false).describe('Show what would be pushed')
+  dryRun: z.boolean().optional().default(false).describe('Show what would be pushed'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds (default: 5 minutes)'),
+  confirm: confirmSchema
 });
 
 const gitPushTool: ToolDefinition = {
@@ -25,8 +30,19 @@ const gitPushTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git push';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const cwd = repo.cwd!;
+    
+    const args: string[] = ['push'];
     
     if (params.force) args.push('--force');
     else if (params.forceLease) args.push('--force-with-lease');
@@ -37,20 +53,64 @@ const gitPushTool: ToolDefinition = {
     if (params.dryRun) args.push('--dry-run');
     
     // Add remote
-    args.push(params.remote);
+    args.push(END_OF_OPTIONS, params.remote);
     
     // Add branch or ref
     if (!params.all && params.branch) {
       args.push(params.branch);
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
+    // Judge the command git will run rather than the individual flags. A refspec forces on
+    // its own with a leading "+" and deletes with an empty source (":branch").
+    const optionsEnd = args.indexOf(END_OF_OPTIONS);
+    const options = args.slice(1, optionsEnd);
+    const refspecs = args.slice(optionsEnd + 2).map(spec => spec.match(/^(\+?)([^:]*)(?::(.*))?$/)!);
+    const [refspec] = refspecs;
+    const refspecDelete = Boolean(refspec && refspec[3] !== undefined && !refspec[2]);
+    const forcing = options.some(option => /^(-f|--force|--force-with-lease(=.*)?)$/.test(option)) || refspecs.some(spec => spec[1] === '+');
+    const deleting = options.includes('--delete') || refspecDelete;
+    
+    if (!params.dryRun && (forcing || deleting)) {
+      // For refspecs like "local:remote" the remote side is what gets overwritten or deleted
+      // HEAD (or a bare refs/heads/) names the current branch, which may itself be protected
+      const named = refspec ? (refspec[3] || refspec[2]).replace(/^refs\/heads\//, '') : '';
+      const branch = named && named !== 'HEAD' ? named : await currentBranch(cwd);
+      const branches = params.all
+        ? (await git(['for-each-ref', '--format=%(refname:short)', 'refs/heads'], { cwd })).stdout.split('\n').filter(Boolean)
+        : branch ? [branch] : [];
+      const target = params.all ? 'all' : branch || 'HEAD';
+      const checks: PolicyCheck[] = [];
+      
+      if (forcing && !refspecDelete) {
+        let description = `Force-push ${params.all ? 'all branches' : `'${target}'`} to '${params.remote}', overwriting the remote history`;
+        if (!params.all && branch) {
+          const lost = await runGit(['log', '--oneline', END_OF_OPTIONS, `${refspec?.[2] || 'HEAD'}..refs/remotes/${params.remote}/${branch}`], { cwd });
+          if (lost.exitCode === 0 && lost.stdout.trim()) {
+            description += `. Remote commits that would be discarded:\n${lost.stdout.trim()}`;
+          }
+        }
+        checks.push({ operation: 'force-push', target, branches, description });
+      }
+      
+      if (deleting) {
+        checks.push({ operation: 'push-delete', target, branches, description: `Delete branch '${target}' on '${params.remote}'` });
+      }
+      
+      const refusal = await enforcePolicy(repo.root!, checks, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
     }
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd,
+        timeout: params.timeout,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
@@ -58,8 +118,8 @@ const gitPushTool: ToolDefinition = {
       
       if (params.dryRun) {
         message = 'Dry run - would push:\n' + output;
-      } else if (params.delete) {
-        message = `Deleted remote branch ${params.branch}`;
+      } else if (deleting) {
+        message = `Deleted remote branch ${refspec?.[3] || params.branch}`;
       } else {
         message = output || 'Push completed successfully';
         
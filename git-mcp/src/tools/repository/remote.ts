@@ -1,12 +1,14 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   action: z.enum(['list', 'add', 'remove', 'rename', 'show', 'set-url']).default('list').describe('Remote action'),
-  name: z.string().optional().describe('Remote name'),
-  url: z.string().optional().describe('Remote URL (for add/set-url)'),
-  newName: z.string().optional().describe('New name (for rename)'),
+  name: gitArgSchema().optional().describe('Remote name'),
+  url: gitArgSchema().optional().describe('Remote URL (for add/set-url)'),
+  newName: gitArgSchema().optional().describe('New name (for rename)'),
   verbose: z.boolean().optional().default(false).describe('Show remote URLs')
 });
 
@@ -21,8 +23,17 @@ const gitRemoteTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git remote';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['remote'];
     
     switch (params.action) {
       case 'list':
@@ -83,13 +94,9 @@ const gitRemoteTool: ToolDefinition = {
         break;
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
@@ -1,11 +1,15 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { END_OF_OPTIONS, git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { PolicyCheck, confirmSchema, currentBranch, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
-  target: z.string().optional().default('HEAD').describe('Commit to reset to (default: HEAD)'),
+  repoPath: repoPathSchema,
+  target: gitArgSchema().optional().default('HEAD').describe('Commit to reset to (default: HEAD)'),
   mode: z.enum(['soft', 'mixed', 'hard']).optional().default('mixed').describe('Reset mode'),
-  paths: z.array(z.string()).optional().describe('Specific paths to reset')
+  paths: z.array(gitArgSchema()).optional().describe('Specific paths to reset'),
+  confirm: confirmSchema
 });
 
 const gitResetTool: ToolDefinition = {
@@ -19,8 +23,69 @@ const gitResetTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git reset';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    // Resetting paths only touches the index; moving the branch or discarding changes is policy-controlled
+    if (!params.paths || params.paths.length === 0) {
+      const cwd = repo.cwd!;
+      const branch = await currentBranch(cwd);
+      const head = (await runGit(['rev-parse', 'HEAD'], { cwd })).stdout.trim();
+      const target = (await runGit(['rev-parse', '--verify', '-q', END_OF_OPTIONS, `${params.target}^{commit}`], { cwd })).stdout.trim();
+      const subject = branch ? `'${branch}'` : 'HEAD';
+      let check: PolicyCheck | null = null;
+      
+      const leaving = head && target && head !== target
+        ? parseInt((await runGit(['rev-list', '--count', `${target}..${head}`], { cwd })).stdout.trim() || '0', 10)
+        : 0;
+      const moveDescription = head && target && head !== target
+        ? `move ${subject} from ${head.substring(0, 7)} to ${target.substring(0, 7)}` + (leaving > 0 ? `, leaving ${leaving} commit(s) behind` : '')
+        : '';
+      
+      if (params.mode === 'hard') {
+        const dirty = (await runGit(['status', '--porcelain', '--untracked-files=no'], { cwd })).stdout.split('\n').filter(Boolean);
+        const parts = [
+          moveDescription,
+          dirty.length > 0 ? `discard uncommitted changes in ${dirty.length} file(s): ${dirty.map(line => line.slice(3)).join(', ')}` : ''
+        ].filter(Boolean);
+        if (parts.length > 0) {
+          check = {
+            operation: 'reset-hard',
+            target: branch || 'HEAD',
+            branches: branch ? [branch] : [],
+            description: `Hard reset to ${params.target}: ${parts.join('; ')}`
+          };
+        }
+      } else if (moveDescription) {
+        check = {
+          operation: 'history-rewrite',
+          target: branch || 'HEAD',
+          branches: branch ? [branch] : [],
+          description: `Reset ${params.mode} to ${params.target}: ${moveDescription}`
+        };
+      }
+      
+      if (check) {
+        const refusal = await enforcePolicy(repo.root!, check, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+    }
+    
+    const args: string[] = ['reset'];
     
     // Add mode
     args.push(`--${params.mode}`);
@@ -34,19 +99,15 @@ const gitResetTool: ToolDefinition = {
       args.push(...params.paths);
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      execSync(command, { 
-        encoding: 'utf-8',
+      await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
       // Get current status
-      const status = execSync('git status --short', { encoding: 'utf-8' });
-      const currentCommit = execSync('git rev-parse --short HEAD', { encoding: 'utf-8' }).trim();
+      const status = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
+      const currentCommit = (await git(['rev-parse', '--short', 'HEAD'], { cwd: repo.cwd })).stdout.trim();
       
       let message = `Reset ${params.mode} to ${params.target}\n`;
       message += `HEAD is now at ${currentCommit}\n`;
@@ -59,7 +120,7 @@ const gitResetTool: ToolDefinition = {
           message += '\nChanges kept in working directory (unstaged)';
           break;
         case 'hard':
-          message += '\nAll changes discarded';
+          message += '\nAll changes discarded. Use git_undo to return to the previous HEAD (uncommitted changes cannot be recovered).';
           break;
       }
       
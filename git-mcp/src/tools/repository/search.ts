@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { GitPickaxeCommit, ToolDefinition } from '../../types.js';
+import { END_OF_OPTIONS, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { COMMIT_WITH_CHANGES_FORMAT, DIFF_JSON_ARGS, parseCommitsWithChanges, parseGrep } from '../../utils/parsers.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  pattern: z.string().min(1).describe('Text or regular expression to search for'),
+  mode: z.enum(['grep', 'pickaxe']).optional().default('grep').describe('grep: search file contents at a revision; pickaxe: find the commits that added or removed the pattern'),
+  patternType: z.enum(['fixed', 'basic', 'extended', 'perl']).optional().default('extended').describe('How to interpret the pattern (grep mode; pickaxe treats any type except fixed as a regex)'),
+  ignoreCase: z.boolean().optional().default(false).describe('Case-insensitive matching'),
+  wordRegexp: z.boolean().optional().default(false).describe('Match whole words only (grep mode)'),
+  ref: gitArgSchema().optional().describe('grep: tree-ish to search (default: working tree); pickaxe: revision or range to walk (default: HEAD)'),
+  all: z.boolean().optional().default(false).describe('Walk all refs instead of ref (pickaxe mode)'),
+  paths: z.array(gitArgSchema()).optional().describe('Limit the search to these pathspecs'),
+  context: z.number().int().min(0).optional().default(0).describe('Lines of context around each match (grep mode)'),
+  pickaxe: z.enum(['occurrences', 'diff']).optional().default('occurrences').describe('occurrences (-S): commits that change the number of occurrences; diff (-G): commits whose diff has a changed line matching the pattern'),
+  maxResults: z.number().int().positive().optional().default(200).describe('Maximum number of matching lines (grep) or commits (pickaxe)')
+});
+
+function lineMatcher(params: z.infer<typeof inputSchema>): (text: string) => boolean {
+  if (params.patternType === 'fixed') {
+    const needle = params.ignoreCase ? params.pattern.toLowerCase() : params.pattern;
+    return text => (params.ignoreCase ? text.toLowerCase() : text).includes(needle);
+  }
+  
+  try {
+    const regex = new RegExp(params.pattern, params.ignoreCase ? 'i' : '');
+    return text => regex.test(text);
+  } catch {
+    // POSIX syntax JavaScript cannot compile; report every changed line of the matching files
+    return () => true;
+  }
+}
+
+const gitSearchTool: ToolDefinition = {
+  name: 'search',
+  description: 'Search file contents with git grep, or find the commits that added or removed a string (pickaxe)',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const cwd = repo.cwd!;
+    
+    if (params.mode === 'grep') {
+      // git grep has no --end-of-options, so make sure the ref names a tree before passing it
+      if (params.ref) {
+        const tree = await runGit(['rev-parse', '--verify', '--quiet', END_OF_OPTIONS, `${params.ref}^{tree}`], { cwd });
+        if (tree.exitCode !== 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Error: '${params.ref}' is not a commit or tree`
+            }]
+          };
+        }
+      }
+      
+      const args: string[] = ['grep', '-n', '-z', '--column', '-I', '--full-name', '--no-color', `--${params.patternType === 'fixed' ? 'fixed-strings' : params.patternType + '-regexp'}`];
+      if (params.ignoreCase) args.push('-i');
+      if (params.wordRegexp) args.push('-w');
+      if (params.context > 0) args.push(`-C${params.context}`);
+      args.push('-e', params.pattern);
+      if (params.ref) args.push(params.ref);
+      args.push('--', ...(params.paths || []));
+      
+      const result = await runGit(args, {
+        cwd,
+        maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+      });
+      
+      // Exit code 1 means nothing matched
+      if (result.exitCode === 1 && !result.stderr.trim()) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No matches for '${params.pattern}'`
+          }]
+        };
+      }
+      
+      if (result.exitCode !== 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error executing git grep: ${result.stderr.trim() || `exit code ${result.exitCode}`}`
+          }]
+        };
+      }
+      
+      const files = parseGrep(result.stdout, params.ref);
+      const total = files.reduce((sum, file) => sum + file.matches, 0);
+      
+      // Keep whole files until the limit is reached, trimming the last one
+      let remaining = params.maxResults;
+      const kept = [];
+      for (const file of files) {
+        if (remaining <= 0) break;
+        if (file.matches > remaining) {
+          let seen = 0;
+          const lines = file.lines.filter(line => (line.match ? ++seen <= remaining : seen < remaining));
+          kept.push({ ...file, matches: remaining, lines });
+        } else {
+          kept.push(file);
+        }
+        remaining -= file.matches;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            pattern: params.pattern,
+            ref: params.ref || 'working tree',
+            totalMatches: total,
+            ...(total > params.maxResults && { truncated: true }),
+            files: kept
+          }, null, 2)
+        }]
+      };
+    }
+    
+    const regex = params.patternType !== 'fixed';
+    const args: string[] = [
+      'log',
+      `--format=${COMMIT_WITH_CHANGES_FORMAT}`,
+      '-n', String(params.maxResults),
+      params.pickaxe === 'diff' ? `-G${params.pattern}` : `-S${params.pattern}`,
+      '--patch', '-U0', ...DIFF_JSON_ARGS
+    ];
+    if (params.pickaxe === 'occurrences' && regex) args.push('--pickaxe-regex');
+    if (params.ignoreCase) args.push('--regexp-ignore-case');
+    if (params.patternType === 'perl') args.push('--perl-regexp');
+    else if (regex) args.push('--extended-regexp');
+    args.push(...(params.all ? ['--all'] : [END_OF_OPTIONS, params.ref || 'HEAD']));
+    args.push('--', ...(params.paths || []));
+    
+    const result = await runGit(args, {
+      cwd,
+      maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+    });
+    
+    if (result.exitCode !== 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git log: ${result.stderr.trim() || `exit code ${result.exitCode}`}`
+        }]
+      };
+    }
+    
+    const matches = lineMatcher(params);
+    const commits: GitPickaxeCommit[] = parseCommitsWithChanges(result.stdout, 'diff').map(commit => ({
+      hash: commit.hash,
+      subject: commit.subject,
+      author: commit.author,
+      matches: (commit.files || []).flatMap(file => file.hunks.flatMap(hunk => hunk.lines
+        .filter(line => line.type !== 'context' && matches(line.content))
+        .map(line => ({
+          path: (line.type === 'delete' ? file.oldPath : file.newPath) || file.oldPath || file.newPath || '',
+          type: line.type as 'add' | 'delete',
+          line: (line.type === 'delete' ? line.oldLine : line.newLine) ?? 0,
+          text: line.content
+        }))))
+    }));
+    
+    if (commits.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `No commits ${params.pickaxe === 'diff' ? 'with changed lines matching' : 'adding or removing'} '${params.pattern}'`
+        }]
+      };
+    }
+    
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ pattern: params.pattern, pickaxe: params.pickaxe, commits }, null, 2)
+      }]
+    };
+  }
+};
+
+export default gitSearchTool;
\ No newline at end of file
@@ -1,14 +1,18 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   action: z.enum(['save', 'list', 'show', 'pop', 'apply', 'drop', 'clear']).default('save').describe('Stash action'),
   message: z.string().optional().describe('Stash message (for save)'),
-  stashRef: z.string().optional().default('stash@{0}').describe('Stash reference (for show/pop/apply/drop)'),
+  stashRef: gitArgSchema().optional().default('stash@{0}').describe('Stash reference (for show/pop/apply/drop)'),
   includeUntracked: z.boolean().optional().default(false).describe('Include untracked files'),
   keepIndex: z.boolean().optional().default(false).describe('Keep staged changes in index'),
-  patch: z.boolean().optional().default(false).describe('Interactively select hunks')
+  patch: z.boolean().optional().default(false).describe('Interactively select hunks'),
+  confirm: confirmSchema
 });
 
 const gitStashTool: ToolDefinition = {
@@ -22,6 +26,16 @@ const gitStashTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
     // Interactive mode not supported
     if (params.patch) {
       return {
@@ -32,8 +46,25 @@ const gitStashTool: ToolDefinition = {
       };
     }
     
-    let command = 'git stash';
-    const args: string[] = [];
+    if (params.action === 'drop' || params.action === 'clear') {
+      const stashes = (await git(['stash', 'list'], { cwd: repo.cwd })).stdout.split('\n').filter(Boolean);
+      const dropped = params.action === 'clear' ? stashes : stashes.filter(line => line.startsWith(`${params.stashRef}:`));
+      const refusal = await enforcePolicy(repo.root!, {
+        operation: 'stash-drop',
+        target: params.action === 'clear' ? 'all' : params.stashRef,
+        description: dropped.length > 0 ? `Drop ${dropped.length} stash(es):\n${dropped.join('\n')}` : 'Drop no stashes'
+      }, params.confirm);
+      if (refusal) {
+        return {
+          content: [{
+            type: 'text',
+            text: refusal
+          }]
+        };
+      }
+    }
+    
+    const args: string[] = ['stash'];
     
     switch (params.action) {
       case 'save':
@@ -68,13 +99,9 @@ const gitStashTool: ToolDefinition = {
         break;
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 50 // 50MB buffer
       });
       
@@ -82,7 +109,7 @@ const gitStashTool: ToolDefinition = {
       
       switch (params.action) {
         case 'save':
-          const stashList = execSync('git stash list -1', { encoding: 'utf-8' }).trim();
+          const stashList = (await git(['stash', 'list', '-1'], { cwd: repo.cwd })).stdout.trim();
           message = output.includes('No local changes') 
             ? 'No changes to stash'
             : `Stashed changes successfully\n${stashList}`;
@@ -98,7 +125,7 @@ const gitStashTool: ToolDefinition = {
           
         case 'pop':
         case 'apply':
-          const status = execSync('git status --short', { encoding: 'utf-8' });
+          const status = (await git(['status', '--short'], { cwd: repo.cwd })).stdout;
           message = `Stash ${params.action === 'pop' ? 'popped' : 'applied'} successfully`;
           if (status) {
             message += '\n\nCurrent status:\n' + status;
@@ -1,13 +1,17 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { parseStatusV2 } from '../../utils/parsers.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   short: z.boolean().optional().default(false).describe('Give output in short format'),
   branch: z.boolean().optional().default(true).describe('Show branch information'),
   porcelain: z.boolean().optional().default(false).describe('Machine-readable output'),
   ignored: z.boolean().optional().default(false).describe('Show ignored files'),
-  untracked: z.enum(['normal', 'all', 'no']).optional().default('normal').describe('Show untracked files')
+  untracked: z.enum(['normal', 'all', 'no']).optional().default('normal').describe('Show untracked files'),
+  format: z.enum(['text', 'json']).optional().default('text').describe('Output format (json returns parsed porcelain v2 entries with ahead/behind)')
 });
 
 const gitStatusTool: ToolDefinition = {
@@ -21,19 +25,32 @@ const gitStatusTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git status';
-    const args: string[] = [];
-    
-    if (params.short) {
-      args.push('-s');
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
     }
     
-    if (params.branch && !params.porcelain) {
-      args.push('-b');
-    }
+    const args: string[] = ['status'];
     
-    if (params.porcelain) {
-      args.push('--porcelain=v1');
+    if (params.format === 'json') {
+      args.push('--porcelain=v2', '--branch', '-z');
+    } else {
+      if (params.short) {
+        args.push('-s');
+      }
+      
+      if (params.branch && !params.porcelain) {
+        args.push('-b');
+      }
+      
+      if (params.porcelain) {
+        args.push('--porcelain=v1');
+      }
     }
     
     if (params.ignored) {
@@ -47,16 +64,23 @@ const gitStatusTool: ToolDefinition = {
       args.push('-uno');
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
-    }
-    
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
+      if (params.format === 'json') {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(parseStatusV2(output), null, 2)
+            }
+          ]
+        };
+      }
+      
       if (!output.trim() && (params.short || params.porcelain)) {
         return {
           content: [
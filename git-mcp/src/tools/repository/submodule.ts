@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { GitSubmodule, ToolDefinition } from '../../types.js';
+import { git, gitArgSchema, NETWORK_TIMEOUT, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { parseSubmoduleStatus } from '../../utils/parsers.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  action: z.enum(['status', 'update', 'sync']).default('status').describe('status: list submodules and their state; update: check out the recorded commits; sync: copy URLs from .gitmodules into the local config'),
+  paths: z.array(gitArgSchema()).optional().describe('Limit to these submodule paths (relative to the repository root)'),
+  recursive: z.boolean().optional().default(true).describe('Include nested submodules'),
+  init: z.boolean().optional().default(true).describe('Initialize submodules that are not yet initialized (update)'),
+  remote: z.boolean().optional().default(false).describe('Update to the latest commit of the tracked remote branch instead of the recorded commit (update)'),
+  depth: z.number().int().positive().optional().describe('Shallow clone depth for newly cloned submodules (update)'),
+  force: z.boolean().optional().default(false).describe('Discard local changes in submodules when checking out (update)'),
+  timeout: z.number().optional().default(NETWORK_TIMEOUT).describe('Timeout in milliseconds for update (default: 5 minutes)'),
+  confirm: confirmSchema
+});
+
+/**
+ * Submodule name, URL and branch from .gitmodules, keyed by path
+ */
+async function readGitmodules(root: string): Promise<Map<string, Pick<GitSubmodule, 'name' | 'url' | 'branch'>>> {
+  const { stdout } = await runGit(['config', '-f', '.gitmodules', '-z', '--get-regexp', '^submodule\\.'], { cwd: root });
+  const byName = new Map<string, Record<string, string>>();
+  
+  // Entries are "submodule.<name>.<key>\n<value>\0"; names may contain dots
+  for (const entry of stdout.split('\0').filter(Boolean)) {
+    const [key, ...value] = entry.split('\n');
+    const match = key.match(/^submodule\.(.+)\.([^.]+)$/);
+    if (!match) continue;
+    byName.set(match[1], { ...byName.get(match[1]), [match[2]]: value.join('\n') });
+  }
+  
+  const byPath = new Map<string, Pick<GitSubmodule, 'name' | 'url' | 'branch'>>();
+  for (const [name, config] of byName) {
+    if (config.path) {
+      byPath.set(config.path, { name, url: config.url, ...(config.branch && { branch: config.branch }) });
+    }
+  }
+  return byPath;
+}
+
+async function submoduleStatus(root: string, paths: string[], recursive: boolean): Promise<GitSubmodule[]> {
+  const args = ['submodule', 'status'];
+  if (recursive) args.push('--recursive');
+  args.push('--', ...paths);
+  
+  const { stdout } = await git(args, { cwd: root });
+  const config = await readGitmodules(root);
+  return parseSubmoduleStatus(stdout).map(submodule => ({ ...submodule, ...config.get(submodule.path) }));
+}
+
+/**
+ * Submodules whose working trees have uncommitted changes to tracked files
+ */
+async function dirtySubmodules(root: string, paths: string[]): Promise<string[]> {
+  const { stdout } = await git(['status', '--porcelain=v2', '--ignore-submodules=none', '--untracked-files=no', '--', ...paths], { cwd: root });
+  // "1 <XY> S<c><m><u> <modes and hashes> <path>": m is M when tracked content changed
+  return stdout.split('\n')
+    .filter(line => /^1 \S+ S.M/.test(line))
+    .map(line => line.split(' ').slice(8).join(' '));
+}
+
+const gitSubmoduleTool: ToolDefinition = {
+  name: 'submodule',
+  description: 'Inspect, update and sync submodules',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    // Submodule paths are relative to the top of the worktree
+    const cwd = repo.root!;
+    const paths = params.paths || [];
+    
+    try {
+      if (params.action === 'status') {
+        const submodules = await submoduleStatus(cwd, paths, params.recursive);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: submodules.length > 0 ? JSON.stringify(submodules, null, 2) : 'No submodules found'
+          }]
+        };
+      }
+      
+      if (params.action === 'update' && params.force) {
+        const dirty = await dirtySubmodules(cwd, paths);
+        if (dirty.length > 0) {
+          const refusal = await enforcePolicy(cwd, {
+            operation: 'discard-changes',
+            target: dirty.join(', '),
+            description: `Force submodule update, discarding uncommitted changes in ${dirty.length} submodule(s): ${dirty.join(', ')}`
+          }, params.confirm);
+          if (refusal) {
+            return {
+              content: [{
+                type: 'text',
+                text: refusal
+              }]
+            };
+          }
+        }
+      }
+      
+      const args: string[] = ['submodule', params.action];
+      
+      if (params.action === 'update') {
+        if (params.init) args.push('--init');
+        if (params.remote) args.push('--remote');
+        if (params.force) args.push('--force');
+        if (params.depth) args.push('--depth', String(params.depth));
+      }
+      if (params.recursive) args.push('--recursive');
+      args.push('--', ...paths);
+      
+      const { stdout, stderr } = await git(args, {
+        cwd,
+        timeout: params.timeout,
+        maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+      });
+      
+      // Clone and checkout progress is reported on stderr
+      const output = [stdout.trim(), stderr.trim()].filter(Boolean).join('\n');
+      const submodules = await submoduleStatus(cwd, paths, params.recursive);
+      
+      let message = params.action === 'update' ? 'Submodules updated' : 'Submodule URLs synchronized';
+      if (output) {
+        message += `\n\n${output}`;
+      }
+      message += `\n\nSubmodules:\n${JSON.stringify(submodules, null, 2)}`;
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing git submodule ${params.action}: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitSubmoduleTool;
\ No newline at end of file
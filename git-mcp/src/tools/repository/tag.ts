@@ -1,15 +1,19 @@
 import { z } from 'zod';
 import { ToolDefinition } from '../../types.js';
-import { execSync } from 'child_process';
+import { git, gitArgSchema, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { PolicyCheck, confirmSchema, enforcePolicy } from '../../utils/policy.js';
 
 const inputSchema = z.object({
+  repoPath: repoPathSchema,
   action: z.enum(['list', 'create', 'delete', 'show']).default('list').describe('Tag action'),
-  name: z.string().optional().describe('Tag name'),
+  name: gitArgSchema().optional().describe('Tag name'),
   message: z.string().optional().describe('Tag message (creates annotated tag)'),
-  target: z.string().optional().default('HEAD').describe('Object to tag'),
+  target: gitArgSchema().optional().default('HEAD').describe('Object to tag'),
   force: z.boolean().optional().default(false).describe('Replace existing tag'),
   list: z.string().optional().describe('List tags matching pattern'),
-  sort: z.string().optional().describe('Sort tags by key')
+  sort: z.string().optional().describe('Sort tags by key'),
+  confirm: confirmSchema
 });
 
 const gitTagTool: ToolDefinition = {
@@ -23,8 +27,17 @@ const gitTagTool: ToolDefinition = {
   handler: async (input) => {
     const params = inputSchema.parse(input);
     
-    let command = 'git tag';
-    const args: string[] = [];
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    
+    const args: string[] = ['tag'];
     
     switch (params.action) {
       case 'list':
@@ -42,7 +55,7 @@ const gitTagTool: ToolDefinition = {
           };
         }
         if (params.message) {
-          args.push('-a', params.name, '-m', params.message);
+          args.push('-a', params.name, '--file=-');
         } else {
           args.push(params.name);
         }
@@ -71,18 +84,46 @@ const gitTagTool: ToolDefinition = {
             }]
           };
         }
-        command = 'git show';
+        args[0] = 'show';
         args.push(params.name);
         break;
     }
     
-    if (args.length > 0) {
-      command += ' ' + args.join(' ');
+    if (params.name && (params.action === 'delete' || (params.action === 'create' && params.force))) {
+      const existing = (await runGit(['rev-parse', '--short', '--verify', '-q', `refs/tags/${params.name}^{}`], { cwd: repo.cwd })).stdout.trim();
+      let check: PolicyCheck | null = null;
+      
+      if (params.action === 'delete') {
+        check = {
+          operation: 'tag-delete',
+          target: params.name,
+          description: `Delete tag '${params.name}'` + (existing ? ` (at ${existing})` : '')
+        };
+      } else if (existing) {
+        check = {
+          operation: 'tag-overwrite',
+          target: params.name,
+          description: `Move tag '${params.name}' from ${existing} to ${params.target}`
+        };
+      }
+      
+      if (check) {
+        const refusal = await enforcePolicy(repo.root!, check, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
     }
     
     try {
-      const output = execSync(command, { 
-        encoding: 'utf-8',
+      const { stdout: output } = await git(args, {
+        cwd: repo.cwd,
+        input: params.action === 'create' ? params.message : undefined,
         maxBuffer: 1024 * 1024 * 10 // 10MB buffer
       });
       
@@ -93,7 +134,7 @@ const gitTagTool: ToolDefinition = {
           message = output || 'No tags found';
           break;
         case 'create':
-          const tagInfo = execSync(`git show-ref tags/${params.name}`, { encoding: 'utf-8' }).trim();
+          const tagInfo = (await git(['show-ref', `tags/${params.name}`], { cwd: repo.cwd })).stdout.trim();
           message = `Tag '${params.name}' created`;
           if (params.message) {
             message += ' (annotated)';
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import { ToolDefinition } from '../../types.js';
+import { git, runGit } from '../../utils/git.js';
+import { repoPathSchema, resolveRepository } from '../../utils/repository.js';
+import { REFLOG_FORMAT, parseReflog } from '../../utils/parsers.js';
+import { detectOperation } from '../../utils/conflicts.js';
+import { confirmSchema, enforcePolicy } from '../../utils/policy.js';
+
+const inputSchema = z.object({
+  repoPath: repoPathSchema,
+  action: z.enum(['list', 'preview', 'restore']).default('list').describe('List HEAD movements, preview restoring one, or restore it'),
+  entry: z.number().int().min(1).optional().describe('Reflog entry index from list (HEAD@{n}) to preview or restore'),
+  count: z.number().int().positive().optional().default(20).describe('Number of reflog entries to list'),
+  confirm: confirmSchema
+});
+
+const gitUndoTool: ToolDefinition = {
+  name: 'undo',
+  description: 'Undo resets, rebases, amends and other HEAD movements using the reflog',
+  category: 'git',
+  subcategory: 'repository',
+  version: '1.0.0',
+  inputSchema,
+  
+  handler: async (input) => {
+    const params = inputSchema.parse(input);
+    
+    const repo = await resolveRepository(params.repoPath);
+    if (!repo.valid) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: ${repo.error}`
+        }]
+      };
+    }
+    const cwd = repo.cwd!;
+    
+    try {
+      if (params.action === 'list') {
+        const { stdout } = await git(
+          ['reflog', 'show', '--date=iso-strict', `--format=${REFLOG_FORMAT}`, '-n', String(params.count), 'HEAD'],
+          { cwd }
+        );
+        const entries = parseReflog(stdout);
+        
+        if (entries.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: 'No reflog entries found'
+            }]
+          };
+        }
+        
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(entries, null, 2) + '\n\nUse action "preview" with entry=<index> to see what restoring an entry would change.'
+          }]
+        };
+      }
+      
+      if (params.entry === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: entry is required for ${params.action} action`
+          }]
+        };
+      }
+      
+      const selector = `HEAD@{${params.entry}}`;
+      const { stdout: reflog } = await git(
+        ['reflog', 'show', '--date=iso-strict', `--format=${REFLOG_FORMAT}`, '-n', String(params.entry + 1), 'HEAD'],
+        { cwd }
+      );
+      const entry = parseReflog(reflog)[params.entry];
+      
+      if (!entry) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Reflog entry ${selector} does not exist`
+          }]
+        };
+      }
+      
+      const head = (await git(['rev-parse', 'HEAD'], { cwd })).stdout.trim();
+      const branch = (await runGit(['symbolic-ref', '--short', '-q', 'HEAD'], { cwd })).stdout.trim();
+      const dirty = (await git(['status', '--porcelain', '--untracked-files=all'], { cwd })).stdout;
+      
+      if (params.action === 'preview') {
+        const dropped = (await git(['log', '--oneline', `${entry.hash}..${head}`], { cwd })).stdout;
+        const regained = (await git(['log', '--oneline', `${head}..${entry.hash}`], { cwd })).stdout;
+        const diff = (await git(['diff', '--stat', head, entry.hash], { cwd })).stdout;
+        
+        let message = `Restoring ${selector} (${entry.operation}: ${entry.message})\n`;
+        message += `would move ${branch ? `branch '${branch}'` : 'detached HEAD'} from ${head.substring(0, 7)} to ${entry.hash.substring(0, 7)} (${entry.subject})\n`;
+        
+        if (head === entry.hash) {
+          message += '\nHEAD is already at this commit; only uncommitted changes would be stashed.\n';
+        }
+        if (regained) {
+          message += `\nCommits brought back:\n${regained}`;
+        }
+        if (dropped) {
+          message += `\nCommits no longer on ${branch || 'HEAD'} (still reachable via the reflog):\n${dropped}`;
+        }
+        if (diff) {
+          message += `\nFile changes:\n${diff}`;
+        }
+        if (dirty) {
+          message += `\nUncommitted changes that would be stashed first:\n${dirty}`;
+        }
+        
+        return {
+          content: [{
+            type: 'text',
+            text: message
+          }]
+        };
+      }
+      
+      const operation = await detectOperation(cwd);
+      if (operation) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: A ${operation} is in progress. Abort it first (e.g. git_${operation.replace('-', '_')} with abort=true), then restore.`
+          }]
+        };
+      }
+      
+      if (head !== entry.hash) {
+        const refusal = await enforcePolicy(repo.root!, {
+          operation: 'history-rewrite',
+          target: branch || 'HEAD',
+          branches: branch ? [branch] : [],
+          description: `Move ${branch ? `'${branch}'` : 'HEAD'} from ${head.substring(0, 7)} to ${entry.hash.substring(0, 7)} (${selector})`
+        }, params.confirm);
+        if (refusal) {
+          return {
+            content: [{
+              type: 'text',
+              text: refusal
+            }]
+          };
+        }
+      }
+      
+      let stashed = false;
+      if (dirty) {
+        await git(['stash', 'push', '--include-untracked', '--message', `git-mcp undo: before restoring ${selector} (${entry.hash.substring(0, 7)})`], { cwd });
+        stashed = true;
+      }
+      
+      await git(['reset', '--hard', entry.hash], { cwd });
+      
+      let message = `Restored ${branch ? `branch '${branch}'` : 'HEAD'} to ${entry.hash.substring(0, 7)} (${entry.subject})\n`;
+      message += `from ${selector}: ${entry.operation}: ${entry.message}\n`;
+      message += `\nPrevious position ${head.substring(0, 7)} is now HEAD@{1}; restore entry 1 to revert this undo.`;
+      if (stashed) {
+        message += '\nUncommitted changes were stashed as stash@{0}; use git_stash with action "pop" to bring them back.';
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: message
+        }]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error executing undo: ${errorMessage}`
+        }]
+      };
+    }
+  }
+};
+
+export default gitUndoTool;
\ No newline at end of file
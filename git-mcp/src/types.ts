@@ -12,4 +12,271 @@ export interface ToolDefinition {
     }>;
     [key: string]: any;
   }>;
+}
+
+export type GitFileState =
+  | 'unmodified'
+  | 'modified'
+  | 'type-changed'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'unmerged'
+  | 'untracked'
+  | 'ignored';
+
+export interface GitStatusEntry {
+  kind: 'changed' | 'renamed' | 'copied' | 'unmerged' | 'untracked' | 'ignored';
+  path: string;
+  origPath?: string;
+  index: GitFileState;
+  worktree: GitFileState;
+  submodule?: string;
+  similarity?: number;
+}
+
+export interface GitBranchStatus {
+  oid?: string;
+  head?: string;
+  upstream?: string;
+  ahead?: number;
+  behind?: number;
+}
+
+export interface GitStatusResult {
+  branch: GitBranchStatus;
+  entries: GitStatusEntry[];
+}
+
+export interface GitPerson {
+  name: string;
+  email: string;
+  date: string;
+}
+
+export interface GitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  parents: string[];
+  author: GitPerson;
+  committer: GitPerson;
+  subject: string;
+  body: string;
+  trailers: GitTrailer[];
+}
+
+export interface GitDiffLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+  noNewlineAtEnd?: boolean;
+}
+
+export interface GitDiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;
+  lines: GitDiffLine[];
+}
+
+export interface GitDiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  status: 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+  binary: boolean;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;
+  hunks: GitDiffHunk[];
+  /** Set when the file is a Git LFS pointer; the hunks are then dropped */
+  lfs?: {
+    old?: GitLfsPointer;
+    new?: GitLfsPointer;
+  };
+}
+
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+export type GitConflictSide = 'ours' | 'theirs' | 'base';
+
+export interface GitConflictStage {
+  oid: string;
+  mode: string;
+  content?: string;
+  binary?: boolean;
+  truncated?: boolean;
+}
+
+export interface GitConflictHunk {
+  index: number;
+  startLine: number;
+  endLine: number;
+  oursLabel: string;
+  theirsLabel: string;
+  baseLabel?: string;
+  ours: string[];
+  theirs: string[];
+  base?: string[];
+}
+
+export interface GitConflictFile {
+  path: string;
+  stages: Partial<Record<GitConflictSide, GitConflictStage>>;
+  hunks: GitConflictHunk[];
+}
+
+export interface GitBlameCommit {
+  author: GitPerson;
+  committer: GitPerson;
+  summary: string;
+  filename: string;
+  previous?: { commit: string; filename: string };
+  boundary?: boolean;
+}
+
+export interface GitBlameLine {
+  line: number;
+  originalLine: number;
+  commit: string;
+  content: string;
+}
+
+export interface GitBlameResult {
+  commits: Record<string, GitBlameCommit>;
+  lines: GitBlameLine[];
+}
+
+export interface GitFileChange {
+  status: string;
+  path: string;
+  oldPath?: string;
+}
+
+export interface GitFileHistoryEntry extends GitCommit {
+  changes?: GitFileChange[];
+  files?: GitDiffFile[];
+}
+
+export interface GitWorktree {
+  path: string;
+  head?: string;
+  branch?: string;
+  detached: boolean;
+  bare: boolean;
+  locked: boolean;
+  lockReason?: string;
+  prunable: boolean;
+  prunableReason?: string;
+  current?: boolean;
+}
+
+export interface GitBisectState {
+  status: 'waiting' | 'bisecting' | 'found' | 'inconclusive';
+  remaining?: number;
+  steps?: number;
+  current?: { hash: string; subject: string };
+  firstBad?: string;
+  candidates?: string[];
+}
+
+export interface GitReflogEntry {
+  index: number;
+  selector: string;
+  hash: string;
+  operation: string;
+  message: string;
+  date: string;
+  subject: string;
+}
+
+export interface GitChangelogEntry {
+  hash: string;
+  type: string | null;
+  scope?: string;
+  subject: string;
+  breaking?: string;
+  pullRequests: number[];
+  issues: string[];
+  author: string;
+}
+
+export interface GitChangelogGroup {
+  type: string;
+  title: string;
+  entries: GitChangelogEntry[];
+}
+
+export interface GitChangelog {
+  from: string | null;
+  to: string;
+  title: string;
+  date: string;
+  breaking: GitChangelogEntry[];
+  groups: GitChangelogGroup[];
+}
+
+export interface GitGrepLine {
+  line: number;
+  column?: number;
+  text: string;
+  match: boolean;
+}
+
+export interface GitGrepFile {
+  path: string;
+  matches: number;
+  lines: GitGrepLine[];
+}
+
+export interface GitPickaxeMatch {
+  path: string;
+  type: 'add' | 'delete';
+  line: number;
+  text: string;
+}
+
+export interface GitPickaxeCommit {
+  hash: string;
+  subject: string;
+  author: GitPerson;
+  matches: GitPickaxeMatch[];
+}
+
+export interface GitSubmodule {
+  path: string;
+  name?: string;
+  url?: string;
+  branch?: string;
+  commit: string;
+  status: 'current' | 'uninitialized' | 'modified' | 'conflict';
+  describe?: string;
+}
+
+export interface GitLfsPointer {
+  oid: string;
+  size: number;
+}
+
+export interface GitLfsFile {
+  path: string;
+  /** false when the working tree only holds the pointer file */
+  downloaded: boolean;
+  oid?: string;
+  size?: number;
+}
+
+export interface GitLfsLock {
+  id: string;
+  path: string;
+  owner?: string;
+  lockedAt?: string;
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { GitChangelog, GitChangelogEntry, GitChangelogGroup, GitCommit } from '../types.js';
+import { parseConventionalHeader } from './commitlint.js';
+
+export interface ChangelogLinks {
+  /** Web URL of the repository, used to link commits and pull requests */
+  repoUrl?: string;
+  /** Jira base URL, issue keys link to <jiraUrl>/browse/<KEY> */
+  jiraUrl?: string;
+}
+
+const GROUP_TITLES: Array<[string, string]> = [
+  ['feat', 'Features'],
+  ['fix', 'Bug Fixes'],
+  ['perf', 'Performance'],
+  ['refactor', 'Refactoring'],
+  ['revert', 'Reverts'],
+  ['docs', 'Documentation'],
+  ['test', 'Tests'],
+  ['build', 'Build'],
+  ['ci', 'CI'],
+  ['style', 'Style'],
+  ['chore', 'Chores']
+];
+
+const OTHER_GROUP = 'other';
+
+// Prefixes that look like issue keys but are not (UTF-8, SHA-256, ...)
+const NOT_ISSUE_PREFIXES = new Set(['UTF', 'SHA', 'ISO', 'RFC', 'CVE', 'AES', 'TLS', 'HTTP', 'X']);
+
+function findPullRequests(text: string): number[] {
+  const numbers = [
+    ...[...text.matchAll(/(?:^|[\s(])#(\d+)\b/g)].map(match => parseInt(match[1], 10)),
+    ...[...text.matchAll(/Merge pull request #(\d+)/g)].map(match => parseInt(match[1], 10))
+  ];
+  return [...new Set(numbers)];
+}
+
+function findIssueKeys(text: string): string[] {
+  const keys = [...text.matchAll(/\b([A-Z][A-Z0-9]+)-(\d+)\b/g)]
+    .filter(match => !NOT_ISSUE_PREFIXES.has(match[1]))
+    .map(match => `${match[1]}-${match[2]}`);
+  return [...new Set(keys)];
+}
+
+function breakingNote(commit: GitCommit): string | undefined {
+  const trailer = commit.trailers.find(item => /^BREAKING[ -]CHANGE$/i.test(item.key));
+  if (trailer) return trailer.value;
+
+  const footer = commit.body.match(/^BREAKING[ -]CHANGE:\s*([\s\S]*?)(?:\n\n|$)/m);
+  return footer ? footer[1].trim() : undefined;
+}
+
+/**
+ * Convert a remote URL (https or scp-like ssh) into the repository web URL
+ */
+export function remoteWebUrl(remoteUrl: string): string | undefined {
+  const url = remoteUrl.trim().replace(/\.git$/, '');
+
+  const ssh = url.match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.+)$/);
+  if (ssh) return `https://${ssh[1]}/${ssh[2]}`;
+
+  const http = url.match(/^https?:\/\/(?:[^@/]+@)?(.+)$/);
+  return http ? `https://${http[1]}` : undefined;
+}
+
+/**
+ * Group commits by Conventional Commits type and collect breaking changes,
+ * pull request numbers and issue keys
+ */
+export function buildChangelog(commits: GitCommit[], meta: { from: string | null; to: string; title: string; date: string }): GitChangelog {
+  const groups = new Map<string, GitChangelogEntry[]>();
+  const breaking: GitChangelogEntry[] = [];
+
+  for (const commit of commits) {
+    const header = parseConventionalHeader(commit.subject);
+    const text = [commit.subject, commit.body, ...commit.trailers.map(trailer => `${trailer.key}: ${trailer.value}`)].join('\n');
+    const note = breakingNote(commit) ?? (header?.breaking ? header.subject : undefined);
+
+    const entry: GitChangelogEntry = {
+      hash: commit.hash,
+      type: header ? header.type.toLowerCase() : null,
+      ...(header?.scope && { scope: header.scope }),
+      subject: header ? header.subject : commit.subject,
+      ...(note && { breaking: note }),
+      pullRequests: findPullRequests(text),
+      issues: findIssueKeys(text),
+      author: commit.author.name
+    };
+
+    const known = entry.type && GROUP_TITLES.some(([type]) => type === entry.type);
+    const group = known ? entry.type! : OTHER_GROUP;
+    groups.set(group, [...(groups.get(group) || []), entry]);
+
+    if (note) breaking.push(entry);
+  }
+
+  const ordered: GitChangelogGroup[] = [...GROUP_TITLES, [OTHER_GROUP, 'Other Changes'] as [string, string]]
+    .filter(([type]) => groups.has(type))
+    .map(([type, title]) => ({
+      type,
+      title,
+      // Group by scope (unscoped last); sort is stable so history order is kept within a scope
+      entries: [...groups.get(type)!].sort((a, b) => (a.scope ? 0 : 1) - (b.scope ? 0 : 1) || (a.scope || '').localeCompare(b.scope || ''))
+    }));
+
+  return { ...meta, breaking, groups: ordered };
+}
+
+function renderEntry(entry: GitChangelogEntry, links: ChangelogLinks): string {
+  const shortHash = entry.hash.substring(0, 7);
+  const pullPath = links.repoUrl?.includes('gitlab') ? '-/merge_requests' : 'pull';
+  const refs = [
+    ...entry.pullRequests.map(number => (links.repoUrl ? `[#${number}](${links.repoUrl}/${pullPath}/${number})` : `#${number}`)),
+    ...entry.issues.map(key => (links.jiraUrl ? `[${key}](${links.jiraUrl.replace(/\/$/, '')}/browse/${key})` : key))
+  ];
+
+  let line = '- ';
+  if (entry.scope) line += `**${entry.scope}:** `;
+  // Drop "(#123)" suffixes, the references are listed separately
+  line += entry.subject.replace(/\s*\(#\d+\)$/, '');
+  if (refs.length > 0) line += ` (${refs.join(', ')})`;
+  line += links.repoUrl ? ` ([${shortHash}](${links.repoUrl}/commit/${entry.hash}))` : ` (${shortHash})`;
+  return line;
+}
+
+/**
+ * Render release notes as Markdown
+ */
+export function renderChangelogMarkdown(changelog: GitChangelog, links: ChangelogLinks = {}): string {
+  const lines: string[] = [`## ${changelog.title} (${changelog.date})`, ''];
+
+  if (changelog.breaking.length > 0) {
+    lines.push('### ⚠ BREAKING CHANGES', '');
+    for (const entry of changelog.breaking) {
+      lines.push(`- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.breaking}`);
+    }
+    lines.push('');
+  }
+
+  for (const group of changelog.groups) {
+    lines.push(`### ${group.title}`, '');
+    lines.push(...group.entries.map(entry => renderEntry(entry, links)));
+    lines.push('');
+  }
+
+  if (changelog.groups.length === 0) {
+    lines.push('No changes.', '');
+  }
+
+  return lines.join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CONVENTIONAL_RULES, CommitLintRule, issueKeyFromBranch, lintCommitMessage, loadCommitLintConfig } from './commitlint.js';
+
+test('issue keys are taken from Jira-style branch names', () => {
+  assert.equal(issueKeyFromBranch('PROJ-123'), 'PROJ-123');
+  assert.equal(issueKeyFromBranch('feature/PROJ-123-add-login'), 'PROJ-123');
+  assert.equal(issueKeyFromBranch('bugfix/AB2-7_crash'), 'AB2-7');
+});
+
+test('lowercase words followed by numbers are not issue keys', () => {
+  assert.equal(issueKeyFromBranch('feature/add-login-42'), null);
+  assert.equal(issueKeyFromBranch('release/hotfix-2024'), null);
+  assert.equal(issueKeyFromBranch('feature/proj-123-add-login'), null);
+  assert.equal(issueKeyFromBranch('main'), null);
+});
+/**
+ * Rules that failed for a message, in the order they were checked
+ */
+function failedRules(message: string, rules = CONVENTIONAL_RULES): string[] {
+  return lintCommitMessage(message, rules).map(issue => issue.rule);
+}
+
+test('conventional messages pass', () => {
+  assert.deepEqual(failedRules('feat(auth): add login'), []);
+  assert.deepEqual(failedRules('fix: handle empty input\n\nThe parser crashed on empty files.\n\nRefs: PROJ-12'), []);
+});
+
+test('headers longer than the limit are errors', () => {
+  const issues = lintCommitMessage(`feat: ${'a'.repeat(95)}`, CONVENTIONAL_RULES);
+  assert.deepEqual(issues, [{
+    level: 'error',
+    rule: 'header-max-length',
+    message: 'header must not be longer than 100 characters (currently 101)'
+  }]);
+  assert.deepEqual(failedRules(`feat: ${'a'.repeat(94)}`), []);
+});
+
+test('the type must be present, known and lowercase', () => {
+  assert.deepEqual(failedRules('add login'), ['type-empty']);
+  assert.deepEqual(failedRules('feature: add login'), ['type-enum']);
+  assert.deepEqual(failedRules('Feat: add login'), ['type-enum', 'type-case']);
+});
+
+test('the scope must be lowercase and match scope-enum when configured', () => {
+  assert.deepEqual(failedRules('feat(Auth): add login'), ['scope-case']);
+  const rules = { ...CONVENTIONAL_RULES, 'scope-enum': [2, 'always', ['api', 'ui']] as CommitLintRule };
+  assert.deepEqual(failedRules('feat(api): add login', rules), []);
+  assert.deepEqual(failedRules('feat(api,ui): add login', rules), []);
+  assert.deepEqual(failedRules('feat(db): add login', rules), ['scope-enum']);
+});
+
+test('a body without a blank line after the header is a warning', () => {
+  const issues = lintCommitMessage('feat: add login\nThe form posts to /login.', CONVENTIONAL_RULES);
+  assert.deepEqual(issues.map(issue => [issue.rule, issue.level]), [['body-leading-blank', 'warning']]);
+});
+
+test('rules at level 0 are off', () => {
+  assert.deepEqual(failedRules('feature: add login', { ...CONVENTIONAL_RULES, 'type-enum': [0] }), []);
+});
+
+test('merge and fixup messages are not linted', () => {
+  assert.deepEqual(failedRules("Merge branch 'main' into feature"), []);
+  assert.deepEqual(failedRules('fixup! feat: add login'), []);
+});
+
+/**
+ * Create a directory holding the given files
+ */
+function withFiles(t: TestContext, files: Record<string, string>): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'git-mcp-commitlint-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+test('no config is found without a commitlint file or package.json key', async (t) => {
+  const dir = withFiles(t, { 'package.json': '{"name": "app"}' });
+  assert.equal(await loadCommitLintConfig(dir), null);
+});
+
+test('configs extending the conventional preset start from its rules', async (t) => {
+  const dir = withFiles(t, {
+    '.commitlintrc.json': JSON.stringify({
+      extends: ['@commitlint/config-conventional'],
+      rules: { 'header-max-length': [2, 'always', 72] }
+    })
+  });
+  const config = await loadCommitLintConfig(dir);
+  assert.equal(config?.source, '.commitlintrc.json');
+  assert.deepEqual(config?.rules['type-enum'], CONVENTIONAL_RULES['type-enum']);
+  assert.deepEqual(config?.rules['header-max-length'], [2, 'always', 72]);
+});
+
+test('configs without extends only use their own rules', async (t) => {
+  const dir = withFiles(t, {
+    'package.json': JSON.stringify({ name: 'app', commitlint: { rules: { 'type-empty': [2, 'never'] } } })
+  });
+  const config = await loadCommitLintConfig(dir);
+  assert.equal(config?.source, 'package.json');
+  assert.deepEqual(config?.rules, { 'type-empty': [2, 'never'] });
+});
+
+test('dedicated config files take precedence over package.json', async (t) => {
+  const dir = withFiles(t, {
+    '.commitlintrc': JSON.stringify({ rules: {} }),
+    'package.json': JSON.stringify({ commitlint: { rules: { 'type-empty': [2, 'never'] } } })
+  });
+  assert.equal((await loadCommitLintConfig(dir))?.source, '.commitlintrc');
+});
+
+test('invalid configs are reported with the file name', async (t) => {
+  await assert.rejects(loadCommitLintConfig(withFiles(t, { '.commitlintrc.json': '{' })), /Invalid commitlint config in \.commitlintrc\.json/);
+  await assert.rejects(
+    loadCommitLintConfig(withFiles(t, { '.commitlintrc.json': JSON.stringify({ rules: { 'type-enum': [2, 'sometimes', ['feat']] } }) })),
+    /rules\.type-enum: condition must be "always" or "never"/
+  );
+  await assert.rejects(
+    loadCommitLintConfig(withFiles(t, { '.commitlintrc.json': JSON.stringify({ rules: { 'type-enum': [5] } }) })),
+    /rules\.type-enum\.0/
+  );
+});
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * A commitlint rule: [level (0 off, 1 warning, 2 error), 'always' | 'never', value]
+ */
+export type CommitLintRule = [number, ('always' | 'never')?, unknown?];
+
+export type CommitLintRules = Record<string, CommitLintRule>;
+
+export interface CommitLintIssue {
+  level: 'error' | 'warning';
+  rule: string;
+  message: string;
+}
+
+export interface CommitLintConfig {
+  source: string;
+  rules: CommitLintRules;
+}
+
+/**
+ * Rules of @commitlint/config-conventional
+ */
+export const CONVENTIONAL_RULES: CommitLintRules = {
+  'type-enum': [2, 'always', ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test']],
+  'type-case': [2, 'always', 'lower-case'],
+  'type-empty': [2, 'never'],
+  'scope-case': [2, 'always', 'lower-case'],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'header-max-length': [2, 'always', 100],
+  'body-leading-blank': [1, 'always'],
+  'body-max-line-length': [2, 'always', 100],
+  'footer-leading-blank': [1, 'always'],
+  'footer-max-line-length': [2, 'always', 100]
+};
+
+const CONFIG_FILES = ['.commitlintrc.json', '.commitlintrc', 'commitlint.config.json'];
+
+// Messages commitlint skips by default
+const IGNORED_MESSAGES = [/^Merge /, /^Revert "/, /^(fixup|squash|amend)! /, /^Initial commit/i];
+
+const ruleSchema = z.tuple([z.number().int().min(0).max(2)])
+  .rest(z.unknown())
+  .refine(rule => rule.length <= 3, { message: 'rules have at most [level, "always" | "never", value]' })
+  .refine(rule => rule[1] === undefined || rule[1] === 'always' || rule[1] === 'never', { message: 'condition must be "always" or "never"' })
+  .transform(rule => rule as CommitLintRule);
+
+const configSchema = z.object({
+  extends: z.union([z.string(), z.array(z.string())]).optional(),
+  rules: z.record(ruleSchema).optional()
+});
+
+const HEADER_PATTERN = /^(\w*)(?:\(([^)]*)\))?(!)?: (.*)$/;
+
+/**
+ * Split a Conventional Commits header into its parts, or null when it does not follow the format
+ */
+export function parseConventionalHeader(header: string): { type: string; scope?: string; breaking: boolean; subject: string } | null {
+  const match = header.match(HEADER_PATTERN);
+  if (!match) return null;
+  return { type: match[1], scope: match[2], breaking: Boolean(match[3]), subject: match[4] };
+}
+
+/**
+ * Load a JSON commitlint config from the repository root (.commitlintrc.json,
+ * .commitlintrc, commitlint.config.json or the "commitlint" key of package.json).
+ * Configs extending the conventional preset start from CONVENTIONAL_RULES.
+ */
+export async function loadCommitLintConfig(root: string): Promise<CommitLintConfig | null> {
+  const candidates: Array<[string, (text: string) => unknown]> = [
+    ...CONFIG_FILES.map((file): [string, (text: string) => unknown] => [file, text => JSON.parse(text)]),
+    ['package.json', text => JSON.parse(text)?.commitlint]
+  ];
+
+  for (const [file, extract] of candidates) {
+    let text: string;
+    try {
+      text = await readFile(path.join(root, file), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let config: z.infer<typeof configSchema>;
+    try {
+      const extracted = extract(text);
+      if (extracted === undefined || extracted === null) continue;
+      config = configSchema.parse(extracted);
+    } catch (error) {
+      const reason = error instanceof z.ZodError
+        ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid commitlint config in ${file}: ${reason}`);
+    }
+
+    const extendsList = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+    const base = extendsList.some(name => name.includes('config-conventional')) ? CONVENTIONAL_RULES : {};
+
+    return { source: file, rules: { ...base, ...(config.rules || {}) } };
+  }
+
+  return null;
+}
+
+function matchesCase(value: string, format: string): boolean {
+  switch (format) {
+    case 'lower-case':
+      return value === value.toLowerCase();
+    case 'upper-case':
+      return /[A-Z]/.test(value) && value === value.toUpperCase();
+    case 'sentence-case':
+      return /^[A-Z]/.test(value) && value.slice(1) === value.slice(1).toLowerCase();
+    case 'start-case':
+      return value.split(/\s+/).every(word => /^[A-Z]/.test(word));
+    case 'pascal-case':
+      return /^[A-Z][a-zA-Z0-9]*$/.test(value);
+    case 'camel-case':
+      return /^[a-z][a-zA-Z0-9]*$/.test(value);
+    case 'kebab-case':
+      return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(value);
+    case 'snake-case':
+      return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Lint a commit message against commitlint-style rules. Only the common
+ * header, body and footer rules are supported; unknown rules are ignored.
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): CommitLintIssue[] {
+  const issues: CommitLintIssue[] = [];
+  const lines = message.replace(/\s+$/, '').split('\n');
+  const header = lines[0] || '';
+
+  if (IGNORED_MESSAGES.some(pattern => pattern.test(header))) {
+    return issues;
+  }
+
+  const match = parseConventionalHeader(header);
+  const type = match?.type || '';
+  const scope = match?.scope;
+  const subject = match ? match.subject : '';
+
+  // The footer is the last paragraph when it consists of trailers; the body is everything in between
+  const rest = lines.slice(1);
+  const leadingBlank = rest.length === 0 || rest[0].trim() === '';
+  const paragraphs = rest.join('\n').trim().split(/\n\s*\n/).filter(Boolean);
+  const hasFooter = paragraphs.length > 0 && /^(BREAKING CHANGE|[\w-]+)(: | #)/.test(paragraphs[paragraphs.length - 1]);
+  const footerLines = hasFooter ? paragraphs[paragraphs.length - 1].split('\n') : [];
+  const bodyText = (hasFooter ? paragraphs.slice(0, -1) : paragraphs).join('\n\n');
+  const bodyLines = bodyText ? bodyText.split('\n') : [];
+
+  const check = (rule: string, valid: (when: 'always' | 'never', value: unknown) => boolean, describe: (when: 'always' | 'never', value: unknown) => string) => {
+    const config = rules[rule];
+    if (!config || config[0] === 0) return;
+
+    const when = config[1] || 'always';
+    if (!valid(when, config[2])) {
+      issues.push({ level: config[0] >= 2 ? 'error' : 'warning', rule, message: describe(when, config[2]) });
+    }
+  };
+
+  const negate = (when: string, result: boolean) => (when === 'never' ? !result : result);
+  const formats = (value: unknown): string[] => (Array.isArray(value) ? value : [value]).filter((format): format is string => typeof format === 'string');
+  const length = (value: unknown, fallback: number): number => (typeof value === 'number' ? value : fallback);
+  const fullStop = (value: unknown): string => (typeof value === 'string' ? value : '.');
+
+  check('type-empty', when => negate(when, !type), when => when === 'never' ? 'type may not be empty (expected "type(scope): subject")' : 'type must be empty');
+  check('type-enum', (when, value) => !type || negate(when, formats(value).includes(type)), (_, value) => `type must be one of [${formats(value).join(', ')}]`);
+  check('type-case', (when, value) => !type || negate(when, formats(value).some(format => matchesCase(type, format))), (when, value) => `type must ${when === 'never' ? 'not ' : ''}be ${formats(value).join(' or ')}`);
+  check('scope-empty', when => negate(when, !scope), when => when === 'never' ? 'scope may not be empty' : 'scope must be empty');
+  check('scope-enum', (when, value) => !scope || negate(when, scope.split(/[,/]/).every(part => formats(value).includes(part.trim()))), (_, value) => `scope must be one of [${formats(value).join(', ')}]`);
+  check('scope-case', (when, value) => !scope || negate(when, formats(value).some(format => matchesCase(scope, format))), (when, value) => `scope must ${when === 'never' ? 'not ' : ''}be ${formats(value).join(' or ')}`);
+  check('subject-empty', when => !match || negate(when, !subject), when => when === 'never' ? 'subject may not be empty' : 'subject must be empty');
+  check('subject-case', (when, value) => !subject || negate(when, formats(value).some(format => matchesCase(subject, format))), (when, value) => `subject must ${when === 'never' ? 'not ' : ''}be ${formats(value).join(' or ')}`);
+  check('subject-full-stop', (when, value) => !subject || negate(when, subject.endsWith(fullStop(value))), (when, value) => `subject must ${when === 'never' ? 'not ' : ''}end with "${fullStop(value)}"`);
+  check('header-max-length', (_, value) => header.length <= length(value, Infinity), (_, value) => `header must not be longer than ${length(value, Infinity)} characters (currently ${header.length})`);
+  check('header-min-length', (_, value) => header.length >= length(value, 0), (_, value) => `header must be at least ${length(value, 0)} characters`);
+  check('body-leading-blank', when => bodyLines.length === 0 || negate(when, leadingBlank), when => `body must ${when === 'never' ? 'not ' : ''}have a leading blank line`);
+  check('body-max-line-length', (_, value) => bodyLines.every(line => line.length <= length(value, Infinity) || /^\S+:\/\//.test(line)), (_, value) => `body lines must not be longer than ${length(value, Infinity)} characters`);
+  check('body-empty', when => negate(when, bodyLines.join('').trim() === ''), when => when === 'never' ? 'body may not be empty' : 'body must be empty');
+  check('footer-leading-blank', when => !hasFooter || negate(when, bodyLines.length > 0 || leadingBlank), when => `footer must ${when === 'never' ? 'not ' : ''}have a leading blank line`);
+  check('footer-max-line-length', (_, value) => footerLines.every(line => line.length <= length(value, Infinity)), (_, value) => `footer lines must not be longer than ${length(value, Infinity)} characters`);
+
+  return issues;
+}
+
+/**
+ * Extract an issue key such as "PROJ-123" from a branch name. Only uppercase project keys
+ * count, so words like "login-42" in "feature/add-login-42" are not taken for issues.
+ */
+export function issueKeyFromBranch(branch: string): string | null {
+  const match = branch.match(/(?:^|[/_-])([A-Z][A-Z0-9]+-\d+)(?=$|[/_-])/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Build a Conventional Commits header from its parts
+ */
+export function conventionalHeader(type: string, scope: string | undefined, breaking: boolean, subject: string): string {
+  return `${type}${scope ? `(${scope})` : ''}${breaking ? '!' : ''}: ${subject}`;
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { existsSync } from 'fs';
+import { GitConflictHunk, GitConflictSide, GitConflictStage, GitOperation } from '../types.js';
+import { gitPath, runGit } from './git.js';
+
+const STAGE_SIDES: Record<string, GitConflictSide> = {
+  '1': 'base',
+  '2': 'ours',
+  '3': 'theirs'
+};
+
+export const SIDE_STAGES: Record<GitConflictSide, number> = {
+  base: 1,
+  ours: 2,
+  theirs: 3
+};
+
+/**
+ * Detect which operation left the repository in a conflicted state
+ */
+export async function detectOperation(cwd: string): Promise<GitOperation | null> {
+  const markers: Array<[string, GitOperation]> = [
+    ['rebase-merge', 'rebase'],
+    ['rebase-apply', 'rebase'],
+    ['MERGE_HEAD', 'merge'],
+    ['CHERRY_PICK_HEAD', 'cherry-pick'],
+    ['REVERT_HEAD', 'revert']
+  ];
+
+  for (const [name, operation] of markers) {
+    if (existsSync(await gitPath(cwd, name))) {
+      return operation;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Suggest how to finish the operation once every conflict is resolved
+ */
+export function nextStepHint(operation: GitOperation | null): string {
+  switch (operation) {
+    case 'rebase':
+      return 'Use git_rebase with continue=true to proceed.';
+    case 'merge':
+      return 'Use git_commit to conclude the merge.';
+    case 'cherry-pick':
+      return 'Use git_cherry_pick with continue=true to proceed.';
+    case 'revert':
+      return 'Use git_revert with continue=true to proceed.';
+    default:
+      return 'Use git_commit to record the resolution.';
+  }
+}
+
+/**
+ * List unmerged paths with the blob of each stage (base/ours/theirs)
+ */
+export async function listConflictedPaths(cwd: string, paths: string[] = []): Promise<Map<string, Partial<Record<GitConflictSide, GitConflictStage>>>> {
+  const { stdout } = await runGit(['ls-files', '--unmerged', '-z', '--', ...paths], { cwd });
+  const conflicts = new Map<string, Partial<Record<GitConflictSide, GitConflictStage>>>();
+
+  for (const record of stdout.split('\0')) {
+    if (!record) continue;
+
+    const match = record.match(/^(\d+) ([0-9a-f]+) (\d)\t(.*)$/s);
+    if (!match) continue;
+
+    const [, mode, oid, stage, path] = match;
+    const stages = conflicts.get(path) || {};
+    stages[STAGE_SIDES[stage]] = { oid, mode };
+    conflicts.set(path, stages);
+  }
+
+  return conflicts;
+}
+
+/**
+ * Read a blob as text, flagging binary content and truncating large files
+ */
+export async function readBlob(cwd: string, stage: GitConflictStage, maxBytes: number): Promise<GitConflictStage> {
+  const { stdout, exitCode } = await runGit(['cat-file', 'blob', stage.oid], { cwd, maxBuffer: 1024 * 1024 * 50 });
+  if (exitCode !== 0) {
+    return stage;
+  }
+
+  if (stdout.includes('\0')) {
+    return { ...stage, binary: true };
+  }
+
+  if (Buffer.byteLength(stdout) > maxBytes) {
+    return { ...stage, content: Buffer.from(stdout).subarray(0, maxBytes).toString('utf-8'), truncated: true };
+  }
+
+  return { ...stage, content: stdout };
+}
+
+function markerLabel(line: string, marker: string): string | null {
+  const text = line.replace(/\r$/, '');
+  if (!text.startsWith(marker)) return null;
+  if (text.length === marker.length) return '';
+  return text[marker.length] === ' ' ? text.slice(marker.length + 1) : null;
+}
+
+/**
+ * Parse conflict markers (merge, diff3 or zdiff3 style) into structured hunks
+ */
+export function parseConflictMarkers(text: string): GitConflictHunk[] {
+  const lines = text.split('\n');
+  const hunks: GitConflictHunk[] = [];
+  let hunk: GitConflictHunk | null = null;
+  let section: GitConflictSide = 'ours';
+
+  lines.forEach((line, index) => {
+    if (!hunk) {
+      const label = markerLabel(line, '<<<<<<<');
+      if (label !== null) {
+        hunk = { index: hunks.length, startLine: index + 1, endLine: index + 1, oursLabel: label, theirsLabel: '', ours: [], theirs: [] };
+        section = 'ours';
+      }
+      return;
+    }
+
+    const baseLabel = section === 'ours' ? markerLabel(line, '|||||||') : null;
+    if (baseLabel !== null) {
+      hunk.baseLabel = baseLabel;
+      hunk.base = [];
+      section = 'base';
+      return;
+    }
+
+    if (section !== 'theirs' && line.replace(/\r$/, '') === '=======') {
+      section = 'theirs';
+      return;
+    }
+
+    const endLabel = section === 'theirs' ? markerLabel(line, '>>>>>>>') : null;
+    if (endLabel !== null) {
+      hunk.theirsLabel = endLabel;
+      hunk.endLine = index + 1;
+      hunks.push(hunk);
+      hunk = null;
+      return;
+    }
+
+    if (section === 'base') {
+      hunk.base!.push(line);
+    } else {
+      hunk[section].push(line);
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Replace every conflict hunk with the lines returned by resolve
+ */
+export function replaceConflictHunks(text: string, resolve: (hunk: GitConflictHunk) => string[]): string {
+  const lines = text.split('\n');
+  const hunks = parseConflictMarkers(text);
+  const result: string[] = [];
+  let lineNumber = 1;
+
+  for (const hunk of hunks) {
+    result.push(...lines.slice(lineNumber - 1, hunk.startLine - 1));
+    result.push(...resolve(hunk));
+    lineNumber = hunk.endLine + 1;
+  }
+
+  result.push(...lines.slice(lineNumber - 1));
+  return result.join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { spawn } from 'child_process';
+import path from 'path';
+
+export const DEFAULT_TIMEOUT = 60 * 1000; // 1 minute
+export const NETWORK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_MAX_BUFFER = 1024 * 1024 * 10; // 10MB
+
+/** Everything after this is a revision or operand, even when it looks like an option */
+export const END_OF_OPTIONS = '--end-of-options';
+
+/**
+ * Schema for a ref, branch, remote, URL or path that ends up in git's argv. Values starting
+ * with "-" are rejected so git cannot parse them as options (e.g. "--output=<file>").
+ */
+export function gitArgSchema(): z.ZodString {
+  return z.string().regex(/^(?!-)/, 'must not start with "-"');
+}
+
+export interface GitCommandOptions {
+  cwd?: string;
+  input?: string;
+  timeout?: number;
+  maxBuffer?: number;
+  env?: Record<string, string>;
+  /** Run git in its own process group and stop the whole group, including commands git started, on timeout */
+  processGroup?: boolean;
+}
+
+export interface GitCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+/**
+ * Error thrown by git() when a command exits with a non-zero code
+ */
+export class GitCommandError extends Error {
+  readonly args: string[];
+  readonly result: GitCommandResult;
+
+  constructor(args: string[], result: GitCommandResult) {
+    const output = [result.stderr.trim(), result.stdout.trim()].filter(Boolean).join('\n');
+    const reason = result.timedOut ? `timed out after ${result.durationMs}ms` : `exit code ${result.exitCode}`;
+    const command = args.find((arg, index) => !arg.startsWith('-') && args[index - 1] !== '-c') || '';
+    super(`git ${command} failed (${reason})${output ? `\n${output}` : ''}`);
+    this.name = 'GitCommandError';
+    this.args = args;
+    this.result = result;
+  }
+}
+
+/**
+ * Run git with an argv array (no shell involved) and collect its output.
+ * Never throws for non-zero exit codes; check exitCode instead.
+ */
+export function runGit(args: string[], options: GitCommandOptions = {}): Promise<GitCommandResult> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+  const startedAt = Date.now();
+  // Negative PIDs address process groups, which Windows does not have
+  const useGroup = Boolean(options.processGroup) && process.platform !== 'win32';
+
+  return new Promise((resolve) => {
+    const child = spawn('git', args, {
+      cwd: options.cwd,
+      env: {
+        ...process.env,
+        // Never wait for credentials or editors on a terminal that doesn't exist
+        GIT_TERMINAL_PROMPT: '0',
+        GIT_EDITOR: 'true',
+        ...options.env
+      },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: useGroup
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let size = 0;
+    let timedOut = false;
+    let overflow = false;
+    let settled = false;
+
+    const stop = () => {
+      if (useGroup && child.pid) {
+        try {
+          process.kill(-child.pid, 'SIGTERM');
+          return;
+        } catch {
+          // The group is already gone; fall back to git itself
+        }
+      }
+      child.kill('SIGTERM');
+    };
+
+    const finish = (exitCode: number, extraError?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+
+      let stderrText = Buffer.concat(stderr).toString('utf-8');
+      if (extraError) {
+        stderrText += (stderrText ? '\n' : '') + extraError;
+      }
+
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: stderrText,
+        exitCode,
+        durationMs: Date.now() - startedAt,
+        ...(timedOut && { timedOut })
+      });
+    };
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBuffer) {
+        if (!overflow) {
+          overflow = true;
+          stop();
+        }
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, timeout);
+
+    child.stdout.on('data', collect(stdout));
+    child.stderr.on('data', collect(stderr));
+
+    child.on('error', (error) => {
+      finish(127, `Failed to run git: ${error.message}`);
+    });
+
+    child.on('close', (code) => {
+      if (overflow) {
+        finish(code || 1, `Output exceeded maxBuffer of ${maxBuffer} bytes`);
+      } else if (timedOut) {
+        finish(code || 1, `Command timed out after ${timeout}ms`);
+      } else {
+        finish(code ?? 1);
+      }
+    });
+
+    // Ignore EPIPE when git exits before reading all of stdin
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input ?? '');
+  });
+}
+
+/**
+ * Run git and throw GitCommandError when it fails
+ */
+export async function git(args: string[], options: GitCommandOptions = {}): Promise<GitCommandResult> {
+  const result = await runGit(args, options);
+
+  if (result.exitCode !== 0) {
+    throw new GitCommandError(args, result);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a path inside the repository's git directory (e.g. "rebase-merge")
+ */
+export async function gitPath(cwd: string, name: string): Promise<string> {
+  const { stdout } = await git(['rev-parse', '--git-path', name], { cwd });
+  return path.resolve(cwd, stdout.trim());
+}
\ No newline at end of file
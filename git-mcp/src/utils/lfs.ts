@@ -0,0 +1,157 @@
+import { open, readFile } from 'fs/promises';
+import path from 'path';
+import { GitDiffFile, GitLfsFile, GitLfsPointer } from '../types.js';
+import { runGit } from './git.js';
+
+// Pointer files are small; anything larger cannot be one
+const MAX_POINTER_SIZE = 1024;
+
+const POINTER_LINE = /^(version https:\/\/git-lfs\.github\.com\/spec\/v1|oid sha256:[0-9a-f]{64}|size \d+)$/;
+
+/**
+ * Parse the content of a Git LFS pointer file, or null when the text is not a pointer
+ */
+export function parseLfsPointer(text: string): GitLfsPointer | null {
+  if (text.length > MAX_POINTER_SIZE || !text.startsWith('version https://git-lfs.github.com/spec/v1')) {
+    return null;
+  }
+
+  const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m);
+  const size = text.match(/^size (\d+)$/m);
+  return oid && size ? { oid: oid[1], size: parseInt(size[1], 10) } : null;
+}
+
+function pointerFromLines(lines: string[]): GitLfsPointer | undefined {
+  const oid = lines.map(line => line.match(/^oid sha256:([0-9a-f]{64})$/)).find(Boolean);
+  const size = lines.map(line => line.match(/^size (\d+)$/)).find(Boolean);
+  return oid ? { oid: oid[1], size: size ? parseInt(size[1], 10) : 0 } : undefined;
+}
+
+function isPointerDiff(lines: string[]): boolean {
+  return lines.length > 0 && lines.every(line => POINTER_LINE.test(line)) && lines.some(line => line.startsWith('oid '));
+}
+
+/**
+ * Replace the hunks of LFS pointer files in a parsed diff with the old and new object ids
+ */
+export function annotateLfsDiff(files: GitDiffFile[]): GitDiffFile[] {
+  return files.map(file => {
+    const lines = file.hunks.flatMap(hunk => hunk.lines);
+    if (!isPointerDiff(lines.map(line => line.content))) return file;
+
+    const oldPointer = pointerFromLines(lines.filter(line => line.type !== 'add').map(line => line.content));
+    const newPointer = pointerFromLines(lines.filter(line => line.type !== 'delete').map(line => line.content));
+    return {
+      ...file,
+      hunks: [],
+      lfs: {
+        ...(file.status !== 'added' && oldPointer && { old: oldPointer }),
+        ...(file.status !== 'deleted' && newPointer && { new: newPointer })
+      }
+    };
+  });
+}
+
+function describePointer(pointer?: GitLfsPointer): string {
+  return pointer ? `${pointer.oid.substring(0, 12)} (${pointer.size} bytes)` : '(none)';
+}
+
+/**
+ * Replace the hunks of LFS pointer files in a textual diff with a one-line summary
+ */
+export function summarizeLfsPatch(output: string): string {
+  if (!output.includes('oid sha256:')) return output;
+
+  // Split before every file header, the first part keeps the commit header or stat block
+  return output.split(/^(?=diff --git )/m).map(section => {
+    const hunkStart = section.search(/^@@ /m);
+    if (!section.startsWith('diff --git ') || hunkStart < 0) return section;
+
+    const header = section.substring(0, hunkStart);
+    const body = section.substring(hunkStart).split('\n').filter(line => line && !line.startsWith('@@ ') && !line.startsWith('\\'));
+    if (!isPointerDiff(body.map(line => line.substring(1)))) return section;
+
+    const oldPointer = /^new file mode/m.test(header) ? undefined : pointerFromLines(body.filter(line => !line.startsWith('+')).map(line => line.substring(1)));
+    const newPointer = /^deleted file mode/m.test(header) ? undefined : pointerFromLines(body.filter(line => !line.startsWith('-')).map(line => line.substring(1)));
+    return `${header}Git LFS object: ${describePointer(oldPointer)} -> ${describePointer(newPointer)}\n`;
+  }).join('');
+}
+
+/**
+ * Installed git-lfs version, or null when git-lfs is not available
+ */
+export async function lfsVersion(cwd: string): Promise<string | null> {
+  const { stdout, exitCode } = await runGit(['lfs', 'version'], { cwd });
+  return exitCode === 0 ? stdout.trim() : null;
+}
+
+/**
+ * Patterns routed through LFS by the repository's .gitattributes files
+ */
+export async function lfsTrackedPatterns(root: string): Promise<Array<{ pattern: string; source: string }>> {
+  const { stdout } = await runGit(['ls-files', '-z', '--', '.gitattributes', ':(glob)**/.gitattributes'], { cwd: root });
+  const patterns: Array<{ pattern: string; source: string }> = [];
+
+  for (const source of stdout.split('\0').filter(Boolean)) {
+    let text: string;
+    try {
+      text = await readFile(path.join(root, source), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of text.split('\n')) {
+      const [pattern, ...attributes] = line.trim().split(/\s+/);
+      if (pattern && !pattern.startsWith('#') && attributes.includes('filter=lfs')) {
+        patterns.push({ pattern, source });
+      }
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Tracked files with the LFS filter attribute, and whether their content has
+ * been downloaded or the working tree still holds the pointer
+ */
+export async function lfsFiles(root: string, paths: string[] = []): Promise<GitLfsFile[]> {
+  const { stdout: tracked } = await runGit(['ls-files', '-z', '--', ...paths], {
+    cwd: root,
+    maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+  });
+  if (!tracked) return [];
+
+  const { stdout: attributes } = await runGit(['check-attr', '-z', '--stdin', 'filter'], {
+    cwd: root,
+    input: tracked,
+    maxBuffer: 1024 * 1024 * 100 // 100MB buffer
+  });
+
+  // Output is <path> NUL <attribute> NUL <value> NUL per file
+  const fields = attributes.split('\0');
+  const files: GitLfsFile[] = [];
+
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    if (fields[i + 2] !== 'lfs') continue;
+
+    const file = fields[i];
+    let pointer: GitLfsPointer | null = null;
+    try {
+      const handle = await open(path.join(root, file), 'r');
+      try {
+        const buffer = Buffer.alloc(MAX_POINTER_SIZE + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        pointer = parseLfsPointer(buffer.subarray(0, bytesRead).toString('utf-8'));
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Deleted or unreadable in the working tree
+    }
+
+    files.push({ path: file, downloaded: pointer === null, ...(pointer && { oid: pointer.oid, size: pointer.size }) });
+  }
+
+  return files;
+}
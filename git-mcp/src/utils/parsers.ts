@@ -0,0 +1,628 @@
+import {
+  GitBisectState,
+  GitBlameCommit,
+  GitBlameResult,
+  GitBranchStatus,
+  GitCommit,
+  GitDiffFile,
+  GitDiffHunk,
+  GitFileChange,
+  GitFileHistoryEntry,
+  GitFileState,
+  GitGrepFile,
+  GitReflogEntry,
+  GitStatusEntry,
+  GitStatusResult,
+  GitSubmodule,
+  GitTrailer,
+  GitWorktree
+} from '../types.js';
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Pretty format understood by parseCommits (use with --format)
+ */
+export const COMMIT_JSON_FORMAT = [
+  '%H', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%s', '%b', '%(trailers:only,unfold)'
+].join('%x1f') + '%x1e';
+
+/**
+ * Pretty format that marks the start of each commit so trailing diff or
+ * name-status output can be attributed to it (see parseCommitsWithChanges)
+ */
+export const COMMIT_WITH_CHANGES_FORMAT = '%x1d' + COMMIT_JSON_FORMAT;
+
+/**
+ * Pretty format understood by parseReflog (use with --date=iso-strict)
+ */
+export const REFLOG_FORMAT = ['%gd', '%H', '%gs', '%s'].join('%x1f') + '%x1e';
+
+/**
+ * Arguments that keep diff output parseable regardless of user config
+ */
+export const DIFF_JSON_ARGS = ['--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+
+const FILE_STATES: Record<string, GitFileState> = {
+  '.': 'unmodified',
+  'M': 'modified',
+  'T': 'type-changed',
+  'A': 'added',
+  'D': 'deleted',
+  'R': 'renamed',
+  'C': 'copied',
+  'U': 'unmerged',
+  '?': 'untracked',
+  '!': 'ignored'
+};
+
+function toFileState(code: string): GitFileState {
+  return FILE_STATES[code] || 'unmodified';
+}
+
+/**
+ * Split a record into a fixed number of space separated fields plus the remainder
+ */
+function splitFields(record: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = record;
+
+  for (let i = 0; i < count; i++) {
+    const index = rest.indexOf(' ');
+    if (index === -1) {
+      fields.push(rest);
+      rest = '';
+      continue;
+    }
+    fields.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+  }
+
+  fields.push(rest);
+  return fields;
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output
+ */
+export function parseStatusV2(output: string): GitStatusResult {
+  const branch: GitBranchStatus = {};
+  const entries: GitStatusEntry[] = [];
+  const records = output.split('\0');
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    if (record.startsWith('# ')) {
+      const [key, ...values] = record.slice(2).split(' ');
+      const value = values.join(' ');
+
+      switch (key) {
+        case 'branch.oid':
+          branch.oid = value === '(initial)' ? undefined : value;
+          break;
+        case 'branch.head':
+          branch.head = value === '(detached)' ? undefined : value;
+          break;
+        case 'branch.upstream':
+          branch.upstream = value;
+          break;
+        case 'branch.ab': {
+          const match = value.match(/^\+(\d+) -(\d+)$/);
+          if (match) {
+            branch.ahead = parseInt(match[1], 10);
+            branch.behind = parseInt(match[2], 10);
+          }
+          break;
+        }
+      }
+      continue;
+    }
+
+    switch (record[0]) {
+      case '1': {
+        const [, xy, submodule, , , , , , path] = splitFields(record, 8);
+        entries.push({
+          kind: 'changed',
+          path,
+          index: toFileState(xy[0]),
+          worktree: toFileState(xy[1]),
+          ...(submodule !== 'N...' && { submodule })
+        });
+        break;
+      }
+      case '2': {
+        const [, xy, submodule, , , , , , score, path] = splitFields(record, 9);
+        const origPath = records[++i];
+        entries.push({
+          kind: score.startsWith('C') ? 'copied' : 'renamed',
+          path,
+          origPath,
+          index: toFileState(xy[0]),
+          worktree: toFileState(xy[1]),
+          similarity: parseInt(score.slice(1), 10),
+          ...(submodule !== 'N...' && { submodule })
+        });
+        break;
+      }
+      case 'u': {
+        const [, xy, submodule, , , , , , , , path] = splitFields(record, 10);
+        entries.push({
+          kind: 'unmerged',
+          path,
+          index: toFileState(xy[0]),
+          worktree: toFileState(xy[1]),
+          ...(submodule !== 'N...' && { submodule })
+        });
+        break;
+      }
+      case '?':
+        entries.push({ kind: 'untracked', path: record.slice(2), index: 'untracked', worktree: 'untracked' });
+        break;
+      case '!':
+        entries.push({ kind: 'ignored', path: record.slice(2), index: 'ignored', worktree: 'ignored' });
+        break;
+    }
+  }
+
+  return { branch, entries };
+}
+
+/**
+ * Parse trailer lines ("Key: value") into structured trailers
+ */
+export function parseTrailers(text: string): GitTrailer[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const index = line.indexOf(':');
+      if (index === -1) return null;
+      return { key: line.slice(0, index).trim(), value: line.slice(index + 1).trim() };
+    })
+    .filter((trailer): trailer is GitTrailer => trailer !== null);
+}
+
+/**
+ * Parse commits printed with COMMIT_JSON_FORMAT
+ */
+export function parseCommits(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.trim())
+    .map(record => {
+      const [hash, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate, subject, body, trailers] =
+        record.split(FIELD_SEPARATOR);
+
+      return {
+        hash,
+        parents: parents ? parents.split(' ') : [],
+        author: { name: authorName, email: authorEmail, date: authorDate },
+        committer: { name: committerName, email: committerEmail, date: committerDate },
+        subject,
+        body: (body || '').trim(),
+        trailers: parseTrailers(trailers || '')
+      };
+    });
+}
+
+/**
+ * Undo git's C-style quoting of paths containing special characters
+ */
+export function unquotePath(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+
+  const bytes: number[] = [];
+  const inner = value.slice(1, -1);
+  const escapes: Record<string, number> = { n: 10, t: 9, r: 13, a: 7, b: 8, f: 12, v: 11, '"': 34, '\\': 92 };
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+      continue;
+    }
+
+    const next = inner[++i];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(inner.slice(i, i + 3), 8));
+      i += 2;
+    } else {
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+    }
+  }
+
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+function stripPrefix(value: string): string | null {
+  const unquoted = unquotePath(value.replace(/\t$/, ''));
+  if (unquoted === '/dev/null') return null;
+  return unquoted.replace(/^[ab]\//, '');
+}
+
+/**
+ * Best-effort extraction of paths from a "diff --git a/x b/y" header
+ */
+function parseDiffHeaderPaths(header: string): { oldPath: string; newPath: string } {
+  const rest = header.slice('diff --git '.length);
+
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  if (quoted && (quoted[1].startsWith('"') || quoted[2].startsWith('"'))) {
+    return { oldPath: stripPrefix(quoted[1]) || '', newPath: stripPrefix(quoted[2]) || '' };
+  }
+
+  // Without renames both sides are identical, so split in the middle
+  const middle = (rest.length - 1) / 2;
+  if (Number.isInteger(middle) && rest[middle] === ' ') {
+    const oldPath = rest.slice(2, middle);
+    const newPath = rest.slice(middle + 3);
+    if (oldPath === newPath) {
+      return { oldPath, newPath };
+    }
+  }
+
+  const index = rest.indexOf(' b/');
+  return { oldPath: rest.slice(2, index), newPath: rest.slice(index + 3) };
+}
+
+/**
+ * Parse unified diff output (git diff / git show) into files, hunks and lines
+ */
+export function parseDiff(output: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  let file: GitDiffFile | null = null;
+  let hunk: GitDiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const paths = parseDiffHeaderPaths(line);
+      file = { oldPath: paths.oldPath, newPath: paths.newPath, status: 'modified', binary: false, hunks: [] };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+
+    if (!file) continue;
+
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.slice(1);
+
+      if (marker === ' ') {
+        hunk.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '-') {
+        hunk.lines.push({ type: 'delete', content, oldLine: oldLine++ });
+        oldRemaining--;
+        continue;
+      }
+      if (marker === '+') {
+        hunk.lines.push({ type: 'add', content, newLine: newLine++ });
+        newRemaining--;
+        continue;
+      }
+    }
+
+    if (line.startsWith('\\') && hunk && hunk.lines.length > 0) {
+      hunk.lines[hunk.lines.length - 1].noNewlineAtEnd = true;
+      continue;
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/);
+    if (hunkHeader) {
+      hunk = {
+        header: line,
+        oldStart: parseInt(hunkHeader[1], 10),
+        oldLines: hunkHeader[2] !== undefined ? parseInt(hunkHeader[2], 10) : 1,
+        newStart: parseInt(hunkHeader[3], 10),
+        newLines: hunkHeader[4] !== undefined ? parseInt(hunkHeader[4], 10) : 1,
+        ...(hunkHeader[5] && { section: hunkHeader[5] }),
+        lines: []
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      continue;
+    }
+
+    if (line.startsWith('new file mode ')) {
+      file.status = 'added';
+      file.newMode = line.slice('new file mode '.length);
+      file.oldPath = null;
+    } else if (line.startsWith('deleted file mode ')) {
+      file.status = 'deleted';
+      file.oldMode = line.slice('deleted file mode '.length);
+      file.newPath = null;
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquotePath(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.newPath = unquotePath(line.slice('rename to '.length));
+    } else if (line.startsWith('copy from ')) {
+      file.status = 'copied';
+      file.oldPath = unquotePath(line.slice('copy from '.length));
+    } else if (line.startsWith('copy to ')) {
+      file.newPath = unquotePath(line.slice('copy to '.length));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    } else if (line.startsWith('--- ')) {
+      file.oldPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      file.newPath = stripPrefix(line.slice(4));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse `--name-status` lines into file changes
+ */
+export function parseNameStatus(output: string): GitFileChange[] {
+  return output
+    .split('\n')
+    .filter(line => /^[A-Z]\d*\t/.test(line))
+    .map(line => {
+      const [status, first, second] = line.split('\t');
+      return second !== undefined
+        ? { status: status[0], oldPath: first, path: second }
+        : { status: status[0], path: first };
+    });
+}
+
+/**
+ * Parse commits printed with COMMIT_WITH_CHANGES_FORMAT followed by either
+ * patches (diffs) or --name-status output
+ */
+export function parseCommitsWithChanges(output: string, kind: 'diff' | 'name-status'): GitFileHistoryEntry[] {
+  return output
+    .split('\x1d')
+    .filter(chunk => chunk.includes(RECORD_SEPARATOR))
+    .map(chunk => {
+      const index = chunk.indexOf(RECORD_SEPARATOR);
+      const [commit] = parseCommits(chunk.slice(0, index + 1));
+      const rest = chunk.slice(index + 1);
+
+      return kind === 'diff'
+        ? { ...commit, files: parseDiff(rest) }
+        : { ...commit, changes: parseNameStatus(rest) };
+    });
+}
+
+function toIsoDate(epoch: string, timezone: string): string {
+  const match = timezone.match(/^([+-])(\d{2})(\d{2})$/);
+  const offsetMinutes = match ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10)) : 0;
+  const local = new Date((parseInt(epoch, 10) + offsetMinutes * 60) * 1000);
+  const iso = local.toISOString().replace(/\.\d{3}Z$/, '');
+  return match ? `${iso}${match[1]}${match[2]}:${match[3]}` : `${iso}Z`;
+}
+
+/**
+ * Parse `git blame --porcelain` output into commits and per-line records
+ */
+export function parseBlamePorcelain(output: string): GitBlameResult {
+  const commits: Record<string, GitBlameCommit> = {};
+  const lines: GitBlameResult['lines'] = [];
+  const raw: Record<string, Record<string, string>> = {};
+  let current: { commit: string; originalLine: number; line: number } | null = null;
+
+  for (const line of output.split('\n')) {
+    if (current && line.startsWith('\t')) {
+      lines.push({ line: current.line, originalLine: current.originalLine, commit: current.commit, content: line.slice(1) });
+      current = null;
+      continue;
+    }
+
+    const header = line.match(/^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/);
+    if (header) {
+      current = { commit: header[1], originalLine: parseInt(header[2], 10), line: parseInt(header[3], 10) };
+      raw[header[1]] = raw[header[1]] || {};
+      continue;
+    }
+
+    if (current) {
+      const index = line.indexOf(' ');
+      const key = index === -1 ? line : line.slice(0, index);
+      raw[current.commit][key] = index === -1 ? '' : line.slice(index + 1);
+    }
+  }
+
+  for (const [hash, fields] of Object.entries(raw)) {
+    const previous = fields['previous']?.match(/^([0-9a-f]{40}) (.*)$/);
+    commits[hash] = {
+      author: {
+        name: fields['author'] || '',
+        email: (fields['author-mail'] || '').replace(/^<|>$/g, ''),
+        date: fields['author-time'] ? toIsoDate(fields['author-time'], fields['author-tz'] || '') : ''
+      },
+      committer: {
+        name: fields['committer'] || '',
+        email: (fields['committer-mail'] || '').replace(/^<|>$/g, ''),
+        date: fields['committer-time'] ? toIsoDate(fields['committer-time'], fields['committer-tz'] || '') : ''
+      },
+      summary: fields['summary'] || '',
+      filename: fields['filename'] || '',
+      ...(previous && { previous: { commit: previous[1], filename: previous[2] } }),
+      ...('boundary' in fields && { boundary: true })
+    };
+  }
+
+  return { commits, lines };
+}
+
+/**
+ * Parse `git worktree list --porcelain -z` output
+ */
+export function parseWorktreeList(output: string): GitWorktree[] {
+  const worktrees: GitWorktree[] = [];
+  let worktree: GitWorktree | null = null;
+
+  for (const record of output.split('\0')) {
+    if (!record) {
+      worktree = null;
+      continue;
+    }
+
+    const index = record.indexOf(' ');
+    const key = index === -1 ? record : record.slice(0, index);
+    const value = index === -1 ? undefined : record.slice(index + 1);
+
+    if (key === 'worktree') {
+      worktree = { path: value || '', detached: false, bare: false, locked: false, prunable: false };
+      worktrees.push(worktree);
+      continue;
+    }
+
+    if (!worktree) continue;
+
+    switch (key) {
+      case 'HEAD':
+        worktree.head = value;
+        break;
+      case 'branch':
+        worktree.branch = value?.replace(/^refs\/heads\//, '');
+        break;
+      case 'detached':
+        worktree.detached = true;
+        break;
+      case 'bare':
+        worktree.bare = true;
+        break;
+      case 'locked':
+        worktree.locked = true;
+        if (value) worktree.lockReason = value;
+        break;
+      case 'prunable':
+        worktree.prunable = true;
+        if (value) worktree.prunableReason = value;
+        break;
+    }
+  }
+
+  return worktrees;
+}
+
+/**
+ * Work out the bisect state from the output of a bisect start/good/bad/skip/run step
+ */
+export function parseBisectOutput(output: string): GitBisectState {
+  const found = [...output.matchAll(/^([0-9a-f]{40}) is the first bad commit$/gm)].pop();
+  if (found) {
+    return { status: 'found', firstBad: found[1] };
+  }
+
+  if (output.includes('The first bad commit could be any of:')) {
+    const list = output.split('The first bad commit could be any of:')[1];
+    return { status: 'inconclusive', candidates: [...list.matchAll(/^([0-9a-f]{40})$/gm)].map(match => match[1]) };
+  }
+
+  const progress = [...output.matchAll(/^Bisecting: (\d+) revisions? left to test after this \(roughly (\d+) steps?\)\n\[([0-9a-f]{40})\] (.*)$/gm)].pop();
+  if (progress) {
+    return {
+      status: 'bisecting',
+      remaining: parseInt(progress[1], 10),
+      steps: parseInt(progress[2], 10),
+      current: { hash: progress[3], subject: progress[4] }
+    };
+  }
+
+  return { status: 'waiting' };
+}
+
+/**
+ * Parse reflog entries printed with REFLOG_FORMAT
+ */
+export function parseReflog(output: string, ref: string = 'HEAD'): GitReflogEntry[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.trim())
+    .map((record, index) => {
+      const [selector, hash, reflogSubject, subject] = record.split(FIELD_SEPARATOR);
+      const date = selector.match(/@\{(.*)\}$/)?.[1] || '';
+      const separator = reflogSubject.indexOf(': ');
+
+      return {
+        index,
+        selector: `${ref}@{${index}}`,
+        hash,
+        operation: separator === -1 ? reflogSubject : reflogSubject.slice(0, separator),
+        message: separator === -1 ? '' : reflogSubject.slice(separator + 2),
+        date,
+        subject: (subject || '').trim()
+      };
+    });
+}
+
+/**
+ * Parse `git grep -n -z --column` output (optionally with context lines) into per-file results.
+ * Match lines carry a column, context lines do not.
+ */
+export function parseGrep(output: string, ref?: string): GitGrepFile[] {
+  const files = new Map<string, GitGrepFile>();
+
+  for (const line of output.split('\n')) {
+    if (!line || line === '--') continue;
+
+    const fields = line.split('\0');
+    if (fields.length < 3) continue;
+
+    const path = ref && fields[0].startsWith(`${ref}:`) ? fields[0].slice(ref.length + 1) : fields[0];
+    const file = files.get(path) || { path, matches: 0, lines: [] };
+    files.set(path, file);
+
+    if (fields.length >= 4) {
+      file.matches++;
+      file.lines.push({ line: parseInt(fields[1], 10), column: parseInt(fields[2], 10), text: fields.slice(3).join('\0'), match: true });
+    } else {
+      file.lines.push({ line: parseInt(fields[1], 10), text: fields[2], match: false });
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Parse `git submodule status` output. The first character tells the state:
+ * '-' not initialized, '+' checked out commit differs from the recorded one, 'U' merge conflict.
+ */
+export function parseSubmoduleStatus(output: string): GitSubmodule[] {
+  const states: Record<string, GitSubmodule['status']> = { ' ': 'current', '-': 'uninitialized', '+': 'modified', 'U': 'conflict' };
+  const submodules: GitSubmodule[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^([ +\-U])([0-9a-f]+) (.+?)(?: \((.*)\))?$/);
+    if (!match) continue;
+
+    submodules.push({
+      path: match[3],
+      commit: match[2],
+      status: states[match[1]],
+      ...(match[4] && { describe: match[4] })
+    });
+  }
+
+  return submodules;
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDiff } from './parsers.js';
+import { buildPatch, hunkId, splitDiff } from './patch.js';
+
+const diff = [
+  'diff --git a/numbers.txt b/numbers.txt',
+  'index 94ebaf9..6f4c2a1 100644',
+  '--- a/numbers.txt',
+  '+++ b/numbers.txt',
+  '@@ -1,4 +1,4 @@',
+  ' 1',
+  ' 2',
+  '-3',
+  '+three',
+  ' 4',
+  ''
+].join('\n');
+
+/**
+ * Content of one side of the single hunk in a patch
+ */
+function side(patch: string, marker: '-' | '+'): string[] {
+  const body = patch.split('\n').slice(patch.split('\n').findIndex(line => line.startsWith('@@ ')) + 1);
+  return body.filter(line => line[0] === ' ' || line[0] === marker).map(line => line.slice(1));
+}
+
+function select(lines: Array<{ start: number; end: number }>, reverse: boolean): string {
+  const parsed = parseDiff(diff);
+  const id = hunkId('numbers.txt', parsed[0].hunks[0].header);
+  const { patch, missing } = buildPatch(parsed, splitDiff(diff), [{ id, lines }], reverse);
+  assert.deepEqual(missing, []);
+  return patch;
+}
+
+test('an unselected removal becomes context after the selected additions', () => {
+  const patch = select([{ start: 3, end: 3 }], false);
+  assert.match(patch, /^@@ -1,4 \+1,5 @@$/m);
+  assert.deepEqual(side(patch, '-'), ['1', '2', '3', '4']);
+  assert.deepEqual(side(patch, '+'), ['1', '2', 'three', '3', '4']);
+});
+
+test('a selected removal without its addition only removes the line', () => {
+  const patch = select([{ start: 2, end: 2 }], false);
+  assert.match(patch, /^@@ -1,4 \+1,3 @@$/m);
+  assert.deepEqual(side(patch, '+'), ['1', '2', '4']);
+});
+
+test('unselected removals keep their order around selected ones', () => {
+  const block = diff.replace(' 2\n-3\n', '-2\n-3\n').replace('@@ -1,4 +1,4 @@', '@@ -1,4 +1,3 @@');
+  const parsed = parseDiff(block);
+  const id = hunkId('numbers.txt', parsed[0].hunks[0].header);
+  const { patch } = buildPatch(parsed, splitDiff(block), [{ id, lines: [{ start: 2, end: 3 }] }], false);
+  assert.deepEqual(side(patch, '-'), ['1', '2', '3', '4']);
+  assert.deepEqual(side(patch, '+'), ['1', '2', 'three', '4']);
+});
+
+test('unstaging an addition alone keeps the staged removal', () => {
+  const patch = select([{ start: 3, end: 3 }], true);
+  assert.match(patch, /^@@ -1,3 \+1,4 @@$/m);
+  assert.deepEqual(side(patch, '-'), ['1', '2', '4']);
+  assert.deepEqual(side(patch, '+'), ['1', '2', 'three', '4']);
+});
\ No newline at end of file
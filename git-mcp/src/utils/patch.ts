@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { GitDiffFile } from '../types.js';
+
+export interface RawDiffHunk {
+  header: string;
+  body: string[];
+}
+
+export interface RawDiffFile {
+  header: string[];
+  hunks: RawDiffHunk[];
+}
+
+export interface HunkSelection {
+  id: string;
+  lines?: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Stable identifier for a hunk: its path plus a hash of the hunk header
+ */
+export function hunkId(path: string, header: string): string {
+  return `${path}#${createHash('sha1').update(header).digest('hex').slice(0, 10)}`;
+}
+
+/**
+ * Extract the path part of a hunk identifier
+ */
+export function hunkIdPath(id: string): string {
+  const index = id.lastIndexOf('#');
+  return index === -1 ? id : id.slice(0, index);
+}
+
+/**
+ * Split raw unified diff output into per-file headers and raw hunk bodies,
+ * in the same order parseDiff reports files and hunks
+ */
+export function splitDiff(output: string): RawDiffFile[] {
+  const files: RawDiffFile[] = [];
+  let file: RawDiffFile | null = null;
+  let hunk: RawDiffHunk | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = { header: [line], hunks: [] };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+
+    if (!file) continue;
+
+    if (line.startsWith('@@ ')) {
+      hunk = { header: line, body: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      if (line !== '') {
+        hunk.body.push(line);
+      }
+    } else {
+      file.header.push(line);
+    }
+  }
+
+  return files;
+}
+
+function withinRanges(index: number, ranges: Array<{ start: number; end: number }>): boolean {
+  return ranges.some(range => index >= range.start && index <= range.end);
+}
+
+/**
+ * Build a patch containing only the selected hunks (or lines within them).
+ * For reverse patches (unstaging) unselected additions stay as context and
+ * unselected deletions are dropped; forward patches do the opposite.
+ */
+export function buildPatch(
+  parsed: GitDiffFile[],
+  raw: RawDiffFile[],
+  selections: HunkSelection[],
+  reverse: boolean
+): { patch: string; missing: string[] } {
+  const wanted = new Map(selections.map(selection => [selection.id, selection]));
+  const found = new Set<string>();
+  const output: string[] = [];
+
+  parsed.forEach((file, fileIndex) => {
+    const path = file.newPath ?? file.oldPath ?? '';
+    const rawFile = raw[fileIndex];
+    const hunks: string[] = [];
+
+    file.hunks.forEach((hunk, hunkIndex) => {
+      const id = hunkId(path, hunk.header);
+      const selection = wanted.get(id);
+      if (!selection) return;
+      found.add(id);
+
+      const body = rawFile.hunks[hunkIndex].body;
+      if (!selection.lines) {
+        hunks.push(hunk.header, ...body);
+        return;
+      }
+
+      // Rebuild the hunk keeping only the selected changed lines. Unselected changes that
+      // turn into context are held back past the following changes from the other side,
+      // as git add -p does, so kept additions land where the removed lines were.
+      const converted = reverse ? '+' : '-';
+      const lines: string[] = [];
+      let deferred: string[] = [];
+      let lineIndex = -1;
+      let previous: 'kept' | 'deferred' | 'dropped' = 'dropped';
+
+      for (const line of body) {
+        if (line.startsWith('\\')) {
+          if (previous === 'kept') lines.push(line);
+          if (previous === 'deferred') deferred.push(line);
+          continue;
+        }
+
+        lineIndex++;
+        const marker = line[0];
+        const selected = withinRanges(lineIndex, selection.lines);
+
+        if (marker === ' ') {
+          lines.push(...deferred, line);
+          deferred = [];
+          previous = 'kept';
+        } else if (selected) {
+          // Lines from the same side as the held back ones must keep their order
+          if (marker === converted) {
+            lines.push(...deferred);
+            deferred = [];
+          }
+          lines.push(line);
+          previous = 'kept';
+        } else if (marker === converted) {
+          deferred.push(' ' + line.slice(1));
+          previous = 'deferred';
+        } else {
+          previous = 'dropped';
+        }
+      }
+      lines.push(...deferred);
+
+      const oldCount = lines.filter(line => line[0] === ' ' || line[0] === '-').length;
+      const newCount = lines.filter(line => line[0] === ' ' || line[0] === '+').length;
+      const header = hunk.header.replace(
+        /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/,
+        `@@ -$1,${oldCount} +$2,${newCount} @@`
+      );
+      hunks.push(header, ...lines);
+    });
+
+    if (hunks.length > 0) {
+      output.push(...rawFile.header, ...hunks);
+    }
+  });
+
+  const missing = selections.map(selection => selection.id).filter(id => !found.has(id));
+  return { patch: output.length > 0 ? output.join('\n') + '\n' : '', missing };
+}
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { runGit } from './git.js';
+
+export const confirmSchema = z.string().optional().describe('Confirmation token required by the repository policy for destructive operations');
+
+export const POLICY_FILE = '.git-mcp-policy.json';
+
+export type DestructiveOperation =
+  | 'force-push'
+  | 'push-delete'
+  | 'reset-hard'
+  | 'history-rewrite'
+  | 'branch-update'
+  | 'branch-delete'
+  | 'branch-force-delete'
+  | 'tag-delete'
+  | 'tag-overwrite'
+  | 'stash-drop'
+  | 'discard-changes'
+  | 'worktree-force-remove';
+
+export type PolicyRule = 'allow' | 'confirm' | 'forbid';
+
+export interface GitPolicy {
+  source: string;
+  protectedBranches: string[];
+  operations: Record<DestructiveOperation, PolicyRule>;
+  protectedOperations: Record<DestructiveOperation, PolicyRule>;
+}
+
+export interface PolicyCheck {
+  operation: DestructiveOperation;
+  /** Branch, tag or other ref the operation applies to (used for the confirm token) */
+  target: string;
+  /** Branches affected; the protected rules apply when any of them is protected */
+  branches?: string[];
+  /** What would happen if the operation ran */
+  description: string;
+}
+
+const DEFAULT_OPERATIONS: Record<DestructiveOperation, PolicyRule> = {
+  'force-push': 'confirm',
+  'push-delete': 'confirm',
+  'reset-hard': 'confirm',
+  'history-rewrite': 'allow',
+  'branch-update': 'allow',
+  'branch-delete': 'allow',
+  'branch-force-delete': 'confirm',
+  'tag-delete': 'confirm',
+  'tag-overwrite': 'confirm',
+  'stash-drop': 'allow',
+  'discard-changes': 'allow',
+  'worktree-force-remove': 'confirm'
+};
+
+const DEFAULT_PROTECTED_OPERATIONS: Record<DestructiveOperation, PolicyRule> = {
+  ...DEFAULT_OPERATIONS,
+  'force-push': 'forbid',
+  'push-delete': 'forbid',
+  'history-rewrite': 'confirm',
+  'branch-update': 'confirm',
+  'branch-delete': 'forbid',
+  'branch-force-delete': 'forbid'
+};
+
+const ruleSchema = z.enum(['allow', 'confirm', 'forbid']);
+const operationsSchema = z.record(ruleSchema)
+  .refine(
+    operations => Object.keys(operations).every(name => name in DEFAULT_OPERATIONS),
+    { message: `Unknown operation; expected one of ${Object.keys(DEFAULT_OPERATIONS).join(', ')}` }
+  )
+  .optional();
+
+const policyFileSchema = z.object({
+  protectedBranches: z.array(z.string()).optional(),
+  operations: operationsSchema,
+  protectedOperations: operationsSchema
+});
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('**')
+    .map(part => part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Load the destructive-operation policy. GIT_MCP_POLICY points to a policy file
+ * that applies to every repository and takes precedence over a repository's own
+ * .git-mcp-policy.json; without either the built-in defaults apply.
+ */
+export async function loadPolicy(root: string): Promise<GitPolicy> {
+  const file = process.env.GIT_MCP_POLICY || path.join(root, POLICY_FILE);
+
+  let text: string | null = null;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch (error) {
+    if (process.env.GIT_MCP_POLICY) {
+      throw new Error(`Cannot read policy file '${file}' (GIT_MCP_POLICY): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (text === null) {
+    return {
+      source: 'default policy',
+      protectedBranches: ['main', 'master'],
+      operations: DEFAULT_OPERATIONS,
+      protectedOperations: DEFAULT_PROTECTED_OPERATIONS
+    };
+  }
+
+  let parsed: z.infer<typeof policyFileSchema>;
+  try {
+    parsed = policyFileSchema.parse(JSON.parse(text));
+  } catch (error) {
+    const reason = error instanceof z.ZodError
+      ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid policy file '${file}': ${reason}`);
+  }
+
+  return {
+    source: file,
+    protectedBranches: parsed.protectedBranches ?? ['main', 'master'],
+    operations: { ...DEFAULT_OPERATIONS, ...parsed.operations } as Record<DestructiveOperation, PolicyRule>,
+    protectedOperations: { ...DEFAULT_PROTECTED_OPERATIONS, ...parsed.protectedOperations } as Record<DestructiveOperation, PolicyRule>
+  };
+}
+
+/**
+ * Check whether a branch name matches one of the protected branch patterns
+ */
+export function isProtectedBranch(policy: GitPolicy, branch: string): boolean {
+  const name = branch.replace(/^refs\/heads\//, '');
+  return policy.protectedBranches.some(pattern => globToRegExp(pattern).test(name));
+}
+
+/**
+ * Token the caller passes as `confirm` to run an operation that needs confirmation
+ */
+export function confirmToken(check: PolicyCheck): string {
+  return `${check.operation}:${check.target}`;
+}
+
+/**
+ * Enforce the policy for one or more operations. Returns a refusal message to
+ * send back to the caller, or null when everything may proceed.
+ */
+export async function enforcePolicy(root: string, checks: PolicyCheck | PolicyCheck[], confirm?: string): Promise<string | null> {
+  let policy: GitPolicy;
+  try {
+    policy = await loadPolicy(root);
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}. Refusing destructive operations until the policy is fixed.`;
+  }
+
+  // Several tokens can be confirmed at once, separated by commas
+  const confirmed = (confirm || '').split(',').map(token => token.trim());
+
+  for (const check of Array.isArray(checks) ? checks : [checks]) {
+    const protectedBranch = (check.branches || []).find(branch => isProtectedBranch(policy, branch));
+    const rule = protectedBranch ? policy.protectedOperations[check.operation] : policy.operations[check.operation];
+    const reason = protectedBranch
+      ? `'${check.operation}' on protected branch '${protectedBranch}'`
+      : `'${check.operation}'`;
+
+    if (rule === 'forbid') {
+      return `Error: Refused by policy (${policy.source}): ${reason} is forbidden.\nWould have: ${check.description}`;
+    }
+
+    if (rule === 'confirm' && !confirmed.includes(confirmToken(check))) {
+      return `Error: Refused by policy (${policy.source}): ${reason} requires confirmation.\n` +
+        `Would have: ${check.description}\n` +
+        `To proceed, call again with confirm: "${confirmToken(check)}"`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Name of the branch HEAD points to, or null when detached
+ */
+export async function currentBranch(cwd: string): Promise<string | null> {
+  const { stdout, exitCode } = await runGit(['symbolic-ref', '--short', '-q', 'HEAD'], { cwd });
+  return exitCode === 0 && stdout.trim() ? stdout.trim() : null;
+}
\ No newline at end of file
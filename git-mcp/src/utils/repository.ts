@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { realpathSync, statSync } from 'fs';
+import path from 'path';
+import { runGit } from './git.js';
+
+export const repoPathSchema = z.string().optional().describe('Path to the git repository (default: server working directory)');
+
+export interface RepositoryResolution {
+  valid: boolean;
+  cwd?: string;
+  root?: string;
+  error?: string;
+}
+
+/**
+ * Get the directories git tools are allowed to operate in.
+ * Configured with GIT_MCP_ALLOWED_ROOTS (separated by the platform path delimiter),
+ * defaults to the server working directory.
+ */
+export function getAllowedRoots(): string[] {
+  const configured = process.env.GIT_MCP_ALLOWED_ROOTS;
+  const roots = configured
+    ? configured.split(path.delimiter).map(root => root.trim()).filter(Boolean)
+    : [process.cwd()];
+
+  return roots.map(root => {
+    try {
+      return realpathSync(path.resolve(root));
+    } catch {
+      return path.resolve(root);
+    }
+  });
+}
+
+/**
+ * Check whether a path is one of the allowed roots or lives below one
+ */
+export function isWithinAllowedRoots(target: string, roots: string[] = getAllowedRoots()): boolean {
+  return roots.some(root => {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+}
+
+/**
+ * Resolve and validate the directory a git tool should run in
+ */
+export async function resolveRepository(repoPath?: string, options?: { requireGitRepo?: boolean }): Promise<RepositoryResolution> {
+  const requested = path.resolve(repoPath || process.cwd());
+
+  let resolved: string;
+  try {
+    resolved = realpathSync(requested);
+  } catch {
+    return { valid: false, error: `Path '${requested}' does not exist` };
+  }
+
+  if (!statSync(resolved).isDirectory()) {
+    return { valid: false, error: `Path '${requested}' is not a directory` };
+  }
+
+  const roots = getAllowedRoots();
+  if (!isWithinAllowedRoots(resolved, roots)) {
+    return {
+      valid: false,
+      error: `Path '${requested}' is outside the allowed roots (${roots.join(', ')}). Configure GIT_MCP_ALLOWED_ROOTS to allow it.`
+    };
+  }
+
+  if (options?.requireGitRepo === false) {
+    return { valid: true, cwd: resolved };
+  }
+
+  const result = await runGit(['rev-parse', '--show-toplevel'], { cwd: resolved });
+  if (result.exitCode !== 0) {
+    return { valid: false, error: `Path '${requested}' is not a git repository` };
+  }
+
+  return { valid: true, cwd: resolved, root: result.stdout.trim() };
+}
\ No newline at end of file
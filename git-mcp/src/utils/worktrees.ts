@@ -0,0 +1,33 @@
+import { realpathSync } from 'fs';
+import { GitWorktree } from '../types.js';
+import { git } from './git.js';
+import { parseWorktreeList } from './parsers.js';
+
+function realpathOrSelf(target: string): string {
+  try {
+    return realpathSync(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * List the worktrees of a repository, marking the one containing cwd as current
+ */
+export async function listWorktrees(cwd: string, currentRoot?: string): Promise<GitWorktree[]> {
+  const { stdout } = await git(['worktree', 'list', '--porcelain', '-z'], { cwd });
+  const current = currentRoot ? realpathOrSelf(currentRoot) : undefined;
+
+  return parseWorktreeList(stdout).map(worktree => ({
+    ...worktree,
+    current: current !== undefined && realpathOrSelf(worktree.path) === current
+  }));
+}
+
+/**
+ * Find a worktree by path (resolving symlinks)
+ */
+export function findWorktree(worktrees: GitWorktree[], target: string): GitWorktree | undefined {
+  const resolved = realpathOrSelf(target);
+  return worktrees.find(worktree => realpathOrSelf(worktree.path) === resolved);
+}
\ No newline at end of file